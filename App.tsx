@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { DashboardTab } from './components/DashboardTab';
 import { DocsTab } from './components/DocsTab';
@@ -7,15 +7,26 @@ import { OverviewTab } from './components/OverviewTab';
 import { DevPanel } from './components/DevPanel';
 import { SettingsPanel } from './components/SettingsPanel';
 import { ToastContainer } from './components/ToastContainer';
-import { TabId, AgentStatus, AgentState } from './types';
+import { CommandPalette, PaletteAction } from './components/CommandPalette';
+import { TabId, AgentStatus, AgentState, NavigationTarget } from './types';
 import { useNotifications } from './lib/useNotifications';
 import { useSyncTracker } from './lib/useSyncTracker';
+import { useServerEvents } from './lib/useServerEvents';
 import * as api from './lib/api';
 
-const DEFAULT_POLL_INTERVAL = 10_000; // poll agent status every 10 seconds
-
 const ALL_STATES: AgentState[] = ['working', 'thinking', 'idle', 'sleeping', 'error', 'executing_cron'];
 
+const STATE_LABELS: Record<AgentState, { label: string; emoji: string }> = {
+  working: { label: 'Working', emoji: '🫡' },
+  thinking: { label: 'Thinking', emoji: '🤔' },
+  idle: { label: 'Idle', emoji: '😊' },
+  sleeping: { label: 'Sleeping', emoji: '😴' },
+  error: { label: 'Error', emoji: '😵‍💫' },
+  executing_cron: { label: 'Running Cron', emoji: '🤖' },
+};
+
+const TABS: TabId[] = ['dashboard', 'docs', 'log', 'overview'];
+
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabId>('dashboard');
 
@@ -28,7 +39,7 @@ const App: React.FC = () => {
   });
 
   // Notification badges & toasts
-  const { badges, toasts, markViewed, dismissToast } = useNotifications(activeTab);
+  const { badges, toasts, markViewed, dismissToast, pushToast } = useNotifications(activeTab);
 
   // Sync tracker
   const { formattedTime: syncTime, dotEmoji: syncDot, freshness, recordSync } = useSyncTracker();
@@ -38,6 +49,11 @@ const App: React.FC = () => {
   const [agentName, setAgentName] = useState('Zyga');
   const [refreshInterval, setRefreshInterval] = useState(10); // seconds
 
+  // Command palette (Ctrl+K) and the jump it requested, consumed by the target tab
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [navTarget, setNavTarget] = useState<NavigationTarget | null>(null);
+  const clearNavTarget = useCallback(() => setNavTarget(null), []);
+
   // Sidebar collapse (auto-collapse on narrow screens)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(() => window.innerWidth < 1024);
 
@@ -56,7 +72,7 @@ const App: React.FC = () => {
   const cycleRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const [isCycling, setIsCycling] = useState(false);
 
-  // ── Poll /api/agent-status ──
+  // ── Fetch /api/agent-status ──
   const fetchStatus = useCallback(async () => {
     try {
       const data = await api.fetchAgentStatus();
@@ -69,10 +85,13 @@ const App: React.FC = () => {
 
   useEffect(() => {
     fetchStatus(); // initial fetch
-    if (refreshInterval <= 0) return; // "Off" = no polling
-    const id = setInterval(fetchStatus, refreshInterval * 1000);
-    return () => clearInterval(id);
-  }, [fetchStatus, refreshInterval]);
+  }, [fetchStatus]);
+
+  // ── Live updates from /api/events; poll at refreshInterval only while the stream is down ──
+  useServerEvents(['agent-status', 'ping', 'connected'], (event) => {
+    if (event.type === 'agent-status') setAgentStatus(event.data as AgentStatus);
+    recordSync();
+  }, { fallback: fetchStatus, fallbackInterval: refreshInterval * 1000 });
 
   // ── Dev panel: 5-rapid-click on avatar area ──
   const handleAvatarClick = useCallback(() => {
@@ -141,13 +160,63 @@ const App: React.FC = () => {
     setIsRefreshing(false);
   }, [fetchStatus]);
 
-  // Keyboard shortcut: Ctrl+Shift+D
+  // ── Command palette: navigation + actions ──
+  const switchTab = useCallback((tab: TabId) => {
+    setActiveTab(tab);
+    markViewed(tab);
+  }, [markViewed]);
+
+  const handlePaletteNavigate = useCallback((tab: TabId, target: NavigationTarget) => {
+    switchTab(tab);
+    setNavTarget(target);
+  }, [switchTab]);
+
+  const paletteActions = useMemo<PaletteAction[]>(() => [
+    {
+      id: 'create-task',
+      label: 'Create task',
+      icon: '➕',
+      hint: 'Dashboard',
+      run: () => handlePaletteNavigate('dashboard', { kind: 'new-task' }),
+    },
+    {
+      id: 'trigger-heartbeat',
+      label: 'Trigger heartbeat',
+      icon: '💓',
+      run: () => { api.triggerHeartbeat().catch((err) => console.error('Failed to trigger heartbeat', err)); },
+    },
+    ...ALL_STATES.map((state): PaletteAction => ({
+      id: `agent-state:${state}`,
+      label: `Switch agent state: ${STATE_LABELS[state].label}`,
+      icon: STATE_LABELS[state].emoji,
+      hint: agentStatus.state === state ? 'current' : undefined,
+      run: () => handleDevSetState(state),
+    })),
+    ...TABS.map((tab): PaletteAction => ({
+      id: `go:${tab}`,
+      label: `Go to ${tab.charAt(0).toUpperCase() + tab.slice(1)}`,
+      icon: '↪️',
+      run: () => switchTab(tab),
+    })),
+    {
+      id: 'open-settings',
+      label: 'Open settings',
+      icon: '⚙️',
+      run: () => setSettingsOpen(true),
+    },
+  ], [agentStatus.state, handleDevSetState, handlePaletteNavigate, switchTab]);
+
+  // Keyboard shortcuts: Ctrl+Shift+D (dev panel), Ctrl/Cmd+K (command palette)
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       if (e.ctrlKey && e.shiftKey && e.key === 'D') {
         e.preventDefault();
         setDevPanelOpen((p) => !p);
       }
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setPaletteOpen((p) => !p);
+      }
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
@@ -174,12 +243,12 @@ const App: React.FC = () => {
           <nav className="flex items-center h-full space-x-4 sm:space-x-8 overflow-x-auto scrollbar-none min-w-0">
             <h1 className="text-xl font-bold tracking-tight text-white mr-2 sm:mr-4 whitespace-nowrap">{agentName} <span className="text-primary">•</span></h1>
 
-            {(['dashboard', 'docs', 'log', 'overview'] as TabId[]).map((tab) => {
+            {TABS.map((tab) => {
               const count = badges[tab] || 0;
               return (
                 <button
                   key={tab}
-                  onClick={() => { setActiveTab(tab); markViewed(tab); }}
+                  onClick={() => switchTab(tab)}
                   className={`relative h-full px-2 text-sm font-medium transition-colors capitalize ${
                     activeTab === tab
                       ? 'text-white'
@@ -202,6 +271,14 @@ const App: React.FC = () => {
           </nav>
 
           <div className="flex items-center gap-2 sm:gap-4 text-xs text-textMuted shrink-0">
+            <button
+              onClick={() => setPaletteOpen(true)}
+              className="flex items-center gap-2 px-2 sm:px-3 py-1.5 border border-border rounded hover:bg-surface hover:text-textMain transition-colors"
+              title="Search everything (Ctrl+K)"
+            >
+              <span>🔍</span>
+              <kbd className="hidden sm:inline font-mono text-[10px]">Ctrl K</kbd>
+            </button>
             <button
               onClick={handleManualRefresh}
               disabled={isRefreshing}
@@ -228,9 +305,9 @@ const App: React.FC = () => {
 
         {/* Tab Content */}
         <main className="flex-1 overflow-hidden relative bg-[#0d1117]">
-          {activeTab === 'dashboard' && <DashboardTab />}
-          {activeTab === 'docs' && <DocsTab />}
-          {activeTab === 'log' && <LogTab />}
+          {activeTab === 'dashboard' && <DashboardTab navTarget={navTarget} onNavigationHandled={clearNavTarget} onNavigate={handlePaletteNavigate} onToast={pushToast} />}
+          {activeTab === 'docs' && <DocsTab navTarget={navTarget} onNavigationHandled={clearNavTarget} />}
+          {activeTab === 'log' && <LogTab navTarget={navTarget} onNavigationHandled={clearNavTarget} />}
           {activeTab === 'overview' && <OverviewTab />}
         </main>
       </div>
@@ -248,6 +325,15 @@ const App: React.FC = () => {
         />
       )}
 
+      {/* Command Palette (Ctrl+K) */}
+      {paletteOpen && (
+        <CommandPalette
+          actions={paletteActions}
+          onNavigate={handlePaletteNavigate}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
+
       {/* Toast notifications */}
       <ToastContainer toasts={toasts} onDismiss={dismissToast} />
 
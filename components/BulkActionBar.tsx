@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { BoardColumn, TaskPriority } from '../types';
+import type { BatchAction } from '../lib/api';
+
+interface BulkActionBarProps {
+  count: number;
+  columns: BoardColumn[];
+  onAction: (action: BatchAction) => void;
+  onClear: () => void;
+}
+
+const PRIORITIES: TaskPriority[] = ['High', 'Medium', 'Low'];
+
+const controlClass = 'bg-[#0d1117] border border-border rounded-md px-2 py-1 text-xs text-textMain focus:outline-none focus:border-primary cursor-pointer';
+const buttonClass = 'px-2.5 py-1 rounded-md text-xs font-medium border border-border bg-[#21262d] text-textMain hover:border-primary transition-colors';
+
+/** Floating toolbar for the cards selected on the board */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, columns, onAction, onClear }) => {
+  const [label, setLabel] = useState('');
+  const hasArchive = columns.some((c) => c.kind === 'archive');
+
+  const addLabel = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = label.trim();
+    if (!trimmed) return;
+    onAction({ action: 'label', label: trimmed });
+    setLabel('');
+  };
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center gap-2 px-4 py-2.5 bg-[#1c2128] border border-primary/40 rounded-xl shadow-2xl animate-fade-in-up">
+      <span className="text-sm font-semibold text-white mr-1">{count} selected</span>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onAction({ action: 'move', status: e.target.value })}
+        className={controlClass}
+      >
+        <option value="" className="bg-[#161b22]">Move to...</option>
+        {columns.map((c) => (
+          <option key={c.key} value={c.key} className="bg-[#161b22]">{c.name}</option>
+        ))}
+      </select>
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onAction({ action: 'priority', priority: e.target.value as TaskPriority })}
+        className={controlClass}
+      >
+        <option value="" className="bg-[#161b22]">Priority...</option>
+        {PRIORITIES.map((p) => (
+          <option key={p} value={p} className="bg-[#161b22]">{p}</option>
+        ))}
+      </select>
+
+      <form onSubmit={addLabel} className="flex items-center gap-1">
+        <input
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="Add label"
+          className="w-24 bg-[#0d1117] border border-border rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-primary"
+        />
+        <button type="submit" disabled={!label.trim()} className={`${buttonClass} disabled:opacity-40`}>🏷️</button>
+      </form>
+
+      {hasArchive && (
+        <button onClick={() => onAction({ action: 'archive' })} className={buttonClass}>📦 Archive</button>
+      )}
+      <button
+        onClick={() => {
+          if (confirm(`Delete ${count} task${count !== 1 ? 's' : ''}?`)) onAction({ action: 'delete' });
+        }}
+        className="px-2.5 py-1 rounded-md text-xs font-medium border border-red-500/30 text-red-400 hover:bg-red-900/30 transition-colors"
+      >
+        Delete
+      </button>
+
+      <button onClick={onClear} className="ml-1 text-textMuted hover:text-white text-xs p-1" title="Clear selection (Esc)">✕</button>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { BoardColumn, ColumnKind } from '../types';
+import * as api from '../lib/api';
+
+interface ColumnMenuProps {
+  column: BoardColumn;
+  columns: BoardColumn[];
+  taskCount: number;
+  onChanged: () => void; // reload the board after a change was saved
+  onClose: () => void;
+}
+
+const KIND_OPTIONS: { value: ColumnKind; label: string }[] = [
+  { value: 'open', label: 'Open — work in progress' },
+  { value: 'done', label: 'Done — finished work' },
+  { value: 'archive', label: 'Archive — collapsed, read-only' },
+];
+
+const inputClass = 'w-full bg-background border border-border rounded-md px-2.5 py-1.5 text-sm text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors';
+
+/** Header dropdown of a Kanban column: rename, WIP limit, kind, position, delete */
+export const ColumnMenu: React.FC<ColumnMenuProps> = ({ column, columns, taskCount, onChanged, onClose }) => {
+  const [name, setName] = useState(column.name);
+  const [wipLimit, setWipLimit] = useState(column.wipLimit === null ? '' : String(column.wipLimit));
+  const [kind, setKind] = useState<ColumnKind>(column.kind);
+  const others = columns.filter((c) => c.key !== column.key);
+  const [moveTo, setMoveTo] = useState(others.find((c) => c.kind === 'open')?.key ?? others[0]?.key ?? '');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const index = columns.findIndex((c) => c.key === column.key);
+  const hasOtherArchive = others.some((c) => c.kind === 'archive');
+
+  const run = async (request: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await request();
+      onChanged();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update column');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const limit = wipLimit.trim() === '' ? null : Number(wipLimit);
+    if (limit !== null && (!Number.isInteger(limit) || limit < 0)) {
+      setError('WIP limit must be a whole number');
+      return;
+    }
+    run(() => api.updateColumn(column.key, { name: name.trim(), kind, wipLimit: limit || null }));
+  };
+
+  const handleMove = (offset: -1 | 1) => {
+    const order = columns.map((c) => c.key);
+    order.splice(index + offset, 0, order.splice(index, 1)[0]);
+    run(() => api.reorderColumns(order));
+  };
+
+  const handleDelete = () => {
+    const target = taskCount > 0 ? others.find((c) => c.key === moveTo) : undefined;
+    const message = target
+      ? `Delete "${column.name}" and move its ${taskCount} task${taskCount === 1 ? '' : 's'} to "${target.name}"?`
+      : `Delete "${column.name}"?`;
+    if (!confirm(message)) return;
+    run(() => api.deleteColumn(column.key, target?.key));
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-30" onClick={onClose} />
+      <div className="absolute top-full right-2 z-40 mt-1 w-64 bg-[#1c2128] border border-border rounded-xl shadow-2xl p-3 space-y-3" onClick={(e) => e.stopPropagation()}>
+        <form onSubmit={handleSave} className="space-y-2">
+          <div>
+            <label className="block text-[10px] uppercase tracking-wide text-textMuted font-bold mb-1">Name</label>
+            <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} autoFocus />
+          </div>
+          <div>
+            <label className="block text-[10px] uppercase tracking-wide text-textMuted font-bold mb-1">WIP limit</label>
+            <input
+              type="number"
+              min={0}
+              value={wipLimit}
+              onChange={(e) => setWipLimit(e.target.value)}
+              placeholder="No limit"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] uppercase tracking-wide text-textMuted font-bold mb-1">Kind</label>
+            <select value={kind} onChange={(e) => setKind(e.target.value as ColumnKind)} className={`${inputClass} cursor-pointer`}>
+              {KIND_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value} disabled={opt.value === 'archive' && hasOtherArchive} className="bg-[#161b22]">
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={busy || !name.trim()}
+            className="w-full py-1.5 rounded-md text-xs font-medium bg-primary hover:bg-primaryHover text-white disabled:opacity-40 transition-colors"
+          >
+            Save
+          </button>
+        </form>
+
+        <div className="flex gap-2 border-t border-border pt-3">
+          <button
+            onClick={() => handleMove(-1)}
+            disabled={busy || index <= 0}
+            className="flex-1 py-1 rounded-md text-xs bg-[#21262d] border border-border text-textMain hover:border-primary disabled:opacity-40 transition-colors"
+          >
+            ← Move left
+          </button>
+          <button
+            onClick={() => handleMove(1)}
+            disabled={busy || index >= columns.length - 1}
+            className="flex-1 py-1 rounded-md text-xs bg-[#21262d] border border-border text-textMain hover:border-primary disabled:opacity-40 transition-colors"
+          >
+            Move right →
+          </button>
+        </div>
+
+        <div className="border-t border-border pt-3 space-y-2">
+          {taskCount > 0 && others.length > 0 && (
+            <div>
+              <label className="block text-[10px] uppercase tracking-wide text-textMuted font-bold mb-1">Move its tasks to</label>
+              <select value={moveTo} onChange={(e) => setMoveTo(e.target.value)} className={`${inputClass} cursor-pointer`}>
+                {others.map((c) => (
+                  <option key={c.key} value={c.key} className="bg-[#161b22]">{c.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <button
+            onClick={handleDelete}
+            disabled={busy || others.length === 0}
+            className="w-full py-1.5 rounded-md text-xs font-medium text-red-400 border border-red-500/30 hover:bg-red-900/30 disabled:opacity-40 transition-colors"
+          >
+            Delete column
+          </button>
+        </div>
+
+        {error && <p className="text-[11px] text-red-400">{error}</p>}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,265 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { NavigationTarget, TabId, DocCategory, ColumnKind } from '../types';
+import * as api from '../lib/api';
+import { fuzzyMatch } from '../lib/fuzzyMatch';
+import { getDocIcon } from '../lib/docUtils';
+import { columnKind, columnName } from '../lib/board';
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  icon: string;
+  hint?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  actions: PaletteAction[];
+  onNavigate: (tab: TabId, target: NavigationTarget) => void;
+  onClose: () => void;
+}
+
+type GroupKey = 'actions' | 'tasks' | 'docs' | 'notes' | 'log';
+
+interface PaletteItem {
+  key: string;
+  group: GroupKey;
+  icon: string;
+  label: string;
+  detail?: string;
+  run: () => void;
+}
+
+interface ScoredItem extends PaletteItem {
+  score: number;
+  indices: number[];
+}
+
+const GROUPS: { key: GroupKey; label: string }[] = [
+  { key: 'actions', label: 'Actions' },
+  { key: 'tasks', label: 'Tasks' },
+  { key: 'docs', label: 'Documents' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'log', label: 'Activity Log' },
+];
+
+const MAX_PER_GROUP = 6;
+
+const TASK_ICONS: Record<ColumnKind, string> = { open: '📌', done: '✅', archive: '🗄️' };
+
+// ── Label with matched characters highlighted ──
+const Highlighted: React.FC<{ text: string; indices: number[] }> = ({ text, indices }) => {
+  if (indices.length === 0) return <>{text}</>;
+  const set = new Set(indices);
+  const parts: { text: string; match: boolean }[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const match = set.has(i);
+    const last = parts[parts.length - 1];
+    if (last && last.match === match) last.text += text[i];
+    else parts.push({ text: text[i], match });
+  }
+  return (
+    <>
+      {parts.map((p, i) =>
+        p.match ? <span key={i} className="text-primary font-semibold">{p.text}</span> : <span key={i}>{p.text}</span>
+      )}
+    </>
+  );
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ actions, onNavigate, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [items, setItems] = useState<PaletteItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Load everything searchable once per open
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [board, docs, notes, log] = await Promise.all([
+        api.fetchBoard().catch((): api.Board => ({ columns: [], tasks: [] })),
+        api.fetchDocuments().catch(() => []),
+        api.fetchNotes().catch(() => []),
+        api.fetchActivityLog().catch(() => []),
+      ]);
+      if (cancelled) return;
+      setItems([
+        ...board.tasks.map((t): PaletteItem => ({
+          key: `task:${t.id}`,
+          group: 'tasks',
+          icon: TASK_ICONS[columnKind(board.columns, t.status)],
+          label: t.title,
+          detail: `${columnName(board.columns, t.status)} · ${t.priority}`,
+          run: () => onNavigate('dashboard', { kind: 'task', id: t.id }),
+        })),
+        ...docs.map((d): PaletteItem => ({
+          key: `doc:${d.filename}`,
+          group: 'docs',
+          icon: getDocIcon(d.category as DocCategory, d.emoji),
+          label: d.title,
+          detail: d.category,
+          run: () => onNavigate('docs', { kind: 'doc', id: d.filename }),
+        })),
+        ...notes.map((n): PaletteItem => ({
+          key: `note:${n.id}`,
+          group: 'notes',
+          icon: '🗒️',
+          label: n.content.replace(/\s+/g, ' ').trim(),
+          detail: new Date(n.createdAt).toLocaleDateString([], { month: 'short', day: 'numeric' }),
+          run: () => onNavigate('dashboard', { kind: 'note', id: n.id }),
+        })),
+        ...log.map((e): PaletteItem => ({
+          key: `log:${e.id}`,
+          group: 'log',
+          icon: '📋',
+          label: e.description,
+          detail: new Date(e.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }),
+          run: () => onNavigate('log', { kind: 'log', id: e.id }),
+        })),
+      ]);
+      setLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [onNavigate]);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // ── Filter + rank, grouped in GROUPS order ──
+  const results = useMemo(() => {
+    const all: PaletteItem[] = [
+      ...actions.map((a): PaletteItem => ({
+        key: `action:${a.id}`,
+        group: 'actions',
+        icon: a.icon,
+        label: a.label,
+        detail: a.hint,
+        run: a.run,
+      })),
+      ...items,
+    ];
+    const q = query.trim();
+    const byGroup = new Map<GroupKey, ScoredItem[]>();
+    for (const item of all) {
+      // Without a query, show actions and a few of each kind in their natural order
+      const m = q ? fuzzyMatch(q, item.label) : { score: 0, indices: [] };
+      if (!m) continue;
+      const list = byGroup.get(item.group) || [];
+      list.push({ ...item, score: m.score, indices: m.indices });
+      byGroup.set(item.group, list);
+    }
+    const ordered: ScoredItem[] = [];
+    for (const { key } of GROUPS) {
+      const list = byGroup.get(key) || [];
+      if (q) list.sort((a, b) => b.score - a.score);
+      const limit = key === 'actions' && !q ? list.length : MAX_PER_GROUP;
+      ordered.push(...list.slice(0, limit));
+    }
+    return ordered;
+  }, [actions, items, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the active row in view
+  useEffect(() => {
+    const el = listRef.current?.querySelector(`[data-index="${activeIndex}"]`);
+    el?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => (results.length === 0 ? 0 : (i + 1) % results.length));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => (results.length === 0 ? 0 : (i - 1 + results.length) % results.length));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runItem(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 backdrop-blur-sm p-4 pt-[12vh]" onClick={onClose}>
+      <div
+        className="bg-surface border border-border rounded-xl shadow-2xl w-full max-w-xl overflow-hidden animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Search input */}
+        <div className="flex items-center gap-3 px-4 border-b border-border">
+          <svg className="text-textMuted shrink-0" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search tasks, docs, notes, log… or type a command"
+            className="flex-1 bg-transparent py-3.5 text-sm text-white placeholder-textMuted/60 focus:outline-none"
+          />
+          <kbd className="text-[10px] text-textMuted border border-border rounded px-1.5 py-0.5 font-mono">Esc</kbd>
+        </div>
+
+        {/* Results */}
+        <div ref={listRef} className="max-h-[55vh] overflow-y-auto custom-scrollbar py-2">
+          {results.length === 0 && (
+            <div className="text-center py-8 text-xs text-textMuted">
+              {loading ? 'Loading…' : 'No results'}
+            </div>
+          )}
+          {results.map((item, i) => {
+            const showHeader = i === 0 || results[i - 1].group !== item.group;
+            const isActive = i === activeIndex;
+            return (
+              <React.Fragment key={item.key}>
+                {showHeader && (
+                  <div className="px-4 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-textMuted">
+                    {GROUPS.find((g) => g.key === item.group)?.label}
+                  </div>
+                )}
+                <button
+                  data-index={i}
+                  onClick={() => runItem(item)}
+                  onMouseMove={() => setActiveIndex(i)}
+                  className={`w-full flex items-center gap-3 px-4 py-2 text-left transition-colors ${
+                    isActive ? 'bg-primary/15' : 'hover:bg-[#1c2128]'
+                  }`}
+                >
+                  <span className="text-base shrink-0 w-5 text-center">{item.icon}</span>
+                  <span className={`flex-1 min-w-0 truncate text-sm ${isActive ? 'text-white' : 'text-textMain'}`}>
+                    <Highlighted text={item.label} indices={item.indices} />
+                  </span>
+                  {item.detail && (
+                    <span className="text-[10px] text-textMuted shrink-0">{item.detail}</span>
+                  )}
+                </button>
+              </React.Fragment>
+            );
+          })}
+        </div>
+
+        {/* Footer hints */}
+        <div className="px-4 py-2 border-t border-border bg-[#1c2128] flex items-center gap-4 text-[10px] text-textMuted">
+          <span><kbd className="font-mono">↑↓</kbd> navigate</span>
+          <span><kbd className="font-mono">↵</kbd> open</span>
+          <span><kbd className="font-mono">Ctrl K</kbd> toggle</span>
+        </div>
+      </div>
+    </div>
+  );
+};
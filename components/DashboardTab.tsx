@@ -1,29 +1,94 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { KanbanBoard } from './KanbanBoard';
 import { ScheduledDeliverables } from './ScheduledDeliverables';
 import { NotesSection } from './NotesSection';
-import { Task, Deliverable, Note } from '../types';
+import { Task, TaskStatus, Deliverable, Note, NoteReply, NoteStatus, NoteAttachment, NavigationTarget, TabId, ChecklistItem, BoardColumn, ToastAction } from '../types';
 import * as api from '../lib/api';
+import { useServerEvents } from '../lib/useServerEvents';
+import { useUndoStack, UndoEntry } from '../lib/useUndoStack';
+import { useMutationQueue, MutationFailedError } from '../lib/useMutationQueue';
+import { columnName } from '../lib/board';
+
+type TaskUpdates = Pick<Partial<Task>, 'title' | 'description' | 'priority' | 'status' | 'dueAt' | 'reminderAt' | 'labels' | 'assignee' | 'customFields' | 'dependsOn' | 'recurrence'>;
 
 function mapDeliverable(item: api.DeliverableItem): Deliverable {
   const tag = item.type ? item.type.charAt(0).toUpperCase() + item.type.slice(1) : 'Folder';
   return {
     id: item.id,
     title: item.name,
-    frequency: (item.frequency as 'Daily' | 'Weekly' | 'Monthly') || 'Daily',
+    frequency: item.frequency || 'Custom',
     tag,
     icon: item.emoji || '📁',
+    description: item.description,
+    cron: item.cron_expression || '',
+    enabled: item.enabled,
+    lastRun: item.last_run ? new Date(item.last_run).getTime() : null,
+    nextRun: item.next_run ? new Date(item.next_run).getTime() : null,
   };
 }
 
-const STATUS_ORDER: Task['status'][] = ['todo', 'in-progress', 'done', 'archive'];
+/** Move a task to `index` among the other tasks of its status (end of the column if undefined) */
+function placeTask(tasks: Task[], id: string, index?: number): Task[] {
+  const task = tasks.find((t) => t.id === id);
+  if (!task) return tasks;
+  const rest = tasks.filter((t) => t.id !== id);
+  const column = rest.filter((t) => t.status === task.status);
+  const anchor = index !== undefined ? column[index] : undefined;
+  const at = anchor
+    ? rest.indexOf(anchor)
+    : column.length > 0 ? rest.indexOf(column[column.length - 1]) + 1 : rest.length;
+  rest.splice(at, 0, task);
+  return rest;
+}
+
+/** Put one column's tasks in the order of `ids` (tasks not listed go after them) */
+function orderColumn(tasks: Task[], status: TaskStatus, ids: string[]): Task[] {
+  const rank = (t: Task) => (ids.includes(t.id) ? ids.indexOf(t.id) : ids.length);
+  const column = tasks.filter((t) => t.status === status).sort((a, b) => rank(a) - rank(b));
+  let i = 0;
+  return tasks.map((t) => (t.status === status ? column[i++] : t));
+}
+
+/** An id for a task or note created here (crypto.randomUUID only exists on https / localhost) */
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+const NOTE_TITLE_MAX = 80;
+
+/** Split a note into the title and body of the task / doc made from it: its first line is the title */
+function splitNote(content: string): { title: string; body: string } {
+  const [first, ...rest] = content.trim().split('\n');
+  if (first.length <= NOTE_TITLE_MAX) return { title: first.trim(), body: rest.join('\n').trim() };
+  return { title: `${first.slice(0, NOTE_TITLE_MAX - 1).trimEnd()}…`, body: content.trim() };
+}
+
+interface DashboardTabProps {
+  navTarget?: NavigationTarget | null;
+  onNavigationHandled?: () => void;
+  onNavigate?: (tab: TabId, target: NavigationTarget) => void;
+  onToast?: (message: string, action?: ToastAction) => void;
+}
 
-export const DashboardTab: React.FC = () => {
+/** Typing in a field keeps the browser's own Ctrl+Z */
+function isEditable(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+}
+
+export const DashboardTab: React.FC<DashboardTabProps> = ({ navTarget, onNavigationHandled, onNavigate, onToast }) => {
   const [tasks, setTasks] = useState<Task[]>([]);
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
   const [notes, setNotes] = useState<Note[]>([]);
   const [deliverables, setDeliverables] = useState<Deliverable[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [highlightNoteId, setHighlightNoteId] = useState<string | null>(null);
+  const { record: recordUndo, undo, redo } = useUndoStack();
+
+  // Undo / redo run later, against whatever the board looks like by then
+  const tasksRef = useRef(tasks);
+  useEffect(() => { tasksRef.current = tasks; }, [tasks]);
 
   // Fetch tasks, notes, and deliverables on mount
   useEffect(() => {
@@ -32,13 +97,14 @@ export const DashboardTab: React.FC = () => {
       try {
         setLoading(true);
         setError(null);
-        const [tasksData, notesData, deliverablesData] = await Promise.all([
-          api.fetchTasks(),
+        const [board, notesData, deliverablesData] = await Promise.all([
+          api.fetchBoard(),
           api.fetchNotes(),
           api.fetchDeliverables(),
         ]);
         if (!cancelled) {
-          setTasks(tasksData);
+          setColumns(board.columns);
+          setTasks(board.tasks);
           setNotes(notesData);
           setDeliverables(deliverablesData.map(mapDeliverable));
         }
@@ -51,64 +117,635 @@ export const DashboardTab: React.FC = () => {
     return () => { cancelled = true; };
   }, []);
 
+  // Columns and tasks live in the same file, so they're always reloaded together
+  const reloadBoard = useCallback(() => {
+    api.fetchBoard().then((board) => {
+      setColumns(board.columns);
+      setTasks(board.tasks);
+    }).catch(() => {});
+  }, []);
+
+  const reloadNotes = useCallback(() => {
+    api.fetchNotes().then(setNotes).catch(() => {});
+  }, []);
+
+  const reloadDeliverables = useCallback(() => {
+    api.fetchDeliverables().then((d) => setDeliverables(d.map(mapDeliverable))).catch(() => {});
+  }, []);
+
+  // Pick up changes made elsewhere (another tab, or the Zyga agent writing the JSON files)
+  const refreshBoard = useCallback(async () => {
+    try {
+      const [board, notesData, deliverablesData] = await Promise.all([
+        api.fetchBoard(),
+        api.fetchNotes(),
+        api.fetchDeliverables(),
+      ]);
+      setColumns(board.columns);
+      setTasks(board.tasks);
+      setNotes(notesData);
+      setDeliverables(deliverablesData.map(mapDeliverable));
+    } catch { /* keep last known data */ }
+  }, []);
+
+  // Changes show up right away and are saved in the background (lib/useMutationQueue). A reload
+  // while some are still queued would briefly take them back on screen, so it waits for them.
+  const staleRef = useRef(false);
+  const { run, mutate, isPending } = useMutationQueue({
+    onError: (message, retry) => onToast?.(message, { label: 'Retry', onClick: retry }),
+    onIdle: () => {
+      if (!staleRef.current) return;
+      staleRef.current = false;
+      refreshBoard();
+    },
+  });
+
+  useServerEvents(['tasks.changed', 'notes.changed', 'deliverables.changed'], (event) => {
+    if (isPending()) {
+      staleRef.current = true;
+      return;
+    }
+    if (event.type === 'tasks.changed') reloadBoard();
+    if (event.type === 'notes.changed') reloadNotes();
+    if (event.type === 'deliverables.changed') reloadDeliverables();
+  }, {
+    fallback: () => {
+      if (isPending()) staleRef.current = true;
+      else refreshBoard();
+    },
+  });
+
+  // Once the soonest scheduled run is due the agent updates last_run; fetch the next run time then
+  useEffect(() => {
+    const due = deliverables.map((d) => d.nextRun).filter((t): t is number => t !== null);
+    if (due.length === 0) return;
+    const delay = Math.min(Math.max(Math.min(...due) - Date.now(), 0) + 5000, 24 * 60 * 60 * 1000);
+    const timer = setTimeout(reloadDeliverables, delay);
+    return () => clearTimeout(timer);
+  }, [deliverables, reloadDeliverables]);
+
+  // Command palette jump to a note: highlight it briefly (tasks are handled by KanbanBoard)
+  useEffect(() => {
+    if (loading || navTarget?.kind !== 'note') return;
+    setHighlightNoteId(navTarget.id);
+    onNavigationHandled?.();
+  }, [loading, navTarget, onNavigationHandled]);
+
+  useEffect(() => {
+    if (!highlightNoteId) return;
+    const timer = setTimeout(() => setHighlightNoteId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightNoteId]);
+
+  // --- Undo / redo ---
+
+  // Each step's toast offers the opposite step
+  const stepHistory: (direction: 'undo' | 'redo') => void = useCallback((direction: 'undo' | 'redo') => {
+    const back = direction === 'undo' ? 'redo' : 'undo';
+    (direction === 'undo' ? undo : redo)().then((entry) => {
+      if (!entry) return;
+      onToast?.(`${direction === 'undo' ? 'Undone' : 'Redone'}: ${entry.label}`, {
+        label: back === 'undo' ? 'Undo' : 'Redo',
+        onClick: () => stepHistory(back),
+      });
+    }).catch((e) => {
+      if (e instanceof MutationFailedError) return; // already reported, with a retry button
+      console.error(`Failed to ${direction}`, e);
+      onToast?.(`Couldn't ${direction}: ${e instanceof Error ? e.message : e}`);
+    });
+  }, [undo, redo, onToast]);
+
+  /** Remember a change for Ctrl+Z and offer to undo it right away */
+  const recordChange = useCallback((entry: UndoEntry) => {
+    recordUndo(entry);
+    onToast?.(entry.label, { label: 'Undo', onClick: () => stepHistory('undo') });
+  }, [recordUndo, stepHistory, onToast]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS)
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z' || isEditable(e.target)) return;
+      e.preventDefault();
+      stepHistory(e.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [stepHistory]);
+
+  // --- Task mutations ---
+
+  // Newest revision the server returned per task. A queued update can be sent before the board
+  // has re-rendered with the previous update's result, so it checks here as well as the task.
+  const revisionsRef = useRef(new Map<string, number>());
+  const rememberRevisions = useCallback((saved: Task[]) => {
+    for (const t of saved) revisionsRef.current.set(t.id, t.revision ?? 0);
+  }, []);
+  const revisionOf = useCallback((id: string) => Math.max(
+    tasksRef.current.find((t) => t.id === id)?.revision ?? 0,
+    revisionsRef.current.get(id) ?? 0,
+  ), []);
+
+  /**
+   * Update a task optimistically. The write carries the task's revision: if the server says it
+   * changed in the meantime (e.g. Zyga edited it), the board is reloaded instead of overwriting.
+   */
+  const updateTaskFields = useCallback((task: Task, updates: TaskUpdates, position?: number) => {
+    const moved = position !== undefined || (updates.status !== undefined && updates.status !== task.status);
+    const before = Object.fromEntries(Object.keys(updates).map((k) => [k, task[k as keyof TaskUpdates]])) as TaskUpdates;
+    const oldIndex = tasksRef.current.filter((t) => t.status === task.status).findIndex((t) => t.id === task.id);
+    return run({
+      label: `Couldn't save "${task.title}"`,
+      apply: () => setTasks((prev) => {
+        const next = prev.map((t) => (t.id === task.id ? { ...t, ...updates } : t));
+        return moved ? placeTask(next, task.id, position) : next;
+      }),
+      send: () => api.updateTask(task.id, { ...updates, revision: revisionOf(task.id), position }),
+      commit: (revision) => {
+        revisionsRef.current.set(task.id, revision);
+        setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, revision } : t)));
+      },
+      rollback: (e) => {
+        if (e instanceof api.TaskConflictError) {
+          reloadBoard();
+          return;
+        }
+        setTasks((prev) => {
+          const next = prev.map((t) => (t.id === task.id ? { ...t, ...before } : t));
+          return moved ? placeTask(next, task.id, oldIndex) : next;
+        });
+      },
+    });
+  }, [run, revisionOf, reloadBoard]);
+
+  /** Save fields on the task as it is now (for undo / redo); rejects if that isn't possible */
+  const saveTaskFields = useCallback(async (id: string, updates: TaskUpdates, position?: number) => {
+    const task = tasksRef.current.find((t) => t.id === id);
+    if (!task) throw new Error('the task no longer exists');
+    await updateTaskFields(task, updates, position);
+  }, [updateTaskFields]);
+
+  /** Save a column's order (task ids, top first) */
+  const reorderColumn = useCallback(async (status: TaskStatus, ids: string[]) => {
+    await run({
+      label: "Couldn't save the new order",
+      apply: () => setTasks((prev) => orderColumn(prev, status, ids)),
+      send: () => api.reorderTasks({ [status]: ids }),
+      commit: rememberRevisions,
+      rollback: reloadBoard,
+    });
+  }, [run, rememberRevisions, reloadBoard]);
+
+  /** Move a task to the trash; resolves to its trash entry id (null if it was already gone) */
+  const trashTask = useCallback((task: Task) => {
+    const index = tasksRef.current.findIndex((t) => t.id === task.id);
+    return run({
+      label: `Couldn't delete "${task.title}"`,
+      apply: () => setTasks((prev) => prev.filter((t) => t.id !== task.id)),
+      send: () => api.deleteTask(task.id).catch((e) => {
+        if (e instanceof api.ApiError && e.status === 404) return null;
+        throw e;
+      }),
+      rollback: () => setTasks((prev) => (
+        prev.some((t) => t.id === task.id) ? prev : [...prev.slice(0, index), task, ...prev.slice(index)]
+      )),
+    });
+  }, [run]);
+
+  /** Put a trashed task or note back, then reload what it belongs to */
+  const restore = useCallback(async (trashId: string | null, title: string, reload: () => void) => {
+    if (!trashId) throw new Error(`"${title}" is no longer in the trash`);
+    await run({ label: `Couldn't restore "${title}"`, send: () => api.restoreFromTrash(trashId), commit: reload });
+  }, [run]);
+
+  /**
+   * Edit or move a task and record it: undo puts back the fields that changed and, for a move,
+   * the task's old place in its old column
+   */
+  const changeTask = useCallback((task: Task, updates: TaskUpdates, position?: number) => {
+    const changed = (Object.keys(updates) as (keyof TaskUpdates)[])
+      .filter((k) => JSON.stringify(task[k] ?? null) !== JSON.stringify(updates[k] ?? null));
+    const moved = position !== undefined || changed.includes('status');
+    const before = Object.fromEntries(changed.map((k) => [k, task[k] ?? null])) as TaskUpdates;
+    const oldIndex = tasksRef.current.filter((t) => t.status === task.status).findIndex((t) => t.id === task.id);
+
+    updateTaskFields(task, updates, position).then(() => {
+      if (changed.length === 0 && !moved) return;
+      const label = changed.length === 1 && changed[0] === 'status'
+        ? `Moved "${task.title}" to ${columnName(columns, updates.status!)}`
+        : changed.length === 0 ? `Moved "${task.title}"` : `Edited "${task.title}"`;
+      recordChange({
+        label,
+        undo: () => saveTaskFields(task.id, before, moved ? oldIndex : undefined),
+        redo: () => saveTaskFields(task.id, updates, position),
+      });
+    }, () => {});
+  }, [columns, updateTaskFields, saveTaskFields, recordChange]);
+
   const onMoveTask = useCallback((id: string, direction: 'forward' | 'back') => {
     const task = tasks.find((t) => t.id === id);
     if (!task) return;
-    const idx = STATUS_ORDER.indexOf(task.status);
-    let nextIdx = direction === 'forward' ? idx + 1 : idx - 1;
-    nextIdx = Math.max(0, Math.min(nextIdx, STATUS_ORDER.length - 1));
-    const newStatus = STATUS_ORDER[nextIdx];
-    api.updateTask(id, { status: newStatus }).then(() => {
-      setTasks((prev) => prev.map((t) => (t.id === id ? { ...t, status: newStatus } : t)));
-    }).catch((e) => console.error('Failed to move task', e));
-  }, [tasks]);
-
-  const onDropTask = useCallback((id: string, status: Task['status']) => {
-    api.updateTask(id, { status }).then(() => {
-      setTasks((prev) => prev.map((t) => (t.id === id ? { ...t, status } : t)));
-    }).catch((e) => console.error('Failed to move task', e));
-  }, []);
+    const idx = columns.findIndex((c) => c.key === task.status);
+    const next = columns[direction === 'forward' ? idx + 1 : idx - 1];
+    if (idx < 0 || !next) return;
+    changeTask(task, { status: next.key });
+  }, [tasks, columns, changeTask]);
+
+  // Drop onto a column, optionally at an index among the column's other cards
+  const onDropTask = useCallback((id: string, status: Task['status'], index?: number) => {
+    const task = tasks.find((t) => t.id === id);
+    if (!task) return;
+    if (task.status !== status) {
+      changeTask(task, { status }, index);
+      return;
+    }
+    if (index === undefined) return;
+
+    // Reorder within the column: the column's full order is saved
+    const before = tasks.filter((t) => t.status === status).map((t) => t.id);
+    const ids = placeTask(tasks, id, index).filter((t) => t.status === status).map((t) => t.id);
+    if (before.join() === ids.join()) return;
+    reorderColumn(status, ids).then(() => {
+      recordChange({
+        label: `Moved "${task.title}"`,
+        undo: () => reorderColumn(status, before),
+        redo: () => reorderColumn(status, ids),
+      });
+    }, () => {});
+  }, [tasks, changeTask, reorderColumn, recordChange]);
 
+  // Deleted tasks go to the server's trash, so undo restores them from there
   const onDeleteTask = useCallback((id: string) => {
-    api.deleteTask(id).then(() => {
-      setTasks((prev) => prev.filter((t) => t.id !== id));
-    }).catch((e) => console.error('Failed to delete task', e));
-  }, []);
+    const task = tasks.find((t) => t.id === id);
+    if (!task) return;
+    trashTask(task).then((trashId) => {
+      if (!trashId) return;
+      recordChange({
+        label: `Deleted "${task.title}"`,
+        undo: () => restore(trashId, task.title, reloadBoard),
+        redo: async () => {
+          const current = tasksRef.current.find((t) => t.id === id);
+          if (!current) throw new Error('the task no longer exists');
+          trashId = await trashTask(current);
+        },
+      });
+    }, () => {});
+  }, [tasks, trashTask, restore, recordChange, reloadBoard]);
 
   const onSaveTask = useCallback((taskData: Partial<Task>, taskToEdit: Task | null) => {
     if (taskToEdit) {
-      api.updateTask(taskToEdit.id, {
+      changeTask(taskToEdit, {
         title: taskData.title,
         description: taskData.description,
         priority: taskData.priority,
         status: taskData.status,
-      }).then(() => {
-        setTasks((prev) => prev.map((t) => (t.id === taskToEdit.id ? { ...t, ...taskData } as Task : t)));
-      }).catch((e) => console.error('Failed to update task', e));
-    } else {
-      api.createTask({
-        title: taskData.title!,
+        dueAt: taskData.dueAt ?? null,
+        reminderAt: taskData.reminderAt ?? null,
+        labels: taskData.labels ?? [],
+        assignee: taskData.assignee ?? null,
+        customFields: taskData.customFields ?? {},
+        dependsOn: taskData.dependsOn ?? [],
+        recurrence: taskData.recurrence ?? null,
+      });
+      return;
+    }
+
+    // The id is picked here, so the card can show up before the server has answered
+    const task: Task = {
+      id: newId(),
+      title: taskData.title!,
+      description: taskData.description,
+      status: taskData.status || columns.find((c) => c.kind === 'open')?.key || columns[0]?.key || '',
+      priority: taskData.priority || 'Medium',
+      createdAt: Date.now(),
+      createdBy: 'user',
+      revision: 0,
+      dueAt: taskData.dueAt ?? null,
+      reminderAt: taskData.reminderAt ?? null,
+      checklist: taskData.checklist ?? [],
+      labels: taskData.labels ?? [],
+      assignee: taskData.assignee ?? null,
+      customFields: taskData.customFields ?? {},
+      dependsOn: taskData.dependsOn ?? [],
+      blockedBy: [],
+      recurrence: taskData.recurrence ?? null,
+    };
+    run({
+      label: `Couldn't create "${task.title}"`,
+      apply: () => setTasks((prev) => [...prev, task]),
+      send: () => api.createTask({
+        id: task.id,
+        title: task.title,
         description: taskData.description,
         priority: taskData.priority,
         status: taskData.status,
-      }).then((created) => {
-        setTasks((prev) => [created, ...prev]);
-      }).catch((e) => console.error('Failed to create task', e));
-    }
+        dueAt: taskData.dueAt,
+        reminderAt: taskData.reminderAt,
+        checklist: taskData.checklist?.map(({ text, assignee, done }) => ({ text, assignee, done })),
+        labels: taskData.labels,
+        assignee: taskData.assignee,
+        customFields: taskData.customFields,
+        dependsOn: taskData.dependsOn,
+        recurrence: taskData.recurrence,
+      }),
+      // Later edits may already be showing, so only take what the server decided
+      commit: (created) => {
+        revisionsRef.current.set(task.id, created.revision ?? 0);
+        setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, revision: created.revision, checklist: created.checklist } : t)));
+      },
+      rollback: () => setTasks((prev) => prev.filter((t) => t.id !== task.id)),
+    }).then(() => {
+      let trashId: string | null = null;
+      recordChange({
+        label: `Created "${task.title}"`,
+        undo: async () => {
+          const current = tasksRef.current.find((t) => t.id === task.id);
+          if (!current) throw new Error('the task no longer exists');
+          trashId = await trashTask(current);
+        },
+        redo: () => restore(trashId, task.title, reloadBoard),
+      });
+    }, () => {});
+  }, [columns, run, changeTask, trashTask, restore, recordChange, reloadBoard]);
+
+  // Bulk changes are worked out by the server, so the board updates once it has answered
+  const onBatch = useCallback((ids: string[], action: api.BatchAction) => {
+    mutate({
+      label: `Couldn't update ${ids.length} task${ids.length !== 1 ? 's' : ''}`,
+      send: () => api.batchTasks(ids, action),
+      commit: (saved) => {
+        rememberRevisions(saved);
+        setTasks(saved);
+      },
+      rollback: reloadBoard,
+    });
+  }, [mutate, rememberRevisions, reloadBoard]);
+
+  // Checklist edits are saved by the modal itself; just mirror them on the board
+  const onChecklistChange = useCallback((taskId: string, checklist: ChecklistItem[]) => {
+    setTasks((prev) => prev.map((t) => (t.id === taskId ? { ...t, checklist } : t)));
   }, []);
 
-  const handleAddNote = useCallback((content: string) => {
-    api.createNote(content).then((created) => {
-      setNotes((prev) => [created, ...prev]);
-    }).catch((e) => console.error('Failed to create note', e));
+  // --- Note mutations ---
+
+  const withAttachments = useCallback((noteId: string, update: (attachments: NoteAttachment[]) => NoteAttachment[]) => {
+    setNotes((prev) => prev.map((n) => (n.id === noteId ? { ...n, attachments: update(n.attachments) } : n)));
   }, []);
 
+  // Files are uploaded after the note itself; each shows up once it's stored
+  const handleAddNote = useCallback((content: string, files: File[], flags: api.NoteFlags) => {
+    const note: Note = {
+      id: newId(),
+      content,
+      createdAt: Date.now(),
+      seen: false,
+      status: 'open',
+      urgency: flags.urgency ?? 'normal',
+      pinned: flags.pinned ?? false,
+      replies: [],
+      attachments: [],
+    };
+    mutate({
+      label: "Couldn't add the note",
+      apply: () => setNotes((prev) => [note, ...prev]),
+      send: () => api.createNote(content, note.id, flags),
+      commit: (created) => setNotes((prev) => prev.map((n) => (n.id === note.id ? created : n))),
+      rollback: () => setNotes((prev) => prev.filter((n) => n.id !== note.id)),
+    });
+    for (const file of files) {
+      const attachmentId = newId();
+      mutate({
+        label: `Couldn't attach "${file.name}"`,
+        send: () => api.uploadNoteAttachment(note.id, file, attachmentId),
+        commit: (attachment) => withAttachments(note.id, (list) => (
+          list.some((a) => a.id === attachment.id) ? list : [...list, attachment]
+        )),
+      });
+    }
+  }, [mutate, withAttachments]);
+
+  const handleUpdateNote = useCallback((id: string, flags: api.NoteFlags) => {
+    const note = notes.find((n) => n.id === id);
+    if (!note) return;
+    const setFields = (next: Pick<Note, 'urgency' | 'pinned'>) =>
+      setNotes((prev) => prev.map((n) => (n.id === id ? { ...n, ...next } : n)));
+    mutate({
+      label: "Couldn't update the note",
+      apply: () => setFields({ urgency: flags.urgency ?? note.urgency, pinned: flags.pinned ?? note.pinned }),
+      send: () => api.updateNote(id, flags),
+      commit: (updated) => setNotes((prev) => prev.map((n) => (n.id === id ? updated : n))),
+      rollback: () => setFields({ urgency: note.urgency, pinned: note.pinned }),
+    });
+  }, [notes, mutate]);
+
+  const handleRemoveAttachment = useCallback((noteId: string, attachmentId: string) => {
+    const before = notes.find((n) => n.id === noteId)?.attachments;
+    const attachment = before?.find((a) => a.id === attachmentId);
+    if (!before || !attachment) return;
+    mutate({
+      label: `Couldn't remove "${attachment.name}"`,
+      apply: () => withAttachments(noteId, (list) => list.filter((a) => a.id !== attachmentId)),
+      send: () => api.deleteNoteAttachment(noteId, attachmentId),
+      rollback: () => withAttachments(noteId, () => before),
+    });
+  }, [notes, mutate, withAttachments]);
+
+  /** Move a note to the trash; resolves to its trash entry id (null if it was already gone) */
+  const trashNote = useCallback((note: Note) => {
+    const index = notes.findIndex((n) => n.id === note.id);
+    return run({
+      label: "Couldn't delete the note",
+      apply: () => setNotes((prev) => prev.filter((n) => n.id !== note.id)),
+      send: () => api.deleteNote(note.id).catch((e) => {
+        if (e instanceof api.ApiError && e.status === 404) return null;
+        throw e;
+      }),
+      rollback: () => setNotes((prev) => (
+        prev.some((n) => n.id === note.id) ? prev : [...prev.slice(0, index), note, ...prev.slice(index)]
+      )),
+    });
+  }, [notes, run]);
+
   const handleDeleteNote = useCallback((id: string) => {
-    api.deleteNote(id).then(() => {
-      setNotes((prev) => prev.filter((n) => n.id !== id));
-    }).catch((e) => console.error('Failed to delete note', e));
+    const note = notes.find((n) => n.id === id);
+    if (!note) return;
+    trashNote(note).then((trashId) => {
+      if (!trashId) return;
+      recordChange({
+        label: 'Deleted note',
+        undo: () => restore(trashId, 'the note', reloadNotes),
+        redo: async () => {
+          trashId = await trashNote(note);
+        },
+      });
+    }, () => {});
+  }, [notes, trashNote, restore, recordChange, reloadNotes]);
+
+  const handleReplyNote = useCallback((id: string, text: string) => {
+    const reply: NoteReply = { id: newId(), text, by: 'user', at: Date.now() };
+    const withReplies = (update: (replies: NoteReply[]) => NoteReply[]) =>
+      setNotes((prev) => prev.map((n) => (n.id === id ? { ...n, replies: update(n.replies) } : n)));
+    mutate({
+      label: "Couldn't send the reply",
+      apply: () => withReplies((replies) => [...replies, reply]),
+      send: () => api.replyToNote(id, text, reply.id),
+      commit: (updated) => setNotes((prev) => prev.map((n) => (n.id === id ? updated : n))),
+      rollback: () => withReplies((replies) => replies.filter((r) => r.id !== reply.id)),
+    });
+  }, [mutate]);
+
+  const handleSetNoteStatus = useCallback((id: string, status: NoteStatus) => {
+    const note = notes.find((n) => n.id === id);
+    if (!note) return;
+    const setStatus = (next: NoteStatus) =>
+      setNotes((prev) => prev.map((n) => (n.id === id ? { ...n, status: next } : n)));
+    mutate({
+      label: status === 'open' ? "Couldn't reopen the note" : "Couldn't resolve the note",
+      apply: () => setStatus(status),
+      send: () => api.setNoteStatus(id, status),
+      commit: (updated) => setNotes((prev) => prev.map((n) => (n.id === id ? updated : n))),
+      rollback: () => setStatus(note.status),
+    });
+  }, [notes, mutate]);
+
+  const openConverted = useCallback((note: Note) => {
+    const target = note.convertedTo;
+    if (!target?.id) return;
+    onNavigate?.(target.kind === 'doc' ? 'docs' : 'dashboard', { kind: target.kind, id: target.id });
+  }, [onNavigate]);
+
+  /**
+   * Turn a note into a task or document through the regular create routes. The new item points
+   * back to the note, and the note is marked converted with a link to it.
+   */
+  const handleConvertNote = useCallback((id: string, kind: 'task' | 'doc') => {
+    const note = notes.find((n) => n.id === id);
+    if (!note || note.status !== 'open') return;
+    const { title, body } = splitNote(note.content);
+    const setNote = (next: Note) => setNotes((prev) => prev.map((n) => (n.id === id ? next : n)));
+    const opened = (converted: Note) => {
+      setNote(converted);
+      onToast?.(`Created ${kind === 'task' ? 'task' : 'document'} "${title}"`, { label: 'Open', onClick: () => openConverted(converted) });
+    };
+
+    if (kind === 'doc') {
+      mutate({
+        label: "Couldn't turn the note into a document",
+        // The filename is only known once the server has created the document
+        apply: () => setNote({ ...note, status: 'converted', convertedTo: { kind: 'doc', id: '' } }),
+        send: async () => {
+          const doc = await api.createDocument({ title, content: `# ${title}\n\n${body ? `${body}\n` : ''}`, source_note: id });
+          return api.setNoteStatus(id, 'converted', { kind: 'doc', id: doc.filename });
+        },
+        commit: opened,
+        rollback: () => setNote(note),
+      });
+      return;
+    }
+
+    const task: Task = {
+      id: newId(),
+      title,
+      description: body || undefined,
+      status: columns.find((c) => c.kind === 'open')?.key || columns[0]?.key || '',
+      priority: 'Medium',
+      createdAt: Date.now(),
+      createdBy: 'user',
+      revision: 0,
+      checklist: [],
+      labels: [],
+      customFields: {},
+      dependsOn: [],
+      blockedBy: [],
+      sourceNote: id,
+    };
+    mutate({
+      label: "Couldn't turn the note into a task",
+      apply: () => {
+        setTasks((prev) => [...prev, task]);
+        setNote({ ...note, status: 'converted', convertedTo: { kind: 'task', id: task.id } });
+      },
+      send: async () => {
+        const created = await api.createTask({ id: task.id, title, description: task.description, sourceNote: id });
+        return { created, converted: await api.setNoteStatus(id, 'converted', { kind: 'task', id: created.id }) };
+      },
+      commit: ({ created, converted }) => {
+        revisionsRef.current.set(task.id, created.revision ?? 0);
+        setTasks((prev) => prev.map((t) => (t.id === task.id ? { ...t, revision: created.revision } : t)));
+        opened(converted);
+      },
+      // The task may exist by now even though the note couldn't be updated; the reload shows it
+      rollback: () => {
+        setNote(note);
+        reloadBoard();
+      },
+    });
+  }, [notes, columns, mutate, onToast, openConverted, reloadBoard]);
+
+  // --- Deliverables ---
+
+  const replaceDeliverable = useCallback((id: string, next: Deliverable) => {
+    setDeliverables((prev) => prev.map((d) => (d.id === id ? next : d)));
   }, []);
 
+  const handleSaveDeliverable = useCallback((input: api.DeliverableInput, existing: Deliverable | null) => {
+    if (!existing) {
+      const id = newId();
+      mutate({
+        label: `Couldn't create "${input.name}"`,
+        send: () => api.createDeliverable({ ...input, id }),
+        commit: (created) => setDeliverables((prev) => [...prev, mapDeliverable(created)]),
+      });
+      return;
+    }
+    mutate({
+      label: `Couldn't save "${input.name}"`,
+      send: () => api.updateDeliverable(existing.id, input),
+      commit: (updated) => replaceDeliverable(existing.id, mapDeliverable(updated)),
+    });
+  }, [mutate, replaceDeliverable]);
+
+  const handleToggleDeliverable = useCallback((id: string, enabled: boolean) => {
+    const deliverable = deliverables.find((d) => d.id === id);
+    if (!deliverable) return;
+    mutate({
+      label: `Couldn't ${enabled ? 'enable' : 'pause'} "${deliverable.title}"`,
+      // The next run time comes back from the server when enabling
+      apply: () => replaceDeliverable(id, { ...deliverable, enabled, nextRun: enabled ? deliverable.nextRun : null }),
+      send: () => api.updateDeliverable(id, { enabled }),
+      commit: (updated) => replaceDeliverable(id, mapDeliverable(updated)),
+      rollback: () => replaceDeliverable(id, deliverable),
+    });
+  }, [deliverables, mutate, replaceDeliverable]);
+
+  const handleRunDeliverable = useCallback((id: string) => {
+    const deliverable = deliverables.find((d) => d.id === id);
+    if (!deliverable) return;
+    mutate({
+      label: `Couldn't run "${deliverable.title}"`,
+      send: () => api.runDeliverable(id),
+      commit: (updated) => {
+        replaceDeliverable(id, mapDeliverable(updated));
+        onToast?.(`Ran "${deliverable.title}"`);
+      },
+    });
+  }, [deliverables, mutate, replaceDeliverable, onToast]);
+
+  const handleDeleteDeliverable = useCallback((id: string) => {
+    const index = deliverables.findIndex((d) => d.id === id);
+    if (index === -1) return;
+    const deliverable = deliverables[index];
+    mutate({
+      label: `Couldn't delete "${deliverable.title}"`,
+      apply: () => setDeliverables((prev) => prev.filter((d) => d.id !== id)),
+      send: () => api.deleteDeliverable(id),
+      rollback: () => setDeliverables((prev) => {
+        const next = [...prev];
+        next.splice(Math.min(index, next.length), 0, deliverable);
+        return next;
+      }),
+    });
+  }, [deliverables, mutate]);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full text-textMuted">
@@ -132,10 +769,16 @@ export const DashboardTab: React.FC = () => {
       <div className="flex-1 min-h-[50%]">
         <KanbanBoard
           tasks={tasks}
+          columns={columns}
+          onColumnsChange={reloadBoard}
           onMoveTask={onMoveTask}
           onDropTask={onDropTask}
           onDeleteTask={onDeleteTask}
           onSaveTask={onSaveTask}
+          onChecklistChange={onChecklistChange}
+          onBatch={onBatch}
+          navTarget={navTarget}
+          onNavigationHandled={onNavigationHandled}
         />
       </div>
 
@@ -143,12 +786,29 @@ export const DashboardTab: React.FC = () => {
       <div className="h-[40%] flex gap-6 min-h-[300px]">
         {/* Left: Deliverables */}
         <div className="w-1/3 bg-[#13171e] border border-border rounded-lg p-4 shadow-sm">
-          <ScheduledDeliverables items={deliverables} />
+          <ScheduledDeliverables
+            items={deliverables}
+            onSave={handleSaveDeliverable}
+            onToggle={handleToggleDeliverable}
+            onRun={handleRunDeliverable}
+            onDelete={handleDeleteDeliverable}
+          />
         </div>
 
         {/* Right: Notes */}
         <div className="w-2/3 bg-[#13171e] border border-border rounded-lg p-4 shadow-sm">
-          <NotesSection notes={notes} onAdd={handleAddNote} onDelete={handleDeleteNote} />
+          <NotesSection
+            notes={notes}
+            onAdd={handleAddNote}
+            onUpdate={handleUpdateNote}
+            onDelete={handleDeleteNote}
+            onRemoveAttachment={handleRemoveAttachment}
+            onReply={handleReplyNote}
+            onSetStatus={handleSetNoteStatus}
+            onConvert={handleConvertNote}
+            onOpenConverted={openConverted}
+            highlightId={highlightNoteId}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import { Deliverable } from '../types';
+import * as api from '../lib/api';
+
+interface DeliverableModalProps {
+  deliverable: Deliverable | null; // null = new deliverable
+  onClose: () => void;
+  onSave: (input: api.DeliverableInput, existing: Deliverable | null) => void;
+}
+
+const PRESETS: { label: string; cron: string }[] = [
+  { label: 'Daily 9:00', cron: '0 9 * * *' },
+  { label: 'Weekdays 9:00', cron: '0 9 * * 1-5' },
+  { label: 'Mondays 9:00', cron: '0 9 * * 1' },
+  { label: 'Monthly (1st)', cron: '0 9 1 * *' },
+];
+
+function formatRun(ms: number): string {
+  return new Date(ms).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+const inputClass = 'w-full bg-background border border-border rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors';
+
+export const DeliverableModal: React.FC<DeliverableModalProps> = ({ deliverable, onClose, onSave }) => {
+  const [name, setName] = useState(deliverable?.title ?? '');
+  const [emoji, setEmoji] = useState(deliverable?.icon ?? '📁');
+  const [description, setDescription] = useState(deliverable?.description ?? '');
+  const [type, setType] = useState(deliverable ? deliverable.tag.toLowerCase() : 'folder');
+  const [cron, setCron] = useState(deliverable?.cron || PRESETS[0].cron);
+  const [enabled, setEnabled] = useState(deliverable?.enabled ?? true);
+  const [upcoming, setUpcoming] = useState<number[]>([]);
+  const [cronError, setCronError] = useState<string | null>(null);
+
+  // Validate and preview the schedule on the server (same parser that works out next_run)
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api.previewCron(cron)
+        .then((next) => {
+          if (cancelled) return;
+          setUpcoming(next);
+          setCronError(next.length === 0 ? 'This schedule never runs' : null);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          setUpcoming([]);
+          setCronError(err.message);
+        });
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [cron]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || cronError) return;
+    onSave({
+      name: name.trim(),
+      emoji: emoji.trim() || '📁',
+      description: description.trim(),
+      type: type.trim() || 'folder',
+      cron_expression: cron.trim(),
+      enabled,
+    }, deliverable);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-surface border border-border rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up">
+        <div className="px-6 py-4 flex justify-between items-center border-b border-border bg-[#1c2128] shrink-0">
+          <h3 className="text-lg font-semibold text-white">
+            {deliverable ? 'Edit Deliverable' : 'New Deliverable'}
+          </h3>
+          <button onClick={onClose} className="text-textMuted hover:text-white transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"></line><line x1="6" y1="6" x2="18" y2="18"></line></svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5 overflow-y-auto custom-scrollbar">
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Name</label>
+            <div className="flex gap-2">
+              <input
+                value={emoji}
+                onChange={(e) => setEmoji(e.target.value)}
+                className={`${inputClass} w-14 text-center text-lg`}
+                maxLength={4}
+                title="Emoji"
+              />
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Daily AI Pulse"
+                className={inputClass}
+                autoFocus
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What the agent produces each time"
+              className={`${inputClass} h-20 resize-none leading-relaxed`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Tag</label>
+            <input value={type} onChange={(e) => setType(e.target.value)} placeholder="folder" className={inputClass} />
+          </div>
+
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Schedule</label>
+            <div className="flex flex-wrap gap-1.5 mb-2">
+              {PRESETS.map((p) => (
+                <button
+                  key={p.cron}
+                  type="button"
+                  onClick={() => setCron(p.cron)}
+                  className={`px-2 py-1 rounded-full text-[11px] border transition-colors ${
+                    cron.trim() === p.cron ? 'bg-primary/20 border-primary/50 text-white' : 'border-border text-textMuted hover:text-white'
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+              placeholder="minute hour day month weekday, e.g. 0 8 * * *"
+              spellCheck={false}
+              className={`w-full bg-background border rounded-md px-3 py-2 text-sm font-mono text-white focus:outline-none focus:ring-1 transition-colors ${
+                cronError ? 'border-red-500/60 focus:border-red-500 focus:ring-red-500' : 'border-border focus:border-primary focus:ring-primary'
+              }`}
+            />
+            {cronError ? (
+              <p className="mt-1.5 text-[11px] text-red-400">{cronError}</p>
+            ) : upcoming.length > 0 && (
+              <p className="mt-1.5 text-[11px] text-textMuted">
+                Next runs: {upcoming.map(formatRun).join(' · ')}
+              </p>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-textMain cursor-pointer">
+            <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+            Enabled
+          </label>
+
+          <div className="flex justify-end pt-2 gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-md text-sm font-medium text-textMuted hover:bg-[#21262d] hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!name.trim() || !!cronError}
+              className="px-6 py-2 rounded-md text-sm font-medium bg-primary hover:bg-primaryHover text-white transition-colors shadow-lg shadow-purple-900/20 disabled:opacity-40"
+            >
+              {deliverable ? 'Save Changes' : 'Add Deliverable'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState, useMemo } from 'react';
+import { diffLines, toSideBySide, withConflictMarkers, hasConflictMarkers, DiffOp } from '../lib/lineDiff';
+
+interface DocConflictDialogProps {
+  title: string;
+  localMarkdown: string;
+  serverMarkdown: string;
+  onKeepMine: () => void;
+  onTakeTheirs: () => void;
+  onMerge: (merged: string) => void;
+  onClose: () => void;
+}
+
+const CELL_STYLES: Record<DiffOp, string> = {
+  equal: 'text-textMuted',
+  removed: 'bg-red-500/10 text-red-300',
+  added: 'bg-green-500/10 text-green-300',
+};
+
+export const DocConflictDialog: React.FC<DocConflictDialogProps> = ({
+  title,
+  localMarkdown,
+  serverMarkdown,
+  onKeepMine,
+  onTakeTheirs,
+  onMerge,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<'compare' | 'merge'>('compare');
+  const diff = useMemo(() => diffLines(localMarkdown, serverMarkdown), [localMarkdown, serverMarkdown]);
+  const rows = useMemo(() => toSideBySide(diff), [diff]);
+  const changedCount = useMemo(() => rows.filter((r) => r.left?.op !== 'equal' || r.right?.op !== 'equal').length, [rows]);
+  const [merged, setMerged] = useState(() => withConflictMarkers(diff, 'mine', 'on disk'));
+  const unresolved = hasConflictMarkers(merged);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
+      <div className="bg-surface border border-border rounded-xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden animate-fade-in-up">
+        {/* Header */}
+        <div className="px-6 py-4 flex justify-between items-center border-b border-border bg-[#1c2128] shrink-0">
+          <div>
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+              <span>⚠️</span> Conflicting changes
+            </h3>
+            <p className="text-xs text-textMuted mt-0.5">
+              "{title}" was changed on disk while you were editing. {changedCount} {changedCount === 1 ? 'line differs' : 'lines differ'}.
+            </p>
+          </div>
+          <div className="flex items-center gap-1 bg-background border border-border rounded-md p-0.5">
+            {(['compare', 'merge'] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1 rounded text-xs font-medium transition-colors capitalize ${
+                  mode === m ? 'bg-primary/20 text-primary' : 'text-textMuted hover:text-textMain'
+                }`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Body */}
+        {mode === 'compare' ? (
+          <div className="flex-1 overflow-auto custom-scrollbar font-mono text-xs">
+            <div className="grid grid-cols-2 sticky top-0 bg-[#161b22] border-b border-border text-[10px] uppercase tracking-wider font-bold text-textMuted z-10">
+              <div className="px-4 py-2 border-r border-border">Your edits</div>
+              <div className="px-4 py-2">On disk</div>
+            </div>
+            {rows.map((row, i) => (
+              <div key={i} className="grid grid-cols-2">
+                <div className={`px-4 py-0.5 whitespace-pre-wrap break-words border-r border-border/50 min-h-[1.5em] ${row.left ? CELL_STYLES[row.left.op] : 'bg-[#0d1117]'}`}>
+                  {row.left?.text}
+                </div>
+                <div className={`px-4 py-0.5 whitespace-pre-wrap break-words min-h-[1.5em] ${row.right ? CELL_STYLES[row.right.op] : 'bg-[#0d1117]'}`}>
+                  {row.right?.text}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col p-4 gap-2 min-h-0">
+            <p className="text-xs text-textMuted">
+              Edit the merged result. Each differing section is wrapped in <code className="text-primary">{'<<<<<<<'}</code> / <code className="text-primary">=======</code> / <code className="text-primary">{'>>>>>>>'}</code> markers — keep what you want and delete the markers.
+            </p>
+            <textarea
+              value={merged}
+              onChange={(e) => setMerged(e.target.value)}
+              spellCheck={false}
+              className="flex-1 w-full bg-background border border-border rounded-md p-3 font-mono text-xs text-textMain focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary resize-none custom-scrollbar"
+            />
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="px-6 py-3 border-t border-border bg-[#1c2128] flex items-center justify-between shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-md text-sm font-medium text-textMuted hover:text-white hover:bg-[#30363d] transition-colors"
+          >
+            Decide later
+          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onTakeTheirs}
+              className="px-4 py-2 rounded-md text-sm font-medium border border-border text-textMain hover:bg-[#30363d] transition-colors"
+              title="Discard your edits and load the version on disk"
+            >
+              Take theirs
+            </button>
+            <button
+              onClick={onKeepMine}
+              className="px-4 py-2 rounded-md text-sm font-medium border border-border text-textMain hover:bg-[#30363d] transition-colors"
+              title="Overwrite the version on disk with your edits"
+            >
+              Keep mine
+            </button>
+            {mode === 'merge' ? (
+              <button
+                onClick={() => onMerge(merged)}
+                disabled={unresolved}
+                className="px-4 py-2 rounded-md text-sm font-medium bg-primary hover:bg-primaryHover text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title={unresolved ? 'Resolve all conflict markers first' : 'Save the merged result'}
+              >
+                Save merge
+              </button>
+            ) : (
+              <button
+                onClick={() => setMode('merge')}
+                className="px-4 py-2 rounded-md text-sm font-medium bg-primary hover:bg-primaryHover text-white transition-colors"
+              >
+                Merge…
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
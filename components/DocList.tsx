@@ -1,6 +1,7 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { Doc, DocCategory } from '../types';
 import { getCategoryColor, getDocIcon } from '../lib/docUtils';
+import type { DocumentSearchHit } from '../lib/api';
 
 type SortKey = 'updated' | 'title' | 'category';
 
@@ -10,6 +11,7 @@ interface DocListProps {
   onSelect: (id: string) => void;
   searchQuery: string;
   onSearchChange: (q: string) => void;
+  searchHits: DocumentSearchHit[] | null; // full-text results, null when not searching
   onCreateDocument: () => void;
   onDeleteDocument: (id: string) => void;
   onDuplicateDocument: (id: string) => void;
@@ -21,6 +23,7 @@ export const DocList: React.FC<DocListProps> = ({
   onSelect,
   searchQuery,
   onSearchChange,
+  searchHits,
   onCreateDocument,
   onDeleteDocument,
   onDuplicateDocument,
@@ -46,14 +49,27 @@ export const DocList: React.FC<DocListProps> = ({
     });
   }, []);
 
+  const hitsById = useMemo(
+    () => new Map((searchHits || []).map((hit) => [hit.filename, hit])),
+    [searchHits]
+  );
+
   const filteredAndSorted = useMemo(() => {
-    let docs = documents.filter(doc =>
-      doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      doc.category.toLowerCase().includes(searchQuery.toLowerCase())
+    const q = searchQuery.toLowerCase();
+    const docs = documents.filter(doc =>
+      hitsById.has(doc.id) ||
+      doc.title.toLowerCase().includes(q) ||
+      doc.category.toLowerCase().includes(q)
     );
 
-    // Sort favorites first, then by chosen key
+    // While searching, rank by relevance (title/category-only matches last);
+    // otherwise favorites first, then by chosen key
     docs.sort((a, b) => {
+      if (q && searchHits) {
+        const diff = (hitsById.get(b.id)?.score ?? 0) - (hitsById.get(a.id)?.score ?? 0);
+        if (diff !== 0) return diff;
+      }
+
       const aFav = favorites.has(a.id) ? 0 : 1;
       const bFav = favorites.has(b.id) ? 0 : 1;
       if (aFav !== bFav) return aFav - bFav;
@@ -70,7 +86,7 @@ export const DocList: React.FC<DocListProps> = ({
     });
 
     return docs;
-  }, [documents, searchQuery, sortBy, favorites]);
+  }, [documents, searchQuery, searchHits, hitsById, sortBy, favorites]);
 
   const handleContextMenu = (e: React.MouseEvent, docId: string) => {
     e.preventDefault();
@@ -144,6 +160,7 @@ export const DocList: React.FC<DocListProps> = ({
         {filteredAndSorted.map(doc => {
           const isSelected = doc.id === selectedId;
           const isFav = favorites.has(doc.id);
+          const hit = searchQuery ? hitsById.get(doc.id) : undefined;
           return (
             <div
               key={doc.id}
@@ -188,7 +205,24 @@ export const DocList: React.FC<DocListProps> = ({
                     <span className={`text-[10px] px-1.5 py-0.5 rounded border ${getCategoryColor(doc.category)}`}>
                       {doc.category}
                     </span>
+                    {hit && hit.matches > 0 && (
+                      <span className="text-[10px] text-textMuted ml-auto">
+                        {hit.matches} {hit.matches === 1 ? 'match' : 'matches'}
+                      </span>
+                    )}
                   </div>
+                  {/* Search excerpt with highlighted matches */}
+                  {hit && hit.snippet.length > 0 && (
+                    <p className="text-[11px] text-textMuted leading-relaxed mt-1.5 line-clamp-3 break-words">
+                      {hit.snippet.map((part, i) =>
+                        part.match ? (
+                          <mark key={i} className="bg-yellow-400/20 text-yellow-200 rounded-sm px-0.5">{part.text}</mark>
+                        ) : (
+                          <span key={i}>{part.text}</span>
+                        )
+                      )}
+                    </p>
+                  )}
                 </div>
               </div>
             </div>
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Doc, DocCategory } from '../types';
+import { Doc, DocCategory, DocConflict, ConflictResolution } from '../types';
 import type { PartialBlock } from '@blocknote/core';
 import { BlockNoteEditor } from './BlockNoteEditor';
+import { DocConflictDialog } from './DocConflictDialog';
+import { VersionDiffDialog } from './VersionDiffDialog';
 import { getCategoryColor, getDocIcon, DOC_CATEGORIES, relativeTime, countWords, EMOJI_PALETTE } from '../lib/docUtils';
 import { blockNoteToMarkdown } from '../lib/markdownConverter';
 import type { SaveStatus } from '../lib/useDebouncedSave';
@@ -18,6 +20,9 @@ interface DocViewerProps {
   onCreateDocument: () => void;
   saveStatus: SaveStatus;
   saveError: string | null;
+  conflict?: DocConflict | null;
+  onResolveConflict?: (resolution: ConflictResolution, merged?: string) => void;
+  onEditingChange?: (editing: boolean) => void;
 }
 
 export const DocViewer: React.FC<DocViewerProps> = ({
@@ -28,6 +33,9 @@ export const DocViewer: React.FC<DocViewerProps> = ({
   onCreateDocument,
   saveStatus,
   saveError,
+  conflict,
+  onResolveConflict,
+  onEditingChange,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
   const [blocks, setBlocks] = useState<PartialBlock[]>(() => doc?.blocks ?? []);
@@ -40,18 +48,35 @@ export const DocViewer: React.FC<DocViewerProps> = ({
   const [selectedVersion, setSelectedVersion] = useState<string | null>(null);
   const [versionPreview, setVersionPreview] = useState('');
   const [versionsLoading, setVersionsLoading] = useState(false);
+  const [diffFrom, setDiffFrom] = useState<string | null>(null);
+  const [pinDraft, setPinDraft] = useState<{ target: string; label: string; note: string } | null>(null);
   const [tocHovered, setTocHovered] = useState(false);
   const titleInputRef = useRef<HTMLInputElement>(null);
   const blocksRef = useRef(blocks);
   blocksRef.current = blocks;
   const prevDocIdRef = useRef<string | null>(null);
   const prevBlocksLenRef = useRef<number>(0);
+  const prevDocBlocksRef = useRef<PartialBlock[] | undefined>(undefined);
+  const isEditingRef = useRef(isEditing);
+  isEditingRef.current = isEditing;
+  const [conflictHidden, setConflictHidden] = useState(false);
+
+  useEffect(() => {
+    onEditingChange?.(isEditing);
+  }, [isEditing, onEditingChange]);
+
+  // Show the conflict dialog again whenever a new conflict comes in
+  useEffect(() => {
+    setConflictHidden(false);
+  }, [conflict]);
 
   // Sync state when doc changes
   useEffect(() => {
     if (!doc) return;
 
     const docChanged = doc.id !== prevDocIdRef.current;
+    const blocksChanged = doc.blocks !== prevDocBlocksRef.current;
+    prevDocBlocksRef.current = doc.blocks;
 
     if (docChanged) {
       // New document selected — full reset
@@ -70,6 +95,13 @@ export const DocViewer: React.FC<DocViewerProps> = ({
     if (hadNoBlocks && nowHasBlocks) {
       prevBlocksLenRef.current = doc.blocks!.length;
       setBlocks(doc.blocks!);
+      return;
+    }
+
+    // Content reloaded after an external edit — show it, unless the user is mid-edit
+    if (blocksChanged && nowHasBlocks && !isEditingRef.current) {
+      prevBlocksLenRef.current = doc.blocks!.length;
+      setBlocks(doc.blocks!);
     }
   }, [doc]);
 
@@ -232,8 +264,87 @@ export const DocViewer: React.FC<DocViewerProps> = ({
     setShowCategoryDropdown(false);
   };
 
+  const handleResolve = (resolution: ConflictResolution, merged?: string) => {
+    // Taking the disk version or a merge replaces the editor content, so leave edit mode to show it
+    if (resolution !== 'mine') setIsEditing(false);
+    onResolveConflict?.(resolution, merged);
+  };
+
+  // ── Version history ──
+  const loadVersions = async () => {
+    setVersionsLoading(true);
+    try {
+      setVersions(await api.fetchVersions(doc.id));
+    } catch { setVersions([]); }
+    setVersionsLoading(false);
+  };
+
+  const selectVersion = async (file: string) => {
+    setSelectedVersion(file);
+    setPinDraft(null);
+    try {
+      setVersionPreview(await api.fetchVersionContent(doc.id, file));
+    } catch { setVersionPreview('Failed to load version.'); }
+  };
+
+  const handleSavePin = async () => {
+    if (!pinDraft || !pinDraft.label.trim()) return;
+    const pin = { label: pinDraft.label.trim(), note: pinDraft.note.trim() };
+    try {
+      const entry = pinDraft.target === 'current'
+        ? await api.createCheckpoint(doc.id, pin)
+        : await api.pinVersion(doc.id, pinDraft.target, pin);
+      setPinDraft(null);
+      await loadVersions();
+      if (pinDraft.target === 'current') await selectVersion(entry.file);
+    } catch (err) { console.error('Pin failed', err); }
+  };
+
+  const handleUnpin = async () => {
+    if (!selectedVersion) return;
+    try {
+      await api.unpinVersion(doc.id, selectedVersion);
+      await loadVersions();
+    } catch (err) { console.error('Unpin failed', err); }
+  };
+
+  const pinnedVersions = versions.filter((v) => v.pinned);
+  const selectedEntry = versions.find((v) => v.file === selectedVersion);
+
+  const renderVersionItem = (v: VersionEntry) => (
+    <button
+      key={v.file}
+      onClick={() => selectVersion(v.file)}
+      className={`w-full text-left p-2.5 rounded-lg text-xs transition-colors ${
+        selectedVersion === v.file ? 'bg-primary/15 border border-primary/30' : 'hover:bg-[#161b22] border border-transparent'
+      }`}
+    >
+      {v.pinned && (
+        <div className="font-semibold text-amber-300 mb-1 truncate" title={v.note || v.label}>📌 {v.label}</div>
+      )}
+      <div className="flex justify-between items-center mb-1">
+        <span className={v.pinned ? 'text-textMuted' : 'font-semibold text-textMain'}>{v.author === 'User' ? 'You' : (v.author || 'OpenClaw')}</span>
+        <span className="text-textMuted text-[10px]">{relativeTime(v.timestamp)}</span>
+      </div>
+      {v.pinned && v.note ? (
+        <div className="text-textMuted text-[10px] mb-1 line-clamp-2 leading-relaxed">{v.note}</div>
+      ) : v.preview && (
+        <div className="text-textMuted text-[10px] mb-1 line-clamp-2 leading-relaxed opacity-80">
+          {v.preview}
+        </div>
+      )}
+      <div className="text-[10px] text-textMuted">{(v.size / 1024).toFixed(1)} KB</div>
+    </button>
+  );
+
   // Save status display
   const saveStatusEl = (() => {
+    if (conflict) {
+      return <span className="text-[10px] text-orange-400 flex items-center gap-1">
+        <span className="w-1.5 h-1.5 rounded-full bg-orange-500" /> Conflict
+        <button onClick={() => setConflictHidden(false)} className="underline ml-1">Resolve</button>
+      </span>;
+    }
     switch (saveStatus) {
       case 'saving':
         return <span className="text-[10px] text-textMuted flex items-center gap-1 animate-pulse">
@@ -278,16 +389,12 @@ export const DocViewer: React.FC<DocViewerProps> = ({
             onClick={async () => {
               const next = !showVersionHistory;
               setShowVersionHistory(next);
-              if (next && doc) {
-                setVersionsLoading(true);
-                try {
-                  const v = await api.fetchVersions(doc.id);
-                  setVersions(v);
-                } catch { setVersions([]); }
-                setVersionsLoading(false);
+              if (next) {
+                await loadVersions();
               } else {
                 setSelectedVersion(null);
                 setVersionPreview('');
+                setPinDraft(null);
               }
             }}
             className={`p-1.5 rounded-md text-xs transition-colors ${showVersionHistory ? 'text-primary bg-primary/10' : 'text-textMuted hover:text-textMain hover:bg-[#30363d]'}`}
@@ -497,7 +604,16 @@ export const DocViewer: React.FC<DocViewerProps> = ({
           <div className="w-72 border-l border-border bg-[#0d1117] flex flex-col shrink-0 overflow-hidden">
             <div className="p-4 border-b border-border flex items-center justify-between">
               <h4 className="text-xs font-bold text-textMuted uppercase tracking-wider">Version History</h4>
-              <button onClick={() => { setShowVersionHistory(false); setSelectedVersion(null); setVersionPreview(''); }} className="text-textMuted hover:text-white text-xs">✕</button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setPinDraft({ target: 'current', label: '', note: '' })}
+                  className="text-[10px] px-2 py-0.5 rounded border border-border text-textMuted hover:text-textMain hover:bg-[#30363d] transition-colors"
+                  title="Save the document as last saved as a named, pinned checkpoint"
+                >
+                  + Checkpoint
+                </button>
+                <button onClick={() => { setShowVersionHistory(false); setSelectedVersion(null); setVersionPreview(''); setPinDraft(null); }} className="text-textMuted hover:text-white text-xs">✕</button>
+              </div>
             </div>
             <div className="flex-1 overflow-y-auto custom-scrollbar">
               {versionsLoading ? (
@@ -505,47 +621,99 @@ export const DocViewer: React.FC<DocViewerProps> = ({
               ) : versions.length === 0 ? (
                 <div className="p-4 text-xs text-textMuted italic">No previous versions yet. Versions are created each time you save.</div>
               ) : (
-                <div className="p-2 space-y-1">
-                  {versions.map((v) => (
-                    <button
-                      key={v.file}
-                      onClick={async () => {
-                        setSelectedVersion(v.file);
-                        if (doc) {
-                          try {
-                            const content = await api.fetchVersionContent(doc.id, v.file);
-                            setVersionPreview(content);
-                          } catch { setVersionPreview('Failed to load version.'); }
-                        }
-                      }}
-                      className={`w-full text-left p-2.5 rounded-lg text-xs transition-colors ${
-                        selectedVersion === v.file ? 'bg-primary/15 border border-primary/30' : 'hover:bg-[#161b22] border border-transparent'
-                      }`}
-                    >
-                      <div className="flex justify-between items-center mb-1">
-                        <span className="font-semibold text-textMain">{v.author === 'User' ? 'You' : (v.author || 'OpenClaw')}</span>
-                        <span className="text-textMuted text-[10px]">{relativeTime(v.timestamp)}</span>
-                      </div>
-                      {v.preview && (
-                        <div className="text-textMuted text-[10px] mb-1 line-clamp-2 leading-relaxed opacity-80">
-                          {v.preview}
-                        </div>
-                      )}
-                      <div className="text-[10px] text-textMuted">{(v.size / 1024).toFixed(1)} KB</div>
-                    </button>
-                  ))}
-                </div>
+                <>
+                  {pinnedVersions.length > 0 && (
+                    <div className="p-2 space-y-1 border-b border-border">
+                      <div className="px-1 pb-1 text-[10px] font-bold uppercase tracking-wider text-amber-400/80">📌 Checkpoints</div>
+                      {pinnedVersions.map(renderVersionItem)}
+                    </div>
+                  )}
+                  <div className="p-2 space-y-1">
+                    {pinnedVersions.length > 0 && (
+                      <div className="px-1 pb-1 text-[10px] font-bold uppercase tracking-wider text-textMuted">All versions</div>
+                    )}
+                    {versions.filter((v) => !v.pinned).map(renderVersionItem)}
+                  </div>
+                </>
               )}
             </div>
+            {/* Pin / checkpoint form */}
+            {pinDraft && (
+              <div className="border-t border-border p-3 space-y-2">
+                <div className="text-[10px] font-bold uppercase tracking-wider text-textMuted">
+                  {pinDraft.target === 'current' ? 'New checkpoint' : versions.find((v) => v.file === pinDraft.target)?.pinned ? 'Edit label' : 'Pin version'}
+                </div>
+                <input
+                  type="text"
+                  value={pinDraft.label}
+                  onChange={(e) => setPinDraft({ ...pinDraft, label: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSavePin()}
+                  placeholder="Label, e.g. sent to client"
+                  autoFocus
+                  className="w-full bg-background border border-border rounded-md px-2 py-1.5 text-xs text-white focus:outline-none focus:border-primary"
+                />
+                <textarea
+                  value={pinDraft.note}
+                  onChange={(e) => setPinDraft({ ...pinDraft, note: e.target.value })}
+                  placeholder="Note (optional)"
+                  rows={2}
+                  className="w-full bg-background border border-border rounded-md px-2 py-1.5 text-xs text-white focus:outline-none focus:border-primary resize-none"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setPinDraft(null)}
+                    className="flex-1 px-3 py-1.5 rounded-lg text-xs font-medium text-textMuted hover:text-white hover:bg-[#30363d] transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSavePin}
+                    disabled={!pinDraft.label.trim()}
+                    className="flex-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-primary hover:bg-primaryHover text-white transition-colors disabled:opacity-50"
+                  >
+                    {pinDraft.target === 'current' ? 'Create' : 'Save'}
+                  </button>
+                </div>
+              </div>
+            )}
             {/* Version preview + restore */}
-            {selectedVersion && versionPreview && (
+            {selectedVersion && versionPreview && !pinDraft && (
               <div className="border-t border-border">
                 <div className="max-h-48 overflow-y-auto p-3 custom-scrollbar">
+                  {selectedEntry?.pinned && (
+                    <div className="mb-2 flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-xs font-semibold text-amber-300">📌 {selectedEntry.label}</div>
+                        {selectedEntry.note && <div className="text-[10px] text-textMuted mt-0.5 whitespace-pre-wrap">{selectedEntry.note}</div>}
+                      </div>
+                      <button
+                        onClick={handleUnpin}
+                        className="text-[10px] text-textMuted hover:text-red-400 shrink-0"
+                        title="Unpin — the version may then be pruned"
+                      >
+                        Unpin
+                      </button>
+                    </div>
+                  )}
                   <div className="prose prose-invert prose-xs max-w-none text-[10px] text-textMuted leading-relaxed">
                     <ReactMarkdown remarkPlugins={[remarkGfm]}>{versionPreview}</ReactMarkdown>
                   </div>
                 </div>
-                <div className="p-3 border-t border-border">
+                <div className="p-3 border-t border-border space-y-2">
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setDiffFrom(selectedVersion)}
+                      className="flex-1 px-3 py-2 rounded-lg text-xs font-medium border border-border text-textMain hover:bg-[#30363d] transition-colors"
+                    >
+                      Compare
+                    </button>
+                    <button
+                      onClick={() => setPinDraft({ target: selectedVersion, label: selectedEntry?.label ?? '', note: selectedEntry?.note ?? '' })}
+                      className="flex-1 px-3 py-2 rounded-lg text-xs font-medium border border-border text-textMain hover:bg-[#30363d] transition-colors"
+                    >
+                      {selectedEntry?.pinned ? 'Edit label' : 'Pin…'}
+                    </button>
+                  </div>
                   <button
                     onClick={async () => {
                       if (!doc || !selectedVersion) return;
@@ -568,6 +736,16 @@ export const DocViewer: React.FC<DocViewerProps> = ({
         )}
       </div>
 
+      {diffFrom && (
+        <VersionDiffDialog
+          docId={doc.id}
+          title={title || 'Untitled'}
+          versions={versions}
+          initialFrom={diffFrom}
+          onClose={() => setDiffFrom(null)}
+        />
+      )}
+
       {/* Floating TOC (Notion-style) — indicator strip + hover popup */}
       {headings.length > 0 && !showVersionHistory && (
         <div
@@ -632,6 +810,19 @@ export const DocViewer: React.FC<DocViewerProps> = ({
         </div>
       )}
 
+      {/* Save conflict: document changed on disk while editing */}
+      {conflict && !conflictHidden && (
+        <DocConflictDialog
+          title={title || doc.title}
+          localMarkdown={conflict.localMarkdown}
+          serverMarkdown={conflict.serverMarkdown}
+          onKeepMine={() => handleResolve('mine')}
+          onTakeTheirs={() => handleResolve('theirs')}
+          onMerge={(merged) => handleResolve('merge', merged)}
+          onClose={() => setConflictHidden(true)}
+        />
+      )}
+
       {/* Bottom status bar - word count */}
       <div className="h-8 px-4 flex items-center justify-between border-t border-border/50 bg-[#0d1117] text-[10px] text-textMuted shrink-0">
         <div className="flex items-center gap-3">
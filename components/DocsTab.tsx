@@ -1,13 +1,16 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { DocList } from './DocList';
 import { DocViewer } from './DocViewer';
-import { Doc, DocCategory } from '../types';
+import { Doc, DocCategory, NavigationTarget, DocConflict, ConflictResolution } from '../types';
 import * as api from '../lib/api';
 import { markdownToBlockNote, blockNoteToMarkdown } from '../lib/markdownConverter';
 import { formatDocDate } from '../lib/docUtils';
 import { useDebouncedSave, SaveStatus } from '../lib/useDebouncedSave';
+import { useServerEvents } from '../lib/useServerEvents';
 import type { PartialBlock } from '@blocknote/core';
 
+const SEARCH_DEBOUNCE_MS = 200;
+
 function indexItemToDoc(item: api.DocumentIndexItem): Doc {
   return {
     id: item.filename,
@@ -20,13 +23,26 @@ function indexItemToDoc(item: api.DocumentIndexItem): Doc {
   };
 }
 
-export const DocsTab: React.FC = () => {
+interface DocsTabProps {
+  navTarget?: NavigationTarget | null;
+  onNavigationHandled?: () => void;
+}
+
+export const DocsTab: React.FC<DocsTabProps> = ({ navTarget, onNavigationHandled }) => {
   const [documents, setDocuments] = useState<Doc[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<api.DocumentSearchHit[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [contentCache, setContentCache] = useState<Record<string, PartialBlock[]>>({});
+  const [conflict, setConflict] = useState<DocConflict | null>(null);
+
+  // ETag of the version each loaded document's content is based on; sent with every save
+  const etagsRef = useRef<Record<string, string | null>>({});
+  // Whether DocViewer is in edit mode, and docs changed on disk meanwhile (reloaded once editing ends)
+  const editingRef = useRef(false);
+  const staleWhileEditingRef = useRef<Set<string>>(new Set());
 
   // Fetch documents index
   const refreshDocuments = useCallback(async () => {
@@ -54,37 +70,53 @@ export const DocsTab: React.FC = () => {
         const sorted = [...docs].sort((a, b) =>
           (b.updatedAt || b.date || '').localeCompare(a.updatedAt || a.date || '')
         );
-        setSelectedId(sorted[0].id);
+        // Keep a selection made while loading (e.g. a command palette jump)
+        setSelectedId((prev) => prev ?? sorted[0].id);
       }
     })();
     return () => { cancelled = true; };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Poll for new documents every 30s (e.g. dropped by OpenClaw)
-  useEffect(() => {
-    const interval = setInterval(async () => {
-      try {
-        const items = await api.fetchDocuments();
-        const existingIds = new Set(documents.map((d) => d.id));
-        const newDocs = items
-          .map(indexItemToDoc)
-          .filter((d) => !existingIds.has(d.id));
-        if (newDocs.length > 0) {
-          setDocuments((prev) => [...newDocs, ...prev]);
-        }
-      } catch { /* silent — polling failure is non-critical */ }
-    }, 30_000);
-    return () => clearInterval(interval);
-  }, [documents]);
+  // Merge the server index into local state: add new documents (e.g. dropped by OpenClaw),
+  // drop deleted ones, and pick up title/emoji/category/updated_at changes made elsewhere
+  const syncDocumentList = useCallback(async () => {
+    try {
+      const items = await api.fetchDocuments();
+      setDocuments((prev) => {
+        const byId = new Map(prev.map((d) => [d.id, d]));
+        let changed = items.length !== prev.length;
+        const next = items.map((item) => {
+          const fresh = indexItemToDoc(item);
+          const existing = byId.get(fresh.id);
+          if (!existing) {
+            changed = true;
+            return fresh;
+          }
+          if (
+            existing.title === fresh.title &&
+            existing.emoji === fresh.emoji &&
+            existing.category === fresh.category &&
+            existing.updatedAt === fresh.updatedAt
+          ) {
+            return existing;
+          }
+          changed = true;
+          return { ...existing, title: fresh.title, emoji: fresh.emoji, category: fresh.category, updatedAt: fresh.updatedAt };
+        });
+        return changed ? next : prev;
+      });
+    } catch { /* silent — sync failure is non-critical */ }
+  }, []);
 
   // Document content loading with proper retry support
   const fetchedRef = useRef<Set<string>>(new Set());
   const loadDocContent = useCallback(async (filename: string) => {
     if (fetchedRef.current.has(filename)) return;
     try {
-      const markdown = await api.fetchDocumentContent(filename);
+      const { content: markdown, etag } = await api.fetchDocumentContent(filename);
       const blocks = await markdownToBlockNote(markdown);
       fetchedRef.current.add(filename); // Only mark as fetched on success
+      etagsRef.current[filename] = etag;
       setContentCache((prev) => ({ ...prev, [filename]: blocks }));
     } catch (err) {
       console.error('Failed to load document content', err);
@@ -96,6 +128,67 @@ export const DocsTab: React.FC = () => {
     if (selectedId) loadDocContent(selectedId);
   }, [selectedId, loadDocContent]);
 
+  // Re-sync on documents.changed; poll every 30s only while the event stream is down.
+  // document.updated means the file was edited outside the app — drop its cached
+  // content and reload it if it's the open document. While it's being edited, keep the
+  // old ETag instead so the next save comes back as a conflict rather than losing either side.
+  const selectedIdRef = useRef(selectedId);
+  selectedIdRef.current = selectedId;
+
+  useServerEvents(['documents.changed', 'document.updated'], (event) => {
+    if (event.type === 'document.updated') {
+      const { filename } = event.data;
+      fetchedRef.current.delete(filename);
+      if (filename === selectedIdRef.current && editingRef.current) {
+        staleWhileEditingRef.current.add(filename);
+      } else if (filename === selectedIdRef.current) {
+        loadDocContent(filename);
+      } else {
+        setContentCache((prev) => {
+          const copy = { ...prev };
+          delete copy[filename];
+          return copy;
+        });
+      }
+      return;
+    }
+    syncDocumentList();
+  }, {
+    fallback: syncDocumentList,
+    fallbackInterval: 30_000,
+  });
+
+  // Command palette jump: select the document and clear any search that would hide it
+  useEffect(() => {
+    if (navTarget?.kind !== 'doc') return;
+    setSelectedId(navTarget.id);
+    setSearchQuery('');
+    onNavigationHandled?.();
+  }, [navTarget, onNavigationHandled]);
+
+  // Full-text search (debounced) — null while the query is empty
+  useEffect(() => {
+    const q = searchQuery.trim();
+    if (!q) {
+      setSearchHits(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const hits = await api.searchDocuments(q);
+        if (!cancelled) setSearchHits(hits);
+      } catch (err) {
+        console.error('Document search failed:', err);
+        if (!cancelled) setSearchHits(null);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, documents]);
+
   const selectedDoc: Doc | null = selectedId
     ? (() => {
         const doc = documents.find((d) => d.id === selectedId);
@@ -112,7 +205,21 @@ export const DocsTab: React.FC = () => {
     if (!doc) return;
     const filename = id;
     const markdown = await blockNoteToMarkdown(newBlocks);
-    await api.saveDocumentContent(filename, markdown, editedBy);
+    try {
+      etagsRef.current[filename] = await api.saveDocumentContent(filename, markdown, editedBy, etagsRef.current[filename]);
+    } catch (err) {
+      if (err instanceof api.DocumentConflictError) {
+        setConflict({
+          docId: filename,
+          localMarkdown: markdown,
+          localBlocks: newBlocks,
+          serverMarkdown: err.serverContent,
+          serverEtag: err.serverEtag,
+          editedBy,
+        });
+      }
+      throw err;
+    }
     // Update cache
     setContentCache((prev) => ({ ...prev, [filename]: newBlocks }));
     // Sync title to index if changed
@@ -127,7 +234,47 @@ export const DocsTab: React.FC = () => {
     );
   }, [documents]);
 
-  const { save: debouncedSave, flush: flushSave, status: saveStatus, error: saveError } = useDebouncedSave(saveFn, { delay: 800 });
+  const { save: debouncedSave, flush: flushSave, cancel: cancelSave, status: saveStatus, error: saveError } = useDebouncedSave(saveFn, { delay: 800 });
+
+  // Resolve a save conflict: overwrite with our edits, load the on-disk version, or save a manual merge
+  const handleResolveConflict = useCallback(async (resolution: ConflictResolution, merged?: string) => {
+    if (!conflict) return;
+    const { docId, localMarkdown, localBlocks, serverMarkdown, serverEtag, editedBy } = conflict;
+    cancelSave();
+    setConflict(null);
+    staleWhileEditingRef.current.delete(docId);
+    try {
+      if (resolution === 'theirs') {
+        etagsRef.current[docId] = serverEtag;
+        const blocks = await markdownToBlockNote(serverMarkdown);
+        setContentCache((prev) => ({ ...prev, [docId]: blocks }));
+      } else {
+        const markdown = resolution === 'merge' ? merged ?? localMarkdown : localMarkdown;
+        etagsRef.current[docId] = await api.saveDocumentContent(docId, markdown, editedBy, serverEtag);
+        const blocks = resolution === 'merge' ? await markdownToBlockNote(markdown) : localBlocks;
+        setContentCache((prev) => ({ ...prev, [docId]: blocks }));
+      }
+      fetchedRef.current.add(docId);
+      setDocuments((prev) => prev.map((d) => (d.id === docId ? { ...d, updatedAt: new Date().toISOString() } : d)));
+    } catch (err) {
+      if (err instanceof api.DocumentConflictError) {
+        // Changed on disk yet again — ask again against the newest version
+        setConflict({ ...conflict, serverMarkdown: err.serverContent, serverEtag: err.serverEtag });
+      } else {
+        console.error('Failed to resolve document conflict', err);
+      }
+    }
+  }, [conflict, cancelSave]);
+
+  const handleEditingChange = useCallback((editing: boolean) => {
+    editingRef.current = editing;
+    // Pick up changes made on disk while we were editing (if saving didn't already surface them)
+    const id = selectedIdRef.current;
+    if (!editing && id && staleWhileEditingRef.current.has(id) && conflict?.docId !== id) {
+      staleWhileEditingRef.current.delete(id);
+      loadDocContent(id);
+    }
+  }, [conflict, loadDocContent]);
 
   const handleSaveDoc = useCallback(
     (id: string, newBlocks: PartialBlock[], newTitle?: string, editedBy?: string) => {
@@ -238,6 +385,7 @@ export const DocsTab: React.FC = () => {
         onSelect={setSelectedId}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
+        searchHits={searchHits}
         onCreateDocument={handleCreateDocument}
         onDeleteDocument={handleDeleteDocument}
         onDuplicateDocument={handleDuplicateDocument}
@@ -250,6 +398,9 @@ export const DocsTab: React.FC = () => {
         onCreateDocument={handleCreateDocument}
         saveStatus={saveStatus}
         saveError={saveError}
+        conflict={conflict && conflict.docId === selectedId ? conflict : null}
+        onResolveConflict={handleResolveConflict}
+        onEditingChange={handleEditingChange}
       />
     </div>
   );
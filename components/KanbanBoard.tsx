@@ -1,17 +1,32 @@
-import React, { useState, useRef } from 'react';
-import { Task, TaskStatus } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Task, TaskStatus, NavigationTarget, ChecklistItem, BoardColumn } from '../types';
 import { TaskCard } from './TaskCard';
 import { NewTaskModal } from './NewTaskModal';
+import { TaskFilterBar } from './TaskFilterBar';
+import { ColumnMenu } from './ColumnMenu';
+import { BulkActionBar } from './BulkActionBar';
+import * as api from '../lib/api';
+import type { BatchAction } from '../lib/api';
+import { isOverdue } from '../lib/dueDates';
+import { useNow } from '../lib/useNow';
+import { TaskFilter, filterKey, filterOptions, matchesFilters } from '../lib/taskFilters';
+import { columnKind, columnName, isClosed, wipState } from '../lib/board';
 
 interface KanbanBoardProps {
   tasks: Task[];
+  columns: BoardColumn[];
+  onColumnsChange: () => void; // a column was added, edited, moved or deleted
   onMoveTask: (id: string, direction: 'forward' | 'back') => void;
-  onDropTask: (id: string, status: TaskStatus) => void;
+  onDropTask: (id: string, status: TaskStatus, index?: number) => void;
   onDeleteTask: (id: string) => void;
   onSaveTask: (taskData: Partial<Task>, taskToEdit: Task | null) => void;
+  onChecklistChange: (taskId: string, items: ChecklistItem[]) => void;
+  onBatch: (ids: string[], action: BatchAction) => void;
+  navTarget?: NavigationTarget | null;
+  onNavigationHandled?: () => void;
 }
 
-export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onDropTask, onDeleteTask, onSaveTask }) => {
+export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks: allTasks, columns, onColumnsChange, onMoveTask, onDropTask, onDeleteTask, onSaveTask, onChecklistChange, onBatch, navTarget, onNavigationHandled }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [modalColumn, setModalColumn] = useState<TaskStatus | undefined>(undefined);
   const [taskToEdit, setTaskToEdit] = useState<Task | null>(null);
@@ -19,15 +34,31 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onD
   const [isArchiveExpanded, setIsArchiveExpanded] = useState(false);
   const [dragOverCol, setDragOverCol] = useState<string | null>(null);
   const [recentlyDropped, setRecentlyDropped] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  // Insertion point in the hovered column: before the card at this index (length = at the end)
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
   const dragCounterRef = useRef<Record<string, number>>({});
+  const [filters, setFilters] = useState<TaskFilter[]>([]);
+  const [menuColumn, setMenuColumn] = useState<string | null>(null);
+  const [newColumnName, setNewColumnName] = useState<string | null>(null); // null = form closed
+  const [columnError, setColumnError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  // Rubber-band selection rectangle while dragging over the board background (viewport coords)
+  const [selectBox, setSelectBox] = useState<{ left: number; top: number; right: number; bottom: number } | null>(null);
+  const boardRef = useRef<HTMLDivElement>(null);
+  const now = useNow();
 
-  // Column definitions
-  const columns: { id: TaskStatus; label: string }[] = [
-    { id: 'todo', label: 'To Do' },
-    { id: 'in-progress', label: 'In Progress' },
-    { id: 'done', label: 'Done' },
-    { id: 'archive', label: 'Archive' },
-  ];
+  // Everything below works on the filtered board
+  const tasks = filters.length > 0 ? allTasks.filter((t) => matchesFilters(t, filters)) : allTasks;
+
+  const toggleFilter = (f: TaskFilter) => {
+    setFilters((prev) => prev.some((x) => filterKey(x) === filterKey(f))
+      ? prev.filter((x) => filterKey(x) !== filterKey(f))
+      : [...prev, f]);
+  };
+
+  const archiveColumn = columns.find((c) => c.kind === 'archive');
+  const firstOpenColumn = columns.find((c) => c.kind === 'open') ?? columns[0];
 
   const handleMoveTask = (id: string, direction: 'forward' | 'back') => {
     onMoveTask(id, direction);
@@ -38,8 +69,27 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onD
     dragCounterRef.current[status] = 0;
     setDragOverCol(null);
     const taskId = e.dataTransfer.getData('taskId');
+    const insertAt = dropIndex;
+    setDropIndex(null);
+    setDraggingId(null);
     if (taskId) {
-      onDropTask(taskId, status);
+      // Convert the insertion point among the visible cards to an index among the column's
+      // other cards (filtered-out cards included)
+      const column = allTasks.filter((t) => t.status === status);
+      const from = column.findIndex((t) => t.id === taskId);
+      const others = column.filter((t) => t.id !== taskId);
+      const visibleOthers = tasks.filter((t) => t.status === status && t.id !== taskId);
+      const visibleIndex = insertAt === null
+        ? undefined
+        : insertAt - (tasks.filter((t) => t.status === status).slice(0, insertAt).some((t) => t.id === taskId) ? 1 : 0);
+      let index: number | undefined;
+      if (visibleIndex !== undefined && visibleOthers.length > 0) {
+        index = visibleIndex < visibleOthers.length
+          ? others.indexOf(visibleOthers[visibleIndex])
+          : others.indexOf(visibleOthers[visibleOthers.length - 1]) + 1;
+      }
+      if (from >= 0 && (index === undefined || index === from)) return; // dropped where it already was
+      onDropTask(taskId, status, index);
       // Trigger drop animation
       setRecentlyDropped(taskId);
       setTimeout(() => setRecentlyDropped(null), 300);
@@ -50,9 +100,17 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onD
   const handleDragEnter = (e: React.DragEvent, colId: string) => {
     e.preventDefault();
     dragCounterRef.current[colId] = (dragCounterRef.current[colId] || 0) + 1;
+    if (dragOverCol !== colId) setDropIndex(null);
     setDragOverCol(colId);
   };
 
+  // Hovering a card: insert before it if over its top half, after it otherwise
+  const handleCardDragOver = (e: React.DragEvent, index: number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const next = e.clientY < rect.top + rect.height / 2 ? index : index + 1;
+    if (next !== dropIndex) setDropIndex(next);
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     e.dataTransfer.dropEffect = 'move';
@@ -63,6 +121,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onD
     if (dragCounterRef.current[colId] <= 0) {
       dragCounterRef.current[colId] = 0;
       setDragOverCol(null);
+      setDropIndex(null);
     }
   };
 
@@ -73,7 +132,78 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onD
   };
 
   const handleArchiveTask = (id: string) => {
-    onDropTask(id, 'archive');
+    if (archiveColumn) onDropTask(id, archiveColumn.key);
+  };
+
+  const handleAddColumn = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newColumnName?.trim();
+    if (!name) return;
+    api.createColumn({ name }).then(() => {
+      setNewColumnName(null);
+      setColumnError(null);
+      onColumnsChange();
+    }).catch((err) => setColumnError(err.message));
+  };
+
+  // Selected cards that still exist (others may have deleted some)
+  const selectedIds = selected.filter((id) => allTasks.some((t) => t.id === id));
+
+  const toggleSelect = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const handleBatch = (action: BatchAction) => {
+    onBatch(selectedIds, action);
+    if (action.action === 'delete') setSelected([]);
+  };
+
+  useEffect(() => {
+    if (selectedIds.length === 0) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !isModalOpen) setSelected([]);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [selectedIds.length, isModalOpen]);
+
+  // Drag on empty board space to select every card the box touches (shift adds to the selection);
+  // a plain click there clears the selection
+  const handleBoardMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('[data-task-id], button, input, select, textarea, form')) return;
+    e.preventDefault(); // no text selection while dragging
+    const start = { x: e.clientX, y: e.clientY };
+    const additive = e.shiftKey;
+    let box: { left: number; top: number; right: number; bottom: number } | null = null;
+
+    const onMove = (ev: MouseEvent) => {
+      box = {
+        left: Math.min(start.x, ev.clientX),
+        top: Math.min(start.y, ev.clientY),
+        right: Math.max(start.x, ev.clientX),
+        bottom: Math.max(start.y, ev.clientY),
+      };
+      if (box.right - box.left > 4 || box.bottom - box.top > 4) setSelectBox(box);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      setSelectBox(null);
+      const b = box;
+      if (!b || (b.right - b.left <= 4 && b.bottom - b.top <= 4)) {
+        if (!additive) setSelected([]);
+        return;
+      }
+      const hits = [...(boardRef.current?.querySelectorAll<HTMLElement>('[data-task-id]') ?? [])]
+        .filter((el) => {
+          const r = el.getBoundingClientRect();
+          return r.left < b.right && r.right > b.left && r.top < b.bottom && r.bottom > b.top;
+        })
+        .map((el) => el.dataset.taskId!);
+      setSelected((prev) => [...new Set([...(additive ? prev : []), ...hits])]);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
   };
 
   const handleSaveTask = (taskData: Partial<Task>) => {
@@ -95,37 +225,136 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onD
     setIsModalOpen(true);
   };
 
+  // Command palette: open a task in the edit modal, or start a new one
+  useEffect(() => {
+    if (navTarget?.kind === 'new-task') {
+      openAddModal(firstOpenColumn?.key ?? '');
+      onNavigationHandled?.();
+    } else if (navTarget?.kind === 'task') {
+      const task = allTasks.find((t) => t.id === navTarget.id);
+      if (task) {
+        if (task.status === archiveColumn?.key) setIsArchiveExpanded(true);
+        openEditModal(task);
+      }
+      onNavigationHandled?.();
+    }
+  }, [navTarget]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Open tasks past their due date, soonest-due first; they also stay in their own columns
+  const overdueTasks = tasks
+    .filter((t) => isOverdue(t, now, isClosed(columns, t.status)))
+    .sort((a, b) => (a.dueAt ?? 0) - (b.dueAt ?? 0));
+  const columnIndex = (status: TaskStatus) => columns.findIndex((c) => c.key === status);
+  const blockerTitles = (task: Task) =>
+    (task.blockedBy ?? []).map((id) => allTasks.find((t) => t.id === id)?.title ?? id);
+
   return (
-    <>
-      <div className="flex flex-col md:flex-row h-full gap-4 md:gap-6 overflow-x-auto overflow-y-auto md:overflow-y-hidden pb-4">
-        {columns.map((col) => {
-          const colTasks = tasks.filter((t) => t.status === col.id);
-          const isArchive = col.id === 'archive';
-          const isDragOver = dragOverCol === col.id;
+    <div className="flex flex-col h-full">
+      <TaskFilterBar
+        options={filterOptions(allTasks)}
+        active={filters}
+        onToggle={toggleFilter}
+        onClear={() => setFilters([])}
+        shown={tasks.length}
+        total={allTasks.length}
+      />
+      <div
+        ref={boardRef}
+        onMouseDown={handleBoardMouseDown}
+        className="flex flex-col md:flex-row flex-1 min-h-0 gap-4 md:gap-6 overflow-x-auto overflow-y-auto md:overflow-y-hidden pb-4"
+      >
+        {/* Overdue lane — only while something is late */}
+        {overdueTasks.length > 0 && (
+          <div className="w-full md:w-72 flex-shrink-0 flex flex-col md:h-full md:max-h-full rounded-xl bg-red-500/5 border border-red-500/30">
+            <div className="p-4 flex items-center justify-between shrink-0">
+              <h3 className="font-semibold text-red-400 text-sm tracking-wide">⚠️ Overdue</h3>
+              <span className="text-xs text-red-400 bg-[#0d1117] px-2 py-0.5 rounded-full border border-red-500/30">
+                {overdueTasks.length}
+              </span>
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar px-3 pb-2 min-h-[50px]">
+              {overdueTasks.map((task) => (
+                <div key={task.id} data-task-id={task.id}>
+                  <div className="text-[10px] uppercase tracking-wider text-textMuted/70 mb-1 px-1">{columnName(columns, task.status)}</div>
+                  <TaskCard
+                    task={task}
+                    onMove={handleMoveTask}
+                    onDelete={handleDeleteTask}
+                    onEdit={openEditModal}
+                    kind={columnKind(columns, task.status)}
+                    blockers={blockerTitles(task)}
+                    selected={selectedIds.includes(task.id)}
+                    onToggleSelect={toggleSelect}
+                    canMoveBack={columnIndex(task.status) > 0}
+                    canMoveForward={columnIndex(task.status) < columns.length - 1}
+                    now={now}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {columns.map((col, colIndex) => {
+          const colTasks = tasks.filter((t) => t.status === col.key);
+          const isArchive = col.kind === 'archive';
+          const isDragOver = dragOverCol === col.key;
+          // WIP counts every task in the column, filtered out or not
+          const colCount = allTasks.filter((t) => t.status === col.key).length;
+          const wip = wipState(col, colCount);
 
           return (
             <div
-              key={col.id}
+              key={col.key}
               className={`w-full md:w-80 flex-shrink-0 flex flex-col md:h-full md:max-h-full rounded-xl transition-all duration-200 ${
                 isDragOver
                   ? 'bg-[#1c2128] ring-2 ring-primary/50 scale-[1.01]'
-                  : 'bg-[#161b22] border border-border/50'
+                  : wip === 'over'
+                    ? 'bg-red-500/5 border border-red-500/40'
+                    : 'bg-[#161b22] border border-border/50'
               }`}
-              onDragEnter={(e) => handleDragEnter(e, col.id)}
+              onDragEnter={(e) => handleDragEnter(e, col.key)}
               onDragOver={handleDragOver}
-              onDragLeave={() => handleDragLeave(col.id)}
-              onDrop={(e) => handleDrop(e, col.id)}
+              onDragLeave={() => handleDragLeave(col.key)}
+              onDrop={(e) => handleDrop(e, col.key)}
             >
               {/* Column Header */}
-              <div className="p-4 flex items-center justify-between shrink-0">
-                <h3 className="font-semibold text-textMain text-sm tracking-wide">{col.label}</h3>
-                <span className="text-xs text-textMuted bg-[#0d1117] px-2 py-0.5 rounded-full border border-border">
-                  {colTasks.length}
-                </span>
+              <div className="relative p-4 flex items-center justify-between gap-2 shrink-0">
+                <h3 className="font-semibold text-textMain text-sm tracking-wide truncate">{col.name}</h3>
+                <div className="flex items-center gap-1.5 shrink-0">
+                  <span
+                    className={`text-xs px-2 py-0.5 rounded-full border bg-[#0d1117] ${
+                      wip === 'over'
+                        ? 'text-red-400 border-red-500/40 font-semibold'
+                        : wip === 'at'
+                          ? 'text-yellow-400 border-yellow-500/30'
+                          : 'text-textMuted border-border'
+                    }`}
+                    title={col.wipLimit !== null ? `WIP limit: ${col.wipLimit}` : undefined}
+                  >
+                    {col.wipLimit !== null ? `${colCount}/${col.wipLimit}` : colTasks.length}
+                  </span>
+                  <button
+                    onClick={() => setMenuColumn(menuColumn === col.key ? null : col.key)}
+                    className="text-textMuted hover:text-white px-1 rounded hover:bg-[#21262d] transition-colors leading-none"
+                    title="Column settings"
+                  >
+                    ⋯
+                  </button>
+                </div>
+                {menuColumn === col.key && (
+                  <ColumnMenu
+                    column={col}
+                    columns={columns}
+                    taskCount={colCount}
+                    onChanged={onColumnsChange}
+                    onClose={() => setMenuColumn(null)}
+                  />
+                )}
               </div>
 
-              {/* Drop zone hint when dragging */}
-              {isDragOver && (
+              {/* Drop zone hint when dragging onto an empty or collapsed column */}
+              {isDragOver && (colTasks.length === 0 || (isArchive && !isArchiveExpanded)) && (
                 <div className="mx-3 mb-2 border-2 border-dashed border-primary/40 rounded-lg py-3 text-center text-xs text-primary/60 font-medium">
                   Drop here
                 </div>
@@ -147,21 +376,39 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onD
               {/* Task List (Scrollable) */}
               <div className="flex-1 overflow-y-auto custom-scrollbar px-3 pb-2 min-h-[50px]">
                 {(!isArchive || isArchiveExpanded) &&
-                  colTasks.map((task) => (
+                  colTasks.map((task, index) => (
                     <div
                       key={task.id}
-                      className={recentlyDropped === task.id ? 'card-drop-anim' : ''}
+                      data-task-id={task.id}
+                      className={`relative ${recentlyDropped === task.id ? 'card-drop-anim' : ''}`}
+                      onDragStart={() => setDraggingId(task.id)}
+                      onDragEnd={() => { setDraggingId(null); setDropIndex(null); }}
+                      onDragOver={(e) => handleCardDragOver(e, index)}
                     >
+                      {isDragOver && dropIndex === index && draggingId !== task.id && draggingId !== colTasks[index - 1]?.id && (
+                        <div className="absolute -top-1 left-0 right-0 h-0.5 rounded-full bg-primary pointer-events-none" />
+                      )}
                       <TaskCard
                         task={task}
                         onMove={handleMoveTask}
                         onDelete={handleDeleteTask}
                         onEdit={openEditModal}
-                        onArchive={col.id === 'done' ? handleArchiveTask : undefined}
+                        onArchive={col.kind === 'done' && archiveColumn ? handleArchiveTask : undefined}
+                        kind={col.kind}
+                        blockers={blockerTitles(task)}
+                        selected={selectedIds.includes(task.id)}
+                        onToggleSelect={toggleSelect}
+                        canMoveBack={colIndex > 0}
+                        canMoveForward={colIndex < columns.length - 1}
+                        now={now}
                       />
                     </div>
                   ))}
 
+                {isDragOver && colTasks.length > 0 && dropIndex === colTasks.length && draggingId !== colTasks[colTasks.length - 1].id && (!isArchive || isArchiveExpanded) && (
+                  <div className="h-0.5 rounded-full bg-primary pointer-events-none" />
+                )}
+
                 {(!isArchive || isArchiveExpanded) && colTasks.length === 0 && !isDragOver && (
                   <div className="h-full flex flex-col items-center justify-center text-textMuted/30 text-xs italic py-10">
                     No cards
@@ -173,7 +420,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onD
               {!isArchive && (
                 <div className="p-3 pt-2 shrink-0">
                   <button
-                    onClick={() => openAddModal(col.id)}
+                    onClick={() => openAddModal(col.key)}
                     className="w-full py-2 flex items-center justify-start gap-2 px-3 text-textMuted hover:bg-[#21262d] hover:text-textMain rounded-lg transition-colors text-sm"
                   >
                     <span className="text-lg leading-none">+</span>
@@ -184,16 +431,74 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({ tasks, onMoveTask, onD
             </div>
           );
         })}
+
+        {/* Add Column */}
+        <div className="w-full md:w-64 flex-shrink-0">
+          {newColumnName === null ? (
+            <button
+              onClick={() => setNewColumnName('')}
+              className="w-full py-3 flex items-center justify-center gap-2 text-textMuted hover:text-textMain border border-dashed border-border rounded-xl hover:bg-[#161b22] transition-colors text-sm"
+            >
+              <span className="text-lg leading-none">+</span>
+              <span>Add column</span>
+            </button>
+          ) : (
+            <form onSubmit={handleAddColumn} className="p-3 bg-[#161b22] border border-border/50 rounded-xl space-y-2">
+              <input
+                value={newColumnName}
+                onChange={(e) => setNewColumnName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Escape') { setNewColumnName(null); setColumnError(null); } }}
+                placeholder="Column name"
+                autoFocus
+                className="w-full bg-background border border-border rounded-md px-3 py-1.5 text-sm text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors"
+              />
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={!newColumnName.trim()}
+                  className="px-3 py-1.5 rounded-md text-xs font-medium bg-primary hover:bg-primaryHover text-white disabled:opacity-40 transition-colors"
+                >
+                  Add
+                </button>
+                <button
+                  type="button"
+                  onClick={() => { setNewColumnName(null); setColumnError(null); }}
+                  className="px-3 py-1.5 rounded-md text-xs text-textMuted hover:text-white transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+              {columnError && <p className="text-[11px] text-red-400">{columnError}</p>}
+            </form>
+          )}
+        </div>
       </div>
 
+      {selectBox && (
+        <div
+          className="fixed z-30 border border-primary bg-primary/10 rounded-sm pointer-events-none"
+          style={{ left: selectBox.left, top: selectBox.top, width: selectBox.right - selectBox.left, height: selectBox.bottom - selectBox.top }}
+        />
+      )}
+
+      {selectedIds.length > 0 && (
+        <BulkActionBar count={selectedIds.length} columns={columns} onAction={handleBatch} onClear={() => setSelected([])} />
+      )}
+
       {isModalOpen && (
         <NewTaskModal
+          columns={columns}
           columnStatus={modalColumn}
           taskToEdit={taskToEdit}
           onClose={() => setIsModalOpen(false)}
           onSave={handleSaveTask}
+          checklist={taskToEdit ? allTasks.find((t) => t.id === taskToEdit.id)?.checklist : undefined}
+          onChecklistChange={taskToEdit ? (items) => onChecklistChange(taskToEdit.id, items) : undefined}
+          knownLabels={[...new Set(allTasks.flatMap((t) => t.labels ?? []))]}
+          knownAssignees={[...new Set(['user', 'zyga', ...allTasks.map((t) => t.assignee).filter((a): a is string => !!a)])]}
+          tasks={allTasks}
         />
       )}
-    </>
+    </div>
   );
 };
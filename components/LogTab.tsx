@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { LogEntry, LogType } from '../types';
+import { LogEntry, LogType, NavigationTarget } from '../types';
 import * as api from '../lib/api';
 
 function mapApiEntryToLog(entry: api.ActivityLogEntry): LogEntry {
@@ -39,17 +39,23 @@ const FILTERS: FilterDef[] = [
 ];
 
 // ── Expandable log entry ──
-const ExpandableEntry: React.FC<{ log: LogEntry; dotColor: string }> = ({ log, dotColor }) => {
+const ExpandableEntry: React.FC<{ log: LogEntry; dotColor: string; highlighted?: boolean }> = ({ log, dotColor, highlighted }) => {
   const [expanded, setExpanded] = useState(false);
   const isLong = log.message.length > 140;
 
+  useEffect(() => {
+    if (highlighted) setExpanded(true);
+  }, [highlighted]);
+
   return (
-    <div className="relative pl-8 group">
+    <div id={`log-entry-${log.id}`} className="relative pl-8 group">
       <div
         className={`absolute -left-[7px] top-4 w-3.5 h-3.5 rounded-full border-2 border-[#0d1117] ${dotColor} z-10 transition-transform group-hover:scale-125`}
       />
       <div
-        className={`bg-[#161b22] border border-border rounded-lg p-4 shadow-sm hover:border-gray-600 transition-all duration-200 ${isLong ? 'cursor-pointer' : ''}`}
+        className={`bg-[#161b22] border rounded-lg p-4 shadow-sm hover:border-gray-600 transition-all duration-200 ${isLong ? 'cursor-pointer' : ''} ${
+          highlighted ? 'border-primary ring-1 ring-primary' : 'border-border'
+        }`}
         onClick={isLong ? () => setExpanded((p) => !p) : undefined}
       >
         <div className="flex items-start gap-4">
@@ -84,13 +90,19 @@ const ExpandableEntry: React.FC<{ log: LogEntry; dotColor: string }> = ({ log, d
   );
 };
 
-export const LogTab: React.FC = () => {
+interface LogTabProps {
+  navTarget?: NavigationTarget | null;
+  onNavigationHandled?: () => void;
+}
+
+export const LogTab: React.FC<LogTabProps> = ({ navTarget, onNavigationHandled }) => {
   const [entries, setEntries] = useState<LogEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dateFilter, setDateFilter] = useState<string>('');
   const [typeFilter, setTypeFilter] = useState<FilterKey>('all');
   const [searchQuery, setSearchQuery] = useState('');
+  const [highlightId, setHighlightId] = useState<string | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -111,6 +123,23 @@ export const LogTab: React.FC = () => {
     return () => { cancelled = true; };
   }, [dateFilter]);
 
+  // ── Command palette jump: clear filters so the entry is visible, then scroll to it ──
+  useEffect(() => {
+    if (navTarget?.kind !== 'log') return;
+    setDateFilter('');
+    setTypeFilter('all');
+    setSearchQuery('');
+    setHighlightId(navTarget.id);
+    onNavigationHandled?.();
+  }, [navTarget, onNavigationHandled]);
+
+  useEffect(() => {
+    if (!highlightId || !entries.some((e) => e.id === highlightId)) return;
+    document.getElementById(`log-entry-${highlightId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const timer = setTimeout(() => setHighlightId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightId, entries]);
+
   // ── Compute type counts from all entries (before filtering) ──
   const typeCounts = useMemo(() => {
     const counts: Record<string, number> = {};
@@ -274,7 +303,7 @@ export const LogTab: React.FC = () => {
                 {/* Timeline Container */}
                 <div className="relative border-l-2 border-border/40 ml-4 space-y-6 pb-2">
                   {logs.map((log) => (
-                    <ExpandableEntry key={log.id} log={log} dotColor={getDotColor(log.type)} />
+                    <ExpandableEntry key={log.id} log={log} dotColor={getDotColor(log.type)} highlighted={log.id === highlightId} />
                   ))}
                 </div>
               </div>
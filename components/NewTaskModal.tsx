@@ -1,25 +1,57 @@
 import React, { useState, useEffect } from 'react';
-import { TaskPriority, TaskStatus, Task } from '../types';
+import { TaskPriority, TaskStatus, Task, ChecklistItem, BoardColumn, Recurrence } from '../types';
+import { toDateTimeInput, fromDateTimeInput } from '../lib/dueDates';
+import { TaskChecklist } from './TaskChecklist';
+import { TaskHistory } from './TaskHistory';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { labelColor } from '../lib/labels';
+import { isClosed } from '../lib/board';
+import { dependentsOf } from '../lib/dependencies';
 
 interface NewTaskModalProps {
+  columns: BoardColumn[];
   columnStatus?: TaskStatus;
   taskToEdit?: Task | null;
   onClose: () => void;
   onSave: (task: Partial<Task>) => void;
+  /** Live checklist of the task being edited (changes are saved as they happen) */
+  checklist?: ChecklistItem[];
+  onChecklistChange?: (items: ChecklistItem[]) => void;
+  /** Suggestions for the label and assignee inputs */
+  knownLabels?: string[];
+  knownAssignees?: string[];
+  /** Every task on the board, to pick prerequisites from */
+  tasks?: Task[];
 }
 
-const STATUS_OPTIONS: { value: TaskStatus; label: string }[] = [
-  { value: 'todo', label: 'To Do' },
-  { value: 'in-progress', label: 'In Progress' },
-  { value: 'done', label: 'Done' },
-  { value: 'archive', label: 'Archive' },
-];
-
-export const NewTaskModal: React.FC<NewTaskModalProps> = ({ columnStatus, taskToEdit, onClose, onSave }) => {
+export const NewTaskModal: React.FC<NewTaskModalProps> = ({
+  columns,
+  columnStatus,
+  taskToEdit,
+  onClose,
+  onSave,
+  checklist,
+  onChecklistChange,
+  knownLabels = [],
+  knownAssignees = [],
+  tasks = [],
+}) => {
   const [title, setTitle] = useState('');
   const [notes, setNotes] = useState('');
   const [priority, setPriority] = useState<TaskPriority>('Medium');
-  const [status, setStatus] = useState<TaskStatus>('todo');
+  const [status, setStatus] = useState<TaskStatus>(
+    () => (columns.find((c) => c.kind === 'open') ?? columns[0])?.key ?? ''
+  );
+  const [dueAt, setDueAt] = useState('');
+  const [reminderAt, setReminderAt] = useState('');
+  const [draftChecklist, setDraftChecklist] = useState<ChecklistItem[]>([]); // new tasks only
+  const [labels, setLabels] = useState<string[]>([]);
+  const [labelInput, setLabelInput] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [fields, setFields] = useState<{ name: string; value: string }[]>([]);
+  const [dependsOn, setDependsOn] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<Pick<Recurrence, 'cron' | 'mode'> | null>(null);
+  const [recurrenceError, setRecurrenceError] = useState<string | null>(null);
 
   useEffect(() => {
     if (taskToEdit) {
@@ -27,6 +59,13 @@ export const NewTaskModal: React.FC<NewTaskModalProps> = ({ columnStatus, taskTo
       setNotes(taskToEdit.description || '');
       setPriority(taskToEdit.priority);
       setStatus(taskToEdit.status);
+      setDueAt(toDateTimeInput(taskToEdit.dueAt));
+      setReminderAt(toDateTimeInput(taskToEdit.reminderAt));
+      setLabels(taskToEdit.labels ?? []);
+      setAssignee(taskToEdit.assignee ?? '');
+      setFields(Object.entries(taskToEdit.customFields ?? {}).map(([name, value]) => ({ name, value })));
+      setDependsOn(taskToEdit.dependsOn ?? []);
+      setRecurrence(taskToEdit.recurrence ? { cron: taskToEdit.recurrence.cron, mode: taskToEdit.recurrence.mode } : null);
     } else if (columnStatus) {
       setStatus(columnStatus);
     }
@@ -34,19 +73,50 @@ export const NewTaskModal: React.FC<NewTaskModalProps> = ({ columnStatus, taskTo
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!title.trim()) return;
+    if (!title.trim() || recurrenceError) return;
     
+    const dates = { dueAt: fromDateTimeInput(dueAt), reminderAt: fromDateTimeInput(reminderAt) };
+    const pendingLabel = labelInput.trim();
+    const meta = {
+      labels: pendingLabel ? addLabel(labels, pendingLabel) : labels,
+      assignee: assignee.trim() || null,
+      customFields: Object.fromEntries(
+        fields.map((f) => [f.name.trim(), f.value.trim()] as const).filter(([name, value]) => name && value)
+      ),
+      dependsOn,
+      recurrence,
+    };
     if (taskToEdit) {
-      onSave({ ...taskToEdit, title, description: notes, priority, status });
+      onSave({ ...taskToEdit, title, description: notes, priority, status, ...dates, ...meta });
     } else {
-      onSave({ title, description: notes, priority, status });
+      onSave({ title, description: notes, priority, status, ...dates, ...meta, checklist: draftChecklist });
     }
   };
 
+  /** Add a label unless it's already there (case-insensitive) */
+  const addLabel = (list: string[], label: string) =>
+    list.some((l) => l.toLowerCase() === label.toLowerCase()) ? list : [...list, label];
+
+  const commitLabelInput = () => {
+    const label = labelInput.replace(/,/g, '').trim();
+    if (label) setLabels((prev) => addLabel(prev, label));
+    setLabelInput('');
+  };
+
+  const updateField = (index: number, patch: Partial<{ name: string; value: string }>) => {
+    setFields((prev) => prev.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+  };
+
+  // Prerequisite candidates: not this task, not already picked, and not waiting on this task
+  const dependents = taskToEdit ? dependentsOf(tasks, taskToEdit.id) : new Set<string>();
+  const prerequisiteOptions = tasks.filter(
+    (t) => t.id !== taskToEdit?.id && !dependsOn.includes(t.id) && !dependents.has(t.id)
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4">
-      <div className="bg-surface border border-border rounded-xl shadow-2xl w-full max-w-lg overflow-hidden animate-fade-in-up">
-        <div className="px-6 py-4 flex justify-between items-center border-b border-border bg-[#1c2128]">
+      <div className={`bg-surface border border-border rounded-xl shadow-2xl w-full max-h-[90vh] flex flex-col overflow-hidden animate-fade-in-up ${taskToEdit ? 'max-w-4xl' : 'max-w-lg'}`}>
+        <div className="px-6 py-4 flex justify-between items-center border-b border-border bg-[#1c2128] shrink-0">
           <h3 className="text-lg font-semibold text-white">
             {taskToEdit ? 'Edit Task' : 'New Task'}
           </h3>
@@ -55,83 +125,278 @@ export const NewTaskModal: React.FC<NewTaskModalProps> = ({ columnStatus, taskTo
           </button>
         </div>
         
-        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+        <div className="flex flex-col md:flex-row flex-1 min-h-0 overflow-y-auto md:overflow-hidden">
+          <form onSubmit={handleSubmit} className="flex-1 min-w-0 p-6 space-y-5 md:overflow-y-auto custom-scrollbar">
           
-          <div>
-            <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">In list</label>
-            <select
-              value={status}
-              onChange={(e) => setStatus(e.target.value as TaskStatus)}
-              className="w-full bg-background border border-border rounded-md px-3 py-2.5 text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors cursor-pointer"
-            >
-              {STATUS_OPTIONS.map((opt) => (
-                <option key={opt.value} value={opt.value} className="bg-[#161b22] text-white">
-                  {opt.label}
-                </option>
-              ))}
-            </select>
-          </div>
-
-          <div>
-            <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Title</label>
-            <input 
-              type="text" 
-              autoFocus={!taskToEdit}
-              className="w-full bg-background border border-border rounded-md px-3 py-2.5 text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors"
-              placeholder="What needs to be done?"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-            />
-          </div>
-
-          <div>
-            <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Description</label>
-            <textarea 
-              className="w-full bg-background border border-border rounded-md px-3 py-2 text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors h-32 resize-none leading-relaxed"
-              placeholder="Add more details..."
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-            />
-          </div>
-
-          <div>
-            <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-3">Priority</label>
-            <div className="flex gap-3">
-              {(['High', 'Medium', 'Low'] as TaskPriority[]).map(p => (
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">In list</label>
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as TaskStatus)}
+                className="w-full bg-background border border-border rounded-md px-3 py-2.5 text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors cursor-pointer"
+              >
+                {columns.map((col) => (
+                  <option key={col.key} value={col.key} className="bg-[#161b22] text-white">
+                    {col.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Title</label>
+              <input 
+                type="text" 
+                autoFocus={!taskToEdit}
+                className="w-full bg-background border border-border rounded-md px-3 py-2.5 text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors"
+                placeholder="What needs to be done?"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Description</label>
+              <textarea 
+                className="w-full bg-background border border-border rounded-md px-3 py-2 text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors h-32 resize-none leading-relaxed"
+                placeholder="Add more details..."
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-3">Priority</label>
+              <div className="flex gap-3">
+                {(['High', 'Medium', 'Low'] as TaskPriority[]).map(p => (
+                  <button
+                    key={p}
+                    type="button"
+                    onClick={() => setPriority(p)}
+                    className={`flex-1 px-3 py-2 rounded-md text-sm font-medium border transition-all duration-200 ${
+                      priority === p 
+                        ? p === 'High' ? 'bg-red-500/20 border-red-500 text-red-400 shadow-sm shadow-red-900/20' 
+                          : p === 'Medium' ? 'bg-orange-500/20 border-orange-500 text-orange-400 shadow-sm shadow-orange-900/20' 
+                          : 'bg-blue-500/20 border-blue-500 text-blue-400 shadow-sm shadow-blue-900/20'
+                        : 'bg-[#161b22] border-border text-textMuted hover:border-gray-500 hover:text-textMain'
+                    }`}
+                  >
+                    {p}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-[1fr_12rem] gap-3">
+              <div>
+                <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Labels</label>
+                <div className="flex flex-wrap items-center gap-1.5 bg-background border border-border rounded-md px-2 py-1.5 focus-within:border-primary focus-within:ring-1 focus-within:ring-primary transition-colors">
+                  {labels.map((label) => (
+                    <span key={label} className={`inline-flex items-center gap-1 text-[11px] px-2 py-0.5 rounded border font-medium ${labelColor(label)}`}>
+                      {label}
+                      <button type="button" onClick={() => setLabels((prev) => prev.filter((l) => l !== label))} className="hover:text-white" title="Remove label">✕</button>
+                    </span>
+                  ))}
+                  <input
+                    type="text"
+                    list="task-label-suggestions"
+                    value={labelInput}
+                    onChange={(e) => setLabelInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' || e.key === ',') {
+                        e.preventDefault(); // don't submit the task form
+                        commitLabelInput();
+                      } else if (e.key === 'Backspace' && !labelInput && labels.length > 0) {
+                        setLabels((prev) => prev.slice(0, -1));
+                      }
+                    }}
+                    onBlur={commitLabelInput}
+                    placeholder={labels.length === 0 ? 'e.g. youtube, security' : ''}
+                    className="flex-1 min-w-[6rem] bg-transparent text-sm text-white focus:outline-none py-0.5"
+                  />
+                  <datalist id="task-label-suggestions">
+                    {knownLabels.filter((l) => !labels.includes(l)).map((l) => <option key={l} value={l} />)}
+                  </datalist>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Assignee</label>
+                <input
+                  type="text"
+                  list="task-assignee-suggestions"
+                  value={assignee}
+                  onChange={(e) => setAssignee(e.target.value)}
+                  placeholder="Unassigned"
+                  className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors"
+                />
+                <datalist id="task-assignee-suggestions">
+                  {knownAssignees.map((a) => <option key={a} value={a} />)}
+                </datalist>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-xs uppercase tracking-wide text-textMuted font-bold">Custom fields</label>
                 <button
-                  key={p}
                   type="button"
-                  onClick={() => setPriority(p)}
-                  className={`flex-1 px-3 py-2 rounded-md text-sm font-medium border transition-all duration-200 ${
-                    priority === p 
-                      ? p === 'High' ? 'bg-red-500/20 border-red-500 text-red-400 shadow-sm shadow-red-900/20' 
-                        : p === 'Medium' ? 'bg-orange-500/20 border-orange-500 text-orange-400 shadow-sm shadow-orange-900/20' 
-                        : 'bg-blue-500/20 border-blue-500 text-blue-400 shadow-sm shadow-blue-900/20'
-                      : 'bg-[#161b22] border-border text-textMuted hover:border-gray-500 hover:text-textMain'
-                  }`}
+                  onClick={() => setFields((prev) => [...prev, { name: '', value: '' }])}
+                  className="text-[11px] text-textMuted hover:text-primary"
                 >
-                  {p}
+                  + Add field
                 </button>
-              ))}
+              </div>
+              {fields.length === 0 ? (
+                <p className="text-[11px] text-textMuted/60 italic">None — add things like Client, Channel or Estimate.</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {fields.map((f, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={f.name}
+                        onChange={(e) => updateField(i, { name: e.target.value })}
+                        placeholder="Field"
+                        className="w-32 bg-background border border-border rounded-md px-2 py-1.5 text-xs text-white focus:outline-none focus:border-primary transition-colors"
+                      />
+                      <input
+                        type="text"
+                        value={f.value}
+                        onChange={(e) => updateField(i, { value: e.target.value })}
+                        placeholder="Value"
+                        className="flex-1 min-w-0 bg-background border border-border rounded-md px-2 py-1.5 text-xs text-white focus:outline-none focus:border-primary transition-colors"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setFields((prev) => prev.filter((_, j) => j !== i))}
+                        className="p-1 text-textMuted hover:text-red-400 text-xs"
+                        title="Remove field"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
-          </div>
-
-          <div className="flex justify-end pt-4 gap-3">
-             <button 
-               type="button" 
-               onClick={onClose}
-               className="px-4 py-2 rounded-md text-sm font-medium text-textMuted hover:bg-[#21262d] hover:text-white transition-colors"
-             >
-               Cancel
-             </button>
-             <button 
-               type="submit" 
-               className="px-6 py-2 rounded-md text-sm font-medium bg-primary hover:bg-primaryHover text-white transition-colors shadow-lg shadow-purple-900/20"
-             >
-               {taskToEdit ? 'Save Changes' : 'Add Card'}
-             </button>
-          </div>
-        </form>
+
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Depends on</label>
+              {dependsOn.length > 0 && (
+                <div className="space-y-1 mb-2">
+                  {dependsOn.map((id) => {
+                    const prerequisite = tasks.find((t) => t.id === id);
+                    const finished = !!prerequisite && isClosed(columns, prerequisite.status);
+                    return (
+                      <div key={id} className="flex items-center gap-2 px-2 py-1 rounded-md bg-[#21262d] text-sm">
+                        <span className={finished ? 'text-green-400' : 'text-yellow-400'} title={finished ? 'Finished' : 'Not finished yet'}>
+                          {finished ? '✓' : '⏳'}
+                        </span>
+                        <span className={`flex-1 min-w-0 truncate ${finished ? 'text-textMuted line-through' : 'text-textMain'}`}>
+                          {prerequisite?.title ?? id}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setDependsOn((prev) => prev.filter((d) => d !== id))}
+                          className="p-1 text-textMuted hover:text-red-400 text-xs"
+                          title="Remove prerequisite"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+              <select
+                value=""
+                onChange={(e) => e.target.value && setDependsOn((prev) => [...prev, e.target.value])}
+                disabled={prerequisiteOptions.length === 0}
+                className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm text-textMain focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors cursor-pointer disabled:opacity-40"
+              >
+                <option value="" className="bg-[#161b22]">
+                  {prerequisiteOptions.length === 0 ? 'No other tasks' : 'Add a task this one waits on...'}
+                </option>
+                {prerequisiteOptions.map((t) => (
+                  <option key={t.id} value={t.id} className="bg-[#161b22] text-white">{t.title}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Checklist</label>
+              {taskToEdit ? (
+                <TaskChecklist taskId={taskToEdit.id} items={checklist ?? taskToEdit.checklist ?? []} onChange={(items) => onChecklistChange?.(items)} />
+              ) : (
+                <TaskChecklist items={draftChecklist} onChange={setDraftChecklist} />
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Due</label>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="datetime-local"
+                    value={dueAt}
+                    onChange={(e) => setDueAt(e.target.value)}
+                    className="flex-1 min-w-0 bg-background border border-border rounded-md px-2 py-2 text-sm text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors [color-scheme:dark]"
+                  />
+                  {dueAt && (
+                    <button type="button" onClick={() => setDueAt('')} className="p-1 text-textMuted hover:text-white" title="Clear due date">✕</button>
+                  )}
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Reminder</label>
+                <div className="flex items-center gap-1">
+                  <input
+                    type="datetime-local"
+                    value={reminderAt}
+                    onChange={(e) => setReminderAt(e.target.value)}
+                    className="flex-1 min-w-0 bg-background border border-border rounded-md px-2 py-2 text-sm text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors [color-scheme:dark]"
+                  />
+                  {reminderAt && (
+                    <button type="button" onClick={() => setReminderAt('')} className="p-1 text-textMuted hover:text-white" title="Clear reminder">✕</button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Repeat</label>
+              <RecurrenceEditor
+                value={recurrence}
+                onChange={setRecurrence}
+                onError={setRecurrenceError}
+              />
+            </div>
+
+            <div className="flex justify-end pt-4 gap-3">
+               <button 
+                 type="button" 
+                 onClick={onClose}
+                 className="px-4 py-2 rounded-md text-sm font-medium text-textMuted hover:bg-[#21262d] hover:text-white transition-colors"
+               >
+                 Cancel
+               </button>
+               <button 
+                 type="submit" 
+                 disabled={!!recurrenceError}
+                 className="px-6 py-2 rounded-md text-sm font-medium bg-primary hover:bg-primaryHover text-white transition-colors shadow-lg shadow-purple-900/20 disabled:opacity-40"
+               >
+                 {taskToEdit ? 'Save Changes' : 'Add Card'}
+               </button>
+            </div>
+          </form>
+
+          {/* Timeline + comments (existing tasks only) */}
+          {taskToEdit && (
+            <div className="md:w-80 shrink-0 p-6 border-t md:border-t-0 md:border-l border-border bg-[#161b22] flex flex-col min-h-[20rem]">
+              <TaskHistory taskId={taskToEdit.id} columns={columns} />
+            </div>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1,19 +1,105 @@
-import React, { useState } from 'react';
-import { Note } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Note, NoteStatus, NoteUrgency } from '../types';
+import type { NoteFlags } from '../lib/api';
 
 interface NotesSectionProps {
   notes: Note[];
-  onAdd: (content: string) => void;
+  onAdd: (content: string, files: File[], flags: NoteFlags) => void;
+  onUpdate: (id: string, flags: NoteFlags) => void;
   onDelete: (id: string) => void;
+  onRemoveAttachment: (noteId: string, attachmentId: string) => void;
+  onReply: (id: string, text: string) => void;
+  onSetStatus: (id: string, status: NoteStatus) => void;
+  onConvert: (id: string, kind: 'task' | 'doc') => void;
+  onOpenConverted: (note: Note) => void;
+  highlightId?: string | null;
 }
 
-export const NotesSection: React.FC<NotesSectionProps> = ({ notes, onAdd, onDelete }) => {
+type NoteFilter = 'open' | 'resolved';
+
+const URGENCIES: NoteUrgency[] = ['urgent', 'normal', 'low']; // most urgent first
+const URGENCY_LABELS: Record<NoteUrgency, string> = { urgent: 'Urgent', normal: 'Normal', low: 'Low' };
+
+/** Same order as the server gives the agent: pinned first, then by urgency, then oldest first */
+const compareNotes = (a: Note, b: Note) =>
+  Number(b.pinned) - Number(a.pinned)
+  || URGENCIES.indexOf(a.urgency) - URGENCIES.indexOf(b.urgency)
+  || a.createdAt - b.createdAt;
+
+/** Converted notes are done with too, so they're listed with the resolved ones */
+const filterOf = (note: Note): NoteFilter => (note.status === 'open' ? 'open' : 'resolved');
+
+const formatTime = (ms: number) =>
+  new Date(ms).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Links in a note open in a new tab instead of leaving the dashboard
+const markdownComponents = {
+  a: (props: React.AnchorHTMLAttributes<HTMLAnchorElement>) => <a {...props} target="_blank" rel="noreferrer" />,
+};
+
+export const NotesSection: React.FC<NotesSectionProps> = ({ notes, onAdd, onUpdate, onDelete, onRemoveAttachment, onReply, onSetStatus, onConvert, onOpenConverted, highlightId }) => {
   const [content, setContent] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [urgency, setUrgency] = useState<NoteUrgency>('normal');
+  const [wake, setWake] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [filter, setFilter] = useState<NoteFilter>('open');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const counts = { open: 0, resolved: 0 };
+  for (const note of notes) counts[filterOf(note)]++;
+  const visible = notes.filter((n) => filterOf(n) === filter).sort(compareNotes);
+
+  // Command palette jump: show the list the note is in, then scroll it into view
+  const highlighted = notes.find((n) => n.id === highlightId);
+  useEffect(() => {
+    if (highlighted) setFilter(filterOf(highlighted));
+  }, [highlighted]);
+
+  useEffect(() => {
+    if (!highlightId) return;
+    listRef.current?.querySelector(`[data-note-id="${highlightId}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlightId, filter]);
+
+  const startReply = (id: string) => {
+    setReplyingTo(replyingTo === id ? null : id);
+    setReply('');
+  };
+
+  const sendReply = (id: string) => {
+    if (!reply.trim()) return;
+    onReply(id, reply.trim());
+    setReplyingTo(null);
+    setReply('');
+  };
 
   const handleAdd = () => {
     if (!content.trim()) return;
-    onAdd(content);
+    onAdd(content, files, { urgency, wake: urgency === 'urgent' && wake });
     setContent('');
+    setFiles([]);
+    setUrgency('normal');
+  };
+
+  const addFiles = (list: FileList | null) => {
+    if (list && list.length > 0) setFiles((prev) => [...prev, ...Array.from(list)]);
+  };
+
+  // Pasted screenshots become attachments; pasted text is typed as usual
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (e.clipboardData.files.length === 0) return;
+    e.preventDefault();
+    addFiles(e.clipboardData.files);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -27,45 +113,233 @@ export const NotesSection: React.FC<NotesSectionProps> = ({ notes, onAdd, onDele
       <div className="flex items-center gap-2 mb-3">
         <div className="w-2 h-2 rounded-full bg-info"></div>
         <h3 className="text-sm font-bold text-textMain">Notes</h3>
+        <div className="ml-auto flex gap-1">
+          {(['open', 'resolved'] as NoteFilter[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-2 py-0.5 rounded-full text-[11px] border transition-colors ${
+                filter === f ? 'bg-primary/20 border-primary/50 text-white' : 'border-border text-textMuted hover:text-white'
+              }`}
+            >
+              {f === 'open' ? 'Open' : 'Resolved'} ({counts[f]})
+            </button>
+          ))}
+        </div>
       </div>
       
       <div className="mb-4">
-        <p className="text-xs text-textMuted mb-2">Zyga checks on every heartbeat</p>
+        <p className="text-xs text-textMuted mb-2">Zyga checks on every heartbeat, top to bottom</p>
         <div className="relative">
           <textarea
             className="w-full bg-surface border border-border rounded-md p-3 text-sm text-textMain focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-all resize-none h-20"
-            placeholder="Type a note..."
+            placeholder="Type a note... (markdown; paste or drop files to attach them)"
             value={content}
             onChange={(e) => setContent(e.target.value)}
             onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              if (e.dataTransfer.files.length === 0) return;
+              e.preventDefault();
+              addFiles(e.dataTransfer.files);
+            }}
           ></textarea>
         </div>
-        <button 
-          onClick={handleAdd}
-          disabled={!content.trim()}
-          className="mt-2 px-4 py-1.5 bg-primary hover:bg-primaryHover disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs font-semibold rounded shadow-md transition-colors"
-        >
-          Add
-        </button>
+        {files.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {files.map((file, i) => (
+              <span key={i} className="flex items-center gap-1 px-2 py-0.5 rounded bg-surface border border-border text-[11px] text-textMain">
+                📎 <span className="max-w-[140px] truncate">{file.name}</span>
+                <span className="text-textMuted">{formatSize(file.size)}</span>
+                <button onClick={() => setFiles((prev) => prev.filter((_, j) => j !== i))} className="text-textMuted hover:text-white" title="Remove">×</button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="mt-2 flex items-center gap-2">
+          <button 
+            onClick={handleAdd}
+            disabled={!content.trim()}
+            className="px-4 py-1.5 bg-primary hover:bg-primaryHover disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs font-semibold rounded shadow-md transition-colors"
+          >
+            Add
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="px-2 py-1.5 text-xs text-textMuted hover:text-white transition-colors">
+            📎 Attach
+          </button>
+          <select
+            value={urgency}
+            onChange={(e) => setUrgency(e.target.value as NoteUrgency)}
+            className="ml-auto bg-surface border border-border rounded px-1.5 py-1 text-xs text-textMain focus:outline-none focus:border-primary"
+            title="Urgency"
+          >
+            {URGENCIES.map((u) => <option key={u} value={u}>{URGENCY_LABELS[u]}</option>)}
+          </select>
+          {urgency === 'urgent' && (
+            <label className="flex items-center gap-1 text-[11px] text-textMuted" title="Run a heartbeat now instead of waiting for the next one">
+              <input type="checkbox" checked={wake} onChange={(e) => setWake(e.target.checked)} />
+              Wake Zyga now
+            </label>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
       </div>
 
-      <div className="space-y-2 overflow-y-auto pr-2 custom-scrollbar flex-1 min-h-0">
-        {notes.length === 0 && (
-           <div className="text-center py-6 text-textMuted text-xs italic">No active notes.</div>
+      <div ref={listRef} className="space-y-2 overflow-y-auto pr-2 custom-scrollbar flex-1 min-h-0">
+        {visible.length === 0 && (
+           <div className="text-center py-6 text-textMuted text-xs italic">{filter === 'open' ? 'No active notes.' : 'No resolved notes.'}</div>
         )}
-        {notes.map(note => (
-          <div key={note.id} className="relative group bg-surface border border-border rounded-md p-3 hover:border-gray-600 transition-all">
-            <p className="text-sm text-textMain whitespace-pre-wrap">{note.content}</p>
+        {visible.map(note => (
+          <div
+            key={note.id}
+            data-note-id={note.id}
+            className={`relative group bg-surface border rounded-md p-3 hover:border-gray-600 transition-all ${
+              highlightId === note.id ? 'border-primary ring-1 ring-primary' : 'border-border'
+            } ${note.urgency === 'urgent' && note.status === 'open' ? 'border-l-2 border-l-red-500' : ''}`}
+          >
+            <div className={`prose prose-invert note-markdown max-w-none break-words pr-12 ${note.status === 'open' ? 'text-textMain' : 'text-textMuted'}`}>
+              <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{note.content}</ReactMarkdown>
+            </div>
+            {note.attachments.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {note.attachments.map((a) => (
+                  <div key={a.id} className="relative group/attachment">
+                    {a.type.startsWith('image/') && a.type !== 'image/svg+xml' ? (
+                      <a href={a.url} target="_blank" rel="noreferrer" title={`${a.name} (${formatSize(a.size)})`}>
+                        <img src={a.url} alt={a.name} className="max-h-24 max-w-[160px] rounded border border-border object-cover" />
+                      </a>
+                    ) : (
+                      <a
+                        href={a.url}
+                        download={a.name}
+                        className="flex items-center gap-1 px-2 py-1 rounded bg-background border border-border text-[11px] text-textMain hover:border-primary"
+                      >
+                        📎 <span className="max-w-[140px] truncate">{a.name}</span>
+                        <span className="text-textMuted">{formatSize(a.size)}</span>
+                      </a>
+                    )}
+                    {note.status === 'open' && (
+                      <button
+                        onClick={() => onRemoveAttachment(note.id, a.id)}
+                        className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-surface border border-border text-[10px] leading-none text-textMuted hover:text-white opacity-0 group-hover/attachment:opacity-100"
+                        title="Remove attachment"
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex justify-between items-center mt-2">
               <div className="flex items-center gap-2">
-                <span className="text-[10px] text-textMuted">
-                  {new Date(note.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute:'2-digit'})}
-                </span>
+                {note.urgency !== 'normal' && (
+                  <span className={`text-[10px] font-semibold ${note.urgency === 'urgent' ? 'text-red-400' : 'text-textMuted'}`}>
+                    {note.urgency === 'urgent' ? '🔥 Urgent' : 'Low'}
+                  </span>
+                )}
+                <span className="text-[10px] text-textMuted">{formatTime(note.createdAt)}</span>
                 {note.seen && (
-                  <span className="text-[10px] text-textMuted italic">(seen by Zyga)</span>
+                  <span className="text-[10px] text-textMuted italic" title={note.seenAt ? `Seen ${formatTime(note.seenAt)}` : undefined}>
+                    (seen by Zyga)
+                  </span>
+                )}
+                {note.status === 'resolved' && <span className="text-[10px] text-green-400">✓ Resolved</span>}
+                {note.status === 'converted' && (
+                  <button
+                    onClick={() => onOpenConverted(note)}
+                    disabled={!note.convertedTo?.id}
+                    className="text-[10px] text-green-400 enabled:hover:underline"
+                  >
+                    → Converted to {note.convertedTo?.kind === 'doc' ? 'a doc' : 'a task'}
+                  </button>
                 )}
               </div>
+              <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                {note.status === 'open' && (
+                  <>
+                    <button onClick={() => startReply(note.id)} className="text-[11px] text-textMuted hover:text-white">Reply</button>
+                    <button onClick={() => onConvert(note.id, 'task')} title="Turn into a task" className="text-[11px] text-textMuted hover:text-white">→ Task</button>
+                    <button onClick={() => onConvert(note.id, 'doc')} title="Turn into a document" className="text-[11px] text-textMuted hover:text-white">→ Doc</button>
+                    <select
+                      value={note.urgency}
+                      onChange={(e) => onUpdate(note.id, { urgency: e.target.value as NoteUrgency })}
+                      className="bg-transparent text-[11px] text-textMuted hover:text-white focus:outline-none cursor-pointer"
+                      title="Urgency"
+                    >
+                      {URGENCIES.map((u) => <option key={u} value={u}>{URGENCY_LABELS[u]}</option>)}
+                    </select>
+                  </>
+                )}
+                <button
+                  onClick={() => onSetStatus(note.id, note.status === 'open' ? 'resolved' : 'open')}
+                  className="text-[11px] text-textMuted hover:text-white"
+                >
+                  {note.status === 'open' ? 'Resolve' : 'Reopen'}
+                </button>
+              </div>
             </div>
+
+            {note.replies.length > 0 && (
+              <div className="mt-2 ml-1 pl-3 border-l-2 border-border space-y-1.5">
+                {note.replies.map((r) => (
+                  <div key={r.id}>
+                    <div className="text-[10px] text-textMuted">
+                      <span className={`font-medium ${r.by === 'zyga' ? 'text-purple-400' : 'text-textMain'}`}>
+                        {r.by === 'zyga' ? '⚡ Zyga' : 'You'}
+                      </span>
+                      {' · '}{formatTime(r.at)}
+                    </div>
+                    <p className="text-xs text-textMain whitespace-pre-wrap break-words">{r.text}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {replyingTo === note.id && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  sendReply(note.id);
+                }}
+                className="mt-2 flex gap-2"
+              >
+                <input
+                  autoFocus
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Escape' && setReplyingTo(null)}
+                  placeholder="Reply..."
+                  className="flex-1 bg-background border border-border rounded-md px-2 py-1 text-xs text-white focus:outline-none focus:border-primary"
+                />
+                <button
+                  type="submit"
+                  disabled={!reply.trim()}
+                  className="px-2.5 py-1 bg-primary hover:bg-primaryHover disabled:opacity-50 text-white text-xs font-semibold rounded transition-colors"
+                >
+                  Send
+                </button>
+              </form>
+            )}
+            <button
+              onClick={() => onUpdate(note.id, { pinned: !note.pinned })}
+              className={`absolute top-2 right-8 p-1 text-xs transition-opacity ${
+                note.pinned ? 'opacity-100' : 'opacity-0 group-hover:opacity-40 hover:!opacity-100'
+              }`}
+              title={note.pinned ? 'Unpin' : 'Pin to the top'}
+            >
+              📌
+            </button>
             <button 
               onClick={() => onDelete(note.id)}
               className="absolute top-2 right-2 text-textMuted hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity p-1"
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { Recurrence } from '../types';
+import * as api from '../lib/api';
+
+type Rule = Pick<Recurrence, 'cron' | 'mode'>;
+
+interface RecurrenceEditorProps {
+  value: Rule | null; // null = doesn't repeat
+  onChange: (value: Rule | null) => void;
+  /** Told whether the current cron expression is valid (null = it is) */
+  onError?: (error: string | null) => void;
+}
+
+const PRESETS: { label: string; cron: string }[] = [
+  { label: 'Every day', cron: '0 9 * * *' },
+  { label: 'Every weekday', cron: '0 9 * * 1-5' },
+  { label: 'Every week (Monday)', cron: '0 9 * * 1' },
+  { label: 'Every month (1st)', cron: '0 9 1 * *' },
+];
+
+const MODE_OPTIONS: { value: Rule['mode']; label: string }[] = [
+  { value: 'after_done', label: 'after the previous one is done' },
+  { value: 'schedule', label: 'every time, even if the previous one is open' },
+];
+
+function formatRun(ms: number): string {
+  return new Date(ms).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, onError }) => {
+  const [customChosen, setCustomChosen] = useState(false); // "Custom" picked while the cron still matches a preset
+  const [upcoming, setUpcoming] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const cron = value?.cron ?? '';
+
+  // Validate and preview the schedule on the server (same parser the scheduler uses)
+  useEffect(() => {
+    if (!cron) {
+      setUpcoming([]);
+      setError(null);
+      onError?.(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api.previewCron(cron)
+        .then((next) => {
+          if (cancelled) return;
+          setUpcoming(next);
+          setError(null);
+          onError?.(null);
+        })
+        .catch((err) => {
+          if (cancelled) return;
+          setUpcoming([]);
+          setError(err.message);
+          onError?.(err.message);
+        });
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [cron]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const custom = !!value && (customChosen || !PRESETS.some((p) => p.cron === value.cron));
+  const selected = !value ? '' : custom ? 'custom' : value.cron;
+
+  const handlePreset = (choice: string) => {
+    if (choice === '') {
+      setCustomChosen(false);
+      onChange(null);
+    } else if (choice === 'custom') {
+      setCustomChosen(true);
+      onChange({ cron: value?.cron ?? PRESETS[0].cron, mode: value?.mode ?? 'after_done' });
+    } else {
+      setCustomChosen(false);
+      onChange({ cron: choice, mode: value?.mode ?? 'after_done' });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={selected}
+        onChange={(e) => handlePreset(e.target.value)}
+        className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm text-textMain focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors cursor-pointer"
+      >
+        <option value="" className="bg-[#161b22]">Doesn't repeat</option>
+        {PRESETS.map((p) => (
+          <option key={p.cron} value={p.cron} className="bg-[#161b22]">{p.label}, 9:00</option>
+        ))}
+        <option value="custom" className="bg-[#161b22]">Custom (cron)...</option>
+      </select>
+
+      {value && (
+        <>
+          {custom && (
+            <input
+              type="text"
+              value={value.cron}
+              onChange={(e) => onChange({ ...value, cron: e.target.value })}
+              placeholder="minute hour day month weekday, e.g. 0 9 1 * *"
+              spellCheck={false}
+              className={`w-full bg-background border rounded-md px-3 py-2 text-sm font-mono text-white focus:outline-none focus:ring-1 transition-colors ${
+                error ? 'border-red-500/60 focus:border-red-500 focus:ring-red-500' : 'border-border focus:border-primary focus:ring-primary'
+              }`}
+            />
+          )}
+          <div className="flex items-center gap-2 text-xs text-textMuted">
+            <span className="shrink-0">Next one comes</span>
+            <select
+              value={value.mode}
+              onChange={(e) => onChange({ ...value, mode: e.target.value as Rule['mode'] })}
+              className="flex-1 min-w-0 bg-background border border-border rounded-md px-2 py-1 text-xs text-textMain focus:outline-none focus:border-primary cursor-pointer"
+            >
+              {MODE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value} className="bg-[#161b22]">{opt.label}</option>
+              ))}
+            </select>
+          </div>
+          {error ? (
+            <p className="text-[11px] text-red-400">{error}</p>
+          ) : upcoming.length > 0 && (
+            <p className="text-[11px] text-textMuted">
+              🔁 Schedule: {upcoming.map(formatRun).join(' · ')}{upcoming.length > 1 ? ' ...' : ''}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
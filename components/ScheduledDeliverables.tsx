@@ -1,36 +1,117 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Deliverable } from '../types';
+import { DeliverableModal } from './DeliverableModal';
+import { useNow } from '../lib/useNow';
+import { relativeTime } from '../lib/docUtils';
+import type { DeliverableInput } from '../lib/api';
 
 interface ScheduledDeliverablesProps {
   items: Deliverable[];
+  onSave: (input: DeliverableInput, existing: Deliverable | null) => void;
+  onToggle: (id: string, enabled: boolean) => void;
+  onRun: (id: string) => void;
+  onDelete: (id: string) => void;
 }
 
-export const ScheduledDeliverables: React.FC<ScheduledDeliverablesProps> = ({ items }) => {
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** "in 2d 4h", "in 3h 12m", "in 8m" — two units at most */
+function countdown(ms: number): string {
+  if (ms < MINUTE) return 'any moment';
+  if (ms >= DAY) return `in ${Math.floor(ms / DAY)}d ${Math.floor((ms % DAY) / HOUR)}h`;
+  if (ms >= HOUR) return `in ${Math.floor(ms / HOUR)}h ${Math.floor((ms % HOUR) / MINUTE)}m`;
+  return `in ${Math.floor(ms / MINUTE)}m`;
+}
+
+export const ScheduledDeliverables: React.FC<ScheduledDeliverablesProps> = ({ items, onSave, onToggle, onRun, onDelete }) => {
+  const [editing, setEditing] = useState<Deliverable | 'new' | null>(null);
+  const now = useNow(30_000);
+
   return (
     <div className="flex flex-col h-full">
       <div className="flex items-center gap-2 mb-3">
         <div className="w-2 h-2 rounded-full bg-purple-500"></div>
         <h3 className="text-sm font-bold text-textMain">Scheduled Deliverables</h3>
+        <button
+          onClick={() => setEditing('new')}
+          className="ml-auto text-xs text-textMuted hover:text-white transition-colors"
+          title="New deliverable"
+        >
+          + New
+        </button>
       </div>
-      
+
       <div className="space-y-2 overflow-y-auto pr-2 custom-scrollbar flex-1">
+        {items.length === 0 && (
+          <div className="text-center py-6 text-textMuted text-xs italic">No deliverables yet.</div>
+        )}
         {items.map(item => (
-          <div key={item.id} className="flex items-center justify-between bg-surface border border-border hover:border-gray-600 rounded-md p-3 transition-colors group">
-            <div className="flex items-center gap-3">
-              <span className="text-xl bg-background rounded-md w-10 h-10 flex items-center justify-center border border-border">
-                {item.icon}
-              </span>
-              <div>
-                <div className="text-sm font-medium text-textMain">{item.title}</div>
-                <div className="text-xs text-textMuted">{item.frequency}</div>
+          <div
+            key={item.id}
+            className={`bg-surface border border-border hover:border-gray-600 rounded-md p-3 transition-colors group ${item.enabled ? '' : 'opacity-60'}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="text-xl bg-background rounded-md w-10 h-10 shrink-0 flex items-center justify-center border border-border">
+                  {item.icon}
+                </span>
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-textMain truncate" title={item.description || undefined}>{item.title}</div>
+                  <div className="text-xs text-textMuted" title={item.cron}>
+                    {item.frequency}
+                    {' · '}
+                    {!item.enabled ? 'Paused' : item.nextRun ? (
+                      <span title={new Date(item.nextRun).toLocaleString()}>next {countdown(item.nextRun - now)}</span>
+                    ) : 'not scheduled'}
+                  </div>
+                  <div className="text-[10px] text-textMuted">
+                    {item.lastRun ? `Last run ${relativeTime(new Date(item.lastRun).toISOString())}` : 'Never run'}
+                  </div>
+                </div>
+              </div>
+              <div className="flex flex-col items-end gap-2 shrink-0">
+                <button
+                  role="switch"
+                  aria-checked={item.enabled}
+                  onClick={() => onToggle(item.id, !item.enabled)}
+                  title={item.enabled ? 'Pause' : 'Enable'}
+                  className={`relative w-8 h-4 rounded-full transition-colors ${item.enabled ? 'bg-primary' : 'bg-[#30363d]'}`}
+                >
+                  <span className={`absolute top-0.5 w-3 h-3 rounded-full bg-white transition-all ${item.enabled ? 'left-[18px]' : 'left-0.5'}`} />
+                </button>
+                <span className="text-[10px] uppercase font-semibold bg-[#21262d] text-textMuted px-2 py-1 rounded border border-border">
+                  {item.tag}
+                </span>
               </div>
             </div>
-            <span className="text-[10px] uppercase font-semibold bg-[#21262d] text-textMuted px-2 py-1 rounded border border-border">
-              {item.tag}
-            </span>
+            <div className="flex gap-3 mt-2 pl-[52px] opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => onRun(item.id)} className="text-[11px] text-textMuted hover:text-white">▶ Run now</button>
+              <button onClick={() => setEditing(item)} className="text-[11px] text-textMuted hover:text-white">Edit</button>
+              <button
+                onClick={() => {
+                  if (confirm(`Delete the deliverable "${item.title}"?`)) onDelete(item.id);
+                }}
+                className="text-[11px] text-textMuted hover:text-red-400"
+              >
+                Delete
+              </button>
+            </div>
           </div>
         ))}
       </div>
+
+      {editing && (
+        <DeliverableModal
+          deliverable={editing === 'new' ? null : editing}
+          onClose={() => setEditing(null)}
+          onSave={(input, existing) => {
+            onSave(input, existing);
+            setEditing(null);
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -1,5 +1,7 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { AgentState } from '../types';
+import * as api from '../lib/api';
+import type { VersionStorage } from '../lib/api';
 
 interface SettingsPanelProps {
   agentName: string;
@@ -34,6 +36,12 @@ const DATA_PATHS = [
   { label: 'Documents', path: './data/documents' },
 ];
 
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   agentName,
   onAgentNameChange,
@@ -44,6 +52,29 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   onClose,
 }) => {
   const [nameInput, setNameInput] = useState(agentName);
+  const [versionStorage, setVersionStorage] = useState<VersionStorage | null>(null);
+  const [pruning, setPruning] = useState(false);
+  const [pruneResult, setPruneResult] = useState<string | null>(null);
+
+  useEffect(() => {
+    api.fetchVersionStorage().then(setVersionStorage).catch(() => setVersionStorage(null));
+  }, []);
+
+  const handlePrune = async () => {
+    setPruning(true);
+    setPruneResult(null);
+    try {
+      const result = await api.pruneVersions();
+      setVersionStorage(result);
+      setPruneResult(result.removed > 0
+        ? `Removed ${result.removed} ${result.removed === 1 ? 'snapshot' : 'snapshots'}, freed ${formatBytes(result.freedBytes)}`
+        : 'Nothing to prune');
+    } catch (err) {
+      setPruneResult(err instanceof Error ? err.message : 'Prune failed');
+    } finally {
+      setPruning(false);
+    }
+  };
 
   const handleNameBlur = () => {
     const trimmed = nameInput.trim();
@@ -151,6 +182,58 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
             </div>
           </div>
 
+          {/* Version History Storage */}
+          <div>
+            <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">Version History</label>
+            <div className="bg-background rounded-md border border-border p-3 space-y-2">
+              {versionStorage ? (
+                <>
+                  <div className="flex justify-between text-xs">
+                    <span className="text-textMuted">Storage used</span>
+                    <span className="text-textMain font-mono">
+                      {formatBytes(versionStorage.totalBytes)} / {formatBytes(versionStorage.policy.maxTotalBytes)}
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-[#30363d] overflow-hidden">
+                    <div
+                      className="h-full bg-primary"
+                      style={{ width: `${Math.min(100, (versionStorage.totalBytes / versionStorage.policy.maxTotalBytes) * 100)}%` }}
+                    />
+                  </div>
+                  <div className="flex justify-between text-xs">
+                    <span className="text-textMuted">Snapshots</span>
+                    <span className="text-textMain font-mono">
+                      {versionStorage.totalVersions} in {versionStorage.documents.length} {versionStorage.documents.length === 1 ? 'document' : 'documents'}
+                    </span>
+                  </div>
+                  {versionStorage.documents.slice(0, 3).map((d) => (
+                    <div key={d.filename} className="flex justify-between text-[10px] text-textMuted">
+                      <span className="truncate mr-2 font-mono">{d.filename}</span>
+                      <span className="shrink-0">{d.versions} · {formatBytes(d.bytes)}</span>
+                    </div>
+                  ))}
+                  <p className="text-[10px] text-textMuted leading-relaxed">
+                    Keeps the newest {versionStorage.policy.keepLatest} snapshots per document, then one per hour for {versionStorage.policy.hourly}h,
+                    per day for {versionStorage.policy.daily} days and per week for {versionStorage.policy.weekly} weeks.
+                    Saves by the same author within {versionStorage.policy.coalesceMinutes} minutes share a snapshot.
+                  </p>
+                </>
+              ) : (
+                <div className="text-xs text-textMuted">Loading...</div>
+              )}
+              <div className="flex items-center justify-between gap-2 pt-1">
+                <span className="text-[10px] text-textMuted truncate">{pruneResult}</span>
+                <button
+                  onClick={handlePrune}
+                  disabled={pruning}
+                  className="text-xs py-1.5 px-3 rounded-md border border-border text-textMain hover:bg-[#30363d] transition-colors disabled:opacity-50 shrink-0"
+                >
+                  {pruning ? 'Pruning…' : 'Prune now'}
+                </button>
+              </div>
+            </div>
+          </div>
+
           {/* About */}
           <div>
             <label className="block text-xs uppercase tracking-wide text-textMuted font-bold mb-2">About</label>
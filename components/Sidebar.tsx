@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { AgentStatus, AgentState } from '../types';
 import * as api from '../lib/api';
+import { useServerEvents } from '../lib/useServerEvents';
 
 interface SidebarProps {
   status: AgentStatus;
@@ -103,6 +104,7 @@ function getMemoryBarColor(percentage: number): string {
   return 'bg-[#3fb950]';
 }
 
+// Fallback polling intervals — only used while the /api/events stream is down
 const SYSTEM_POLL_INTERVAL = 30_000; // 30s
 const COST_POLL_INTERVAL = 60_000;   // 60s
 
@@ -129,27 +131,32 @@ export const Sidebar: React.FC<SidebarProps> = ({ status, agentName = 'Zyga', co
   const [nextHeartbeat, setNextHeartbeat] = useState<number | null>(null);
   const [heartbeatAgo, setHeartbeatAgo] = useState<string>('—');
 
-  // ── Poll /api/system-info ──
+  // ── /api/system-info (pushed every 30s over the event stream) ──
+  const applySystemInfo = useCallback((info: api.SystemInfo) => {
+    setMemUsed(info.memory.used);
+    setMemTotal(info.memory.total);
+    setMemPercent(info.memory.percentage);
+    setUptimeSeconds(info.uptimeSeconds);
+    setPing(info.ping);
+    lastFetchedUptime.current = { seconds: info.uptimeSeconds, at: Date.now() };
+  }, []);
+
   const fetchSystemInfo = useCallback(async () => {
     try {
-      const info = await api.fetchSystemInfo();
-      setMemUsed(info.memory.used);
-      setMemTotal(info.memory.total);
-      setMemPercent(info.memory.percentage);
-      setUptimeSeconds(info.uptimeSeconds);
-      setPing(info.ping);
-      lastFetchedUptime.current = { seconds: info.uptimeSeconds, at: Date.now() };
+      applySystemInfo(await api.fetchSystemInfo());
     } catch {
       // keep last known values
     }
-  }, []);
+  }, [applySystemInfo]);
 
   useEffect(() => {
     fetchSystemInfo();
-    const id = setInterval(fetchSystemInfo, SYSTEM_POLL_INTERVAL);
-    return () => clearInterval(id);
   }, [fetchSystemInfo]);
 
+  useServerEvents(['system-info'], (event) => {
+    if (event.type === 'system-info') applySystemInfo(event.data);
+  }, { fallback: fetchSystemInfo, fallbackInterval: SYSTEM_POLL_INTERVAL });
+
   // ── Live uptime tick (every 60s between polls) ──
   useEffect(() => {
     const id = setInterval(() => {
@@ -161,7 +168,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ status, agentName = 'Zyga', co
     return () => clearInterval(id);
   }, []);
 
-  // ── Poll /api/overview for today's cost ──
+  // ── /api/overview for today's cost (refetched on overview.changed) ──
   const fetchCost = useCallback(async () => {
     try {
       const data = await api.fetchOverview();
@@ -173,24 +180,31 @@ export const Sidebar: React.FC<SidebarProps> = ({ status, agentName = 'Zyga', co
 
   useEffect(() => {
     fetchCost();
-    const id = setInterval(fetchCost, COST_POLL_INTERVAL);
-    return () => clearInterval(id);
   }, [fetchCost]);
 
-  // ── Fetch heartbeat status on mount ──
+  useServerEvents(['overview.changed'], fetchCost, { fallback: fetchCost, fallbackInterval: COST_POLL_INTERVAL });
+
+  // ── Heartbeat status: fetched on mount, then pushed whenever a heartbeat runs ──
+  const applyHeartbeat = useCallback((hb: api.HeartbeatStatus) => {
+    setLastHeartbeat(new Date(hb.lastRun).getTime());
+    setNextHeartbeat(new Date(hb.nextRun).getTime());
+    if (hb.result) setHeartbeatResult(hb.result);
+  }, []);
+
   const fetchHeartbeat = useCallback(async () => {
     try {
-      const hb = await api.fetchHeartbeatStatus();
-      setLastHeartbeat(new Date(hb.lastRun).getTime());
-      setNextHeartbeat(new Date(hb.nextRun).getTime());
-      if (hb.result) setHeartbeatResult(hb.result);
+      applyHeartbeat(await api.fetchHeartbeatStatus());
     } catch { /* ignore */ }
-  }, []);
+  }, [applyHeartbeat]);
 
   useEffect(() => {
     fetchHeartbeat();
   }, [fetchHeartbeat]);
 
+  useServerEvents(['heartbeat'], (event) => {
+    if (event.type === 'heartbeat') applyHeartbeat(event.data);
+  }, { fallback: fetchHeartbeat });
+
   // ── Trigger heartbeat ──
   const handleHeartbeat = useCallback(async () => {
     if (heartbeatLoading) return;
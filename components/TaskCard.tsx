@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
-import { Task } from '../types';
+import { Task, ColumnKind } from '../types';
+import { dueBadge, isOverdue } from '../lib/dueDates';
+import { checklistProgress } from '../lib/checklist';
+import { labelColor } from '../lib/labels';
 
 interface TaskCardProps {
   task: Task;
@@ -7,9 +10,19 @@ interface TaskCardProps {
   onDelete: (id: string) => void;
   onEdit: (task: Task) => void;
   onArchive?: (id: string) => void;
+  kind?: ColumnKind; // kind of the task's column
+  blockers?: string[]; // titles of unfinished prerequisites
+  selected?: boolean;
+  onToggleSelect?: (id: string) => void; // shift / ctrl / cmd-click
+  canMoveBack?: boolean;
+  canMoveForward?: boolean;
+  now?: number; // for due-date countdowns; defaults to render time
 }
 
-export const TaskCard: React.FC<TaskCardProps> = ({ task, onMove, onDelete, onEdit, onArchive }) => {
+export const TaskCard: React.FC<TaskCardProps> = ({
+  task, onMove, onDelete, onEdit, onArchive, kind = 'open', blockers = [], selected = false, onToggleSelect,
+  canMoveBack = true, canMoveForward = true, now = Date.now(),
+}) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const getPriorityBadge = (p: string) => {
@@ -21,8 +34,14 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onMove, onDelete, onEd
     }
   };
 
-  const isArchived = task.status === 'archive';
-  const isDone = task.status === 'done';
+  const isArchived = kind === 'archive';
+  const closed = kind !== 'open';
+  const due = dueBadge(task, now, closed);
+  const overdue = isOverdue(task, now, closed);
+  const reminderPending = !!task.reminderAt && task.reminderAt > now && !closed;
+  const blocked = blockers.length > 0 && !closed;
+  const progress = checklistProgress(task.checklist);
+  const customFields = Object.entries(task.customFields ?? {});
 
   const handleDragStart = (e: React.DragEvent) => {
     e.dataTransfer.setData('taskId', task.id);
@@ -39,12 +58,17 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onMove, onDelete, onEd
       draggable={!isArchived}
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
-      onClick={() => onEdit(task)}
+      onClick={(e) => {
+        if (onToggleSelect && (e.shiftKey || e.metaKey || e.ctrlKey)) onToggleSelect(task.id);
+        else onEdit(task);
+      }}
       className={`
         group relative bg-[#21262d] hover:bg-[#30363d] border border-border rounded-lg p-3 mb-2
         transition-all duration-200 shadow-sm
         ${!isArchived ? 'cursor-grab active:cursor-grabbing' : ''}
         ${isDragging ? 'task-card-dragging' : ''}
+        ${overdue ? 'border-l-2 border-l-red-500' : ''}
+        ${selected ? 'ring-2 ring-primary bg-[#2a2f3a]' : ''}
       `}
     >
       {/* Labels / Priority + Created By */}
@@ -52,6 +76,14 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onMove, onDelete, onEd
         <span className={`text-[10px] px-2 py-0.5 rounded-full border font-medium uppercase tracking-wide ${getPriorityBadge(task.priority)}`}>
           {task.priority}
         </span>
+        {blocked && (
+          <span
+            className="text-[10px] px-2 py-0.5 rounded-full border font-medium bg-yellow-500/15 text-yellow-400 border-yellow-500/30"
+            title={`Waiting on: ${blockers.join(', ')}`}
+          >
+            ⛔ Blocked{blockers.length > 1 ? ` by ${blockers.length}` : ''}
+          </span>
+        )}
         {task.createdBy && (
           <span className={`text-[10px] px-2 py-0.5 rounded-full border font-medium ${
             task.createdBy === 'zyga'
@@ -61,8 +93,41 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onMove, onDelete, onEd
             {task.createdBy === 'zyga' ? '⚡ zyga' : '👤 user'}
           </span>
         )}
+        {due && (
+          <span
+            className={`text-[10px] px-2 py-0.5 rounded-full border font-medium ${due.className}`}
+            title={`Due ${new Date(task.dueAt!).toLocaleString()}`}
+          >
+            {due.label}
+          </span>
+        )}
+        {task.assignee && (
+          <span className="text-[10px] px-2 py-0.5 rounded-full border font-medium bg-purple-500/10 text-purple-300 border-purple-500/30" title="Assignee">
+            @{task.assignee}
+          </span>
+        )}
+        {task.recurrence && (
+          <span className="text-[10px] text-textMuted" title={`Repeats (${task.recurrence.cron})${task.recurrence.mode === 'after_done' ? ' once done' : ''}`}>
+            🔁
+          </span>
+        )}
+        {reminderPending && (
+          <span className="text-[10px] text-textMuted" title={`Reminder ${new Date(task.reminderAt!).toLocaleString()}`}>
+            🔔
+          </span>
+        )}
       </div>
 
+      {(task.labels ?? []).length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {task.labels!.map((label) => (
+            <span key={label} className={`text-[10px] px-1.5 py-px rounded border font-medium ${labelColor(label)}`}>
+              {label}
+            </span>
+          ))}
+        </div>
+      )}
+
       <div className="flex items-start gap-3">
         <div className="flex-1 min-w-0">
           <h4 className="text-sm font-medium text-textMain leading-snug break-words">
@@ -73,14 +138,37 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onMove, onDelete, onEd
               {task.description}
             </p>
           )}
+          {customFields.length > 0 && (
+            <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-2 gap-y-0.5 text-[10px]">
+              {customFields.map(([name, value]) => (
+                <React.Fragment key={name}>
+                  <dt className="text-textMuted/70 truncate max-w-[6rem]">{name}</dt>
+                  <dd className="text-textMuted truncate">{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
         </div>
       </div>
 
+      {/* Checklist progress */}
+      {progress && (
+        <div className="mt-2 flex items-center gap-2" title={`${progress.done} of ${progress.total} checklist items done`}>
+          <div className="flex-1 h-1 bg-[#0d1117] rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${progress.done === progress.total ? 'bg-green-500' : 'bg-primary'}`}
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+          <span className="text-[10px] text-textMuted tabular-nums">☑ {progress.done}/{progress.total}</span>
+        </div>
+      )}
+
       {/* Footer Info (Timestamp) */}
       <div className="mt-3 flex items-center justify-between text-[10px] text-textMuted/60">
         <span>{new Date(task.createdAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
         {/* Archive button for Done cards */}
-        {isDone && onArchive && (
+        {kind === 'done' && onArchive && (
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -98,7 +186,7 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onMove, onDelete, onEd
 
       {/* Hover Actions */}
       <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center space-x-1 bg-[#21262d] pl-1 rounded-bl-md" onClick={(e) => e.stopPropagation()}>
-        {!isArchived && task.status !== 'todo' && (
+        {!isArchived && canMoveBack && (
           <button
             onClick={(e) => { e.stopPropagation(); onMove(task.id, 'back'); }}
             className="p-1 hover:bg-gray-700 rounded text-textMuted hover:text-white"
@@ -107,7 +195,7 @@ export const TaskCard: React.FC<TaskCardProps> = ({ task, onMove, onDelete, onEd
             <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="15 18 9 12 15 6"></polyline></svg>
           </button>
         )}
-        {!isArchived && (
+        {!isArchived && canMoveForward && (
           <button
             onClick={(e) => { e.stopPropagation(); onMove(task.id, 'forward'); }}
             className="p-1 hover:bg-gray-700 rounded text-textMuted hover:text-white"
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { ChecklistItem, Assignee } from '../types';
+import * as api from '../lib/api';
+import { checklistProgress } from '../lib/checklist';
+
+interface TaskChecklistProps {
+  /** Saved task: every change goes straight to the server. Without one the list is a local draft. */
+  taskId?: string;
+  items: ChecklistItem[];
+  onChange: (items: ChecklistItem[]) => void;
+}
+
+const ASSIGNEE_CYCLE: (Assignee | null)[] = [null, 'user', 'zyga'];
+
+const ASSIGNEE_STYLES: Record<Assignee, string> = {
+  user: 'bg-gray-500/15 text-gray-400 border-gray-500/30',
+  zyga: 'bg-purple-500/15 text-purple-400 border-purple-500/30',
+};
+
+export const TaskChecklist: React.FC<TaskChecklistProps> = ({ taskId, items, onChange }) => {
+  const [text, setText] = useState('');
+  const [assignee, setAssignee] = useState<Assignee | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Show the change right away; for a saved task, persist it and adopt the server's list
+  const apply = (next: ChecklistItem[], request?: () => Promise<ChecklistItem[] | void>) => {
+    const previous = items;
+    onChange(next);
+    if (!taskId || !request) return;
+    setError(null);
+    request()
+      .then((saved) => { if (saved) onChange(saved); })
+      .catch((err) => {
+        console.error('Checklist update failed', err);
+        setError(err.message);
+        onChange(previous);
+      });
+  };
+
+  const handleAdd = () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    const draft: ChecklistItem = { id: `draft-${Date.now()}`, text: trimmed, done: false, assignee };
+    apply([...items, draft], () => api.addChecklistItem(taskId!, { text: trimmed, assignee }));
+    setText('');
+  };
+
+  const handleToggle = (item: ChecklistItem) => {
+    const done = !item.done;
+    apply(
+      items.map((i) => (i.id === item.id ? { ...i, done, doneAt: done ? Date.now() : null } : i)),
+      () => api.updateChecklistItem(taskId!, item.id, { done }),
+    );
+  };
+
+  const handleCycleAssignee = (item: ChecklistItem) => {
+    const next = ASSIGNEE_CYCLE[(ASSIGNEE_CYCLE.indexOf(item.assignee ?? null) + 1) % ASSIGNEE_CYCLE.length];
+    apply(
+      items.map((i) => (i.id === item.id ? { ...i, assignee: next } : i)),
+      () => api.updateChecklistItem(taskId!, item.id, { assignee: next }),
+    );
+  };
+
+  const handleDelete = (item: ChecklistItem) => {
+    apply(items.filter((i) => i.id !== item.id), () => api.deleteChecklistItem(taskId!, item.id));
+  };
+
+  const handleDrop = (targetId: string) => {
+    const from = items.findIndex((i) => i.id === dragId);
+    const to = items.findIndex((i) => i.id === targetId);
+    setDragId(null);
+    if (from < 0 || to < 0 || from === to) return;
+    const next = [...items];
+    next.splice(to, 0, next.splice(from, 1)[0]);
+    apply(next, () => api.reorderChecklist(taskId!, next.map((i) => i.id)));
+  };
+
+  const progress = checklistProgress(items);
+
+  return (
+    <div>
+      {progress && (
+        <div className="flex items-center gap-2 mb-2">
+          <div className="flex-1 h-1.5 bg-[#0d1117] rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all duration-300 ${progress.done === progress.total ? 'bg-green-500' : 'bg-primary'}`}
+              style={{ width: `${progress.percent}%` }}
+            />
+          </div>
+          <span className="text-[10px] text-textMuted tabular-nums">{progress.done}/{progress.total}</span>
+        </div>
+      )}
+
+      <ul className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+        {items.map((item) => (
+          <li
+            key={item.id}
+            draggable
+            onDragStart={() => setDragId(item.id)}
+            onDragEnd={() => setDragId(null)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => { e.preventDefault(); handleDrop(item.id); }}
+            className={`group flex items-center gap-2 px-2 py-1 rounded-md hover:bg-[#21262d] cursor-grab active:cursor-grabbing ${
+              dragId === item.id ? 'opacity-40' : ''
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={item.done}
+              onChange={() => handleToggle(item)}
+              className="accent-primary cursor-pointer shrink-0"
+            />
+            <span className={`flex-1 min-w-0 text-sm break-words ${item.done ? 'line-through text-textMuted' : 'text-textMain'}`}>
+              {item.text}
+            </span>
+            <button
+              type="button"
+              onClick={() => handleCycleAssignee(item)}
+              className={`text-[10px] px-1.5 py-0.5 rounded-full border font-medium shrink-0 ${
+                item.assignee ? ASSIGNEE_STYLES[item.assignee] : 'border-dashed border-border text-textMuted/60 opacity-0 group-hover:opacity-100'
+              }`}
+              title="Change assignee"
+            >
+              {item.assignee === 'zyga' ? '⚡ zyga' : item.assignee === 'user' ? '👤 user' : '+ assign'}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDelete(item)}
+              className="text-textMuted hover:text-red-400 text-xs opacity-0 group-hover:opacity-100 shrink-0"
+              title="Remove item"
+            >
+              ✕
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2 mt-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault(); // don't submit the task form
+              handleAdd();
+            }
+          }}
+          placeholder="Add a step..."
+          className="flex-1 min-w-0 bg-background border border-border rounded-md px-3 py-1.5 text-sm text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors"
+        />
+        <select
+          value={assignee ?? ''}
+          onChange={(e) => setAssignee((e.target.value || null) as Assignee | null)}
+          className="bg-background border border-border rounded-md px-2 py-1.5 text-xs text-textMain focus:outline-none focus:border-primary cursor-pointer"
+        >
+          <option value="">Unassigned</option>
+          <option value="user">👤 user</option>
+          <option value="zyga">⚡ zyga</option>
+        </select>
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={!text.trim()}
+          className="px-3 py-1.5 rounded-md text-xs font-medium bg-[#21262d] border border-border text-textMain hover:border-primary disabled:opacity-40 transition-colors"
+        >
+          Add
+        </button>
+      </div>
+      {error && <p className="text-[11px] text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { TaskFilter, filterKey } from '../lib/taskFilters';
+import { labelColor } from '../lib/labels';
+
+interface TaskFilterBarProps {
+  options: TaskFilter[];
+  active: TaskFilter[];
+  onToggle: (filter: TaskFilter) => void;
+  onClear: () => void;
+  shown: number;
+  total: number;
+}
+
+function chipText(f: TaskFilter): string {
+  if (f.kind === 'assignee') return `@${f.value}`;
+  if (f.kind === 'field') return `${f.name}: ${f.value}`;
+  return f.value;
+}
+
+export const TaskFilterBar: React.FC<TaskFilterBarProps> = ({ options, active, onToggle, onClear, shown, total }) => {
+  const activeKeys = new Set(active.map(filterKey));
+  // Active filters stay visible even if no task matches them any more
+  const chips = [...options, ...active.filter((f) => !options.some((o) => filterKey(o) === filterKey(f)))];
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2 mb-3 shrink-0 overflow-x-auto custom-scrollbar pb-1">
+      <span className="text-[10px] uppercase tracking-wider font-bold text-textMuted shrink-0">Filter</span>
+      {chips.map((f) => {
+        const isActive = activeKeys.has(filterKey(f));
+        const base = f.kind === 'label'
+          ? labelColor(f.value)
+          : f.kind === 'assignee'
+            ? 'bg-purple-500/10 text-purple-300 border-purple-500/30'
+            : 'bg-gray-500/10 text-gray-300 border-gray-500/30';
+        return (
+          <button
+            key={filterKey(f)}
+            onClick={() => onToggle(f)}
+            className={`text-[11px] px-2.5 py-1 rounded-full border font-medium whitespace-nowrap transition-all shrink-0 ${base} ${
+              isActive ? 'ring-2 ring-primary/60' : active.length > 0 ? 'opacity-50 hover:opacity-100' : 'hover:brightness-125'
+            }`}
+          >
+            {chipText(f)}
+          </button>
+        );
+      })}
+      {active.length > 0 && (
+        <>
+          <span className="text-[11px] text-textMuted shrink-0 ml-1">{shown} of {total}</span>
+          <button onClick={onClear} className="text-[11px] text-textMuted hover:text-white shrink-0 underline-offset-2 hover:underline">
+            Clear
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
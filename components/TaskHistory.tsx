@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import * as api from '../lib/api';
+import type { TaskHistoryEntry } from '../lib/api';
+import { BoardColumn } from '../types';
+import { columnName } from '../lib/board';
+import { relativeTime } from '../lib/docUtils';
+import { useServerEvents } from '../lib/useServerEvents';
+
+interface TaskHistoryProps {
+  taskId: string;
+  columns: BoardColumn[]; // to name the columns in status entries (deleted ones show their key)
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  due_at: 'due date',
+  reminder_at: 'reminder',
+  labels: 'labels',
+  assignee: 'assignee',
+  custom_fields: 'custom fields',
+  depends_on: 'dependencies',
+  recurrence: 'repeat schedule',
+};
+
+const PRIORITY_LABELS: Record<string, string> = { high: 'High', medium: 'Medium', low: 'Low' };
+
+/** "a", "a and b", "a, b and c" */
+function joinWords(words: string[]): string {
+  return words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+/** One-line description of a non-comment entry */
+function describe(entry: TaskHistoryEntry, columns: BoardColumn[]): string {
+  switch (entry.type) {
+    case 'created':
+      if (entry.recurred_from) return `repeated this task — the next occurrence is in ${columnName(columns, entry.status ?? '')}`;
+      return entry.from_note
+        ? `created this task from a note, in ${columnName(columns, entry.status ?? '')}`
+        : `created this task in ${columnName(columns, entry.status ?? '')}`;
+    case 'status':
+      return `moved it from ${columnName(columns, entry.from ?? '')} to ${columnName(columns, entry.to ?? '')}`;
+    case 'priority':
+      return `changed priority from ${PRIORITY_LABELS[entry.from ?? ''] ?? entry.from} to ${PRIORITY_LABELS[entry.to ?? ''] ?? entry.to}`;
+    case 'edited': {
+      const fields = entry.fields ?? [];
+      if (fields.length === 1 && fields[0].field === 'title') return `renamed it to “${fields[0].to}”`;
+      if (fields.length === 1 && !fields[0].to) return `cleared the ${FIELD_LABELS[fields[0].field]}`;
+      return `edited the ${joinWords(fields.map((f) => FIELD_LABELS[f.field] ?? f.field))}`;
+    }
+    case 'checklist':
+      if (entry.action === 'added') return `added “${entry.text}” to the checklist`;
+      if (entry.action === 'removed') return `removed “${entry.text}” from the checklist`;
+      return `${entry.action} “${entry.text}”`;
+    case 'deleted':
+      return 'deleted this task';
+    case 'restored':
+      return `restored it from the trash to ${columnName(columns, entry.status ?? '')}`;
+    default:
+      return entry.type;
+  }
+}
+
+const Author: React.FC<{ by: TaskHistoryEntry['by'] }> = ({ by }) => (
+  <span className={`font-medium ${by === 'zyga' ? 'text-purple-400' : 'text-textMain'}`}>
+    {by === 'zyga' ? '⚡ Zyga' : 'You'}
+  </span>
+);
+
+export const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId, columns }) => {
+  const [entries, setEntries] = useState<TaskHistoryEntry[] | null>(null);
+  const [comment, setComment] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const load = useCallback(() => {
+    api.fetchTaskHistory(taskId)
+      .then((h) => { setEntries(h); setError(null); })
+      .catch((err) => setError(err.message));
+  }, [taskId]);
+
+  useEffect(() => { load(); }, [load]);
+  useServerEvents(['task-history.changed'], load, { fallback: load });
+
+  // Keep the newest entry in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [entries?.length]);
+
+  const handleComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = comment.trim();
+    if (!text || posting) return;
+    setPosting(true);
+    try {
+      const entry = await api.addTaskComment(taskId, text);
+      setEntries((prev) => (prev && !prev.some((x) => x.id === entry.id) ? [...prev, entry] : prev));
+      setComment('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add comment');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-0 h-full">
+      <h4 className="text-xs uppercase tracking-wide text-textMuted font-bold mb-3 shrink-0">Activity</h4>
+
+      <div className="flex-1 min-h-[8rem] overflow-y-auto custom-scrollbar pr-1">
+        {entries === null && !error && <p className="text-xs text-textMuted">Loading...</p>}
+        {entries?.length === 0 && <p className="text-xs text-textMuted/60 italic">No activity yet.</p>}
+        <ol className="relative border-l border-border ml-1.5 space-y-3">
+          {entries?.map((entry) => (
+            <li key={entry.id} className="pl-4 relative">
+              <span
+                className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full border-2 border-surface ${
+                  entry.type === 'comment' ? 'bg-primary' : entry.by === 'zyga' ? 'bg-purple-400' : 'bg-gray-500'
+                }`}
+              />
+              {entry.type === 'comment' ? (
+                <div>
+                  <div className="text-[11px] text-textMuted">
+                    <Author by={entry.by} /> · <span title={new Date(entry.at).toLocaleString()}>{relativeTime(entry.at)}</span>
+                  </div>
+                  <p className="mt-1 text-sm text-textMain bg-[#21262d] border border-border rounded-lg px-3 py-2 whitespace-pre-wrap break-words">
+                    {entry.text}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-xs text-textMuted leading-relaxed break-words">
+                  <Author by={entry.by} /> {describe(entry, columns)}{' '}
+                  <span className="text-textMuted/60" title={new Date(entry.at).toLocaleString()}>· {relativeTime(entry.at)}</span>
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={handleComment} className="mt-3 shrink-0">
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleComment(e);
+          }}
+          placeholder="Write a comment..."
+          className="w-full bg-background border border-border rounded-md px-3 py-2 text-sm text-white focus:outline-none focus:border-primary focus:ring-1 focus:ring-primary transition-colors h-16 resize-none"
+        />
+        <div className="flex items-center justify-between mt-1.5">
+          <span className="text-[10px] text-red-400 truncate">{error}</span>
+          <button
+            type="submit"
+            disabled={!comment.trim() || posting}
+            className="px-3 py-1.5 rounded-md text-xs font-medium bg-primary hover:bg-primaryHover text-white disabled:opacity-40 transition-colors"
+          >
+            {posting ? 'Posting...' : 'Comment'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
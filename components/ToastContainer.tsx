@@ -1,9 +1,11 @@
 import React from 'react';
+import { ToastAction } from '../types';
 
 interface Toast {
   id: string;
   message: string;
   timestamp: number;
+  action?: ToastAction;
 }
 
 interface ToastContainerProps {
@@ -23,6 +25,17 @@ export const ToastContainer: React.FC<ToastContainerProps> = ({ toasts, onDismis
         >
           <span className="text-[#8b5cf6] text-sm mt-0.5 shrink-0">⚡</span>
           <p className="text-xs text-textMain leading-relaxed flex-1">{toast.message}</p>
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action!.onClick();
+                onDismiss(toast.id);
+              }}
+              className="text-xs font-semibold text-primary hover:text-white shrink-0"
+            >
+              {toast.action.label}
+            </button>
+          )}
           <button
             onClick={() => onDismiss(toast.id)}
             className="text-textMuted hover:text-white text-xs shrink-0 ml-1"
@@ -0,0 +1,253 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import * as api from '../lib/api';
+import type { VersionEntry, VersionDiff, VersionDiffLine, WordSegment } from '../lib/api';
+import { relativeTime } from '../lib/docUtils';
+
+interface VersionDiffDialogProps {
+  docId: string;
+  title: string;
+  versions: VersionEntry[];
+  initialFrom: string;
+  initialTo?: string;
+  onClose: () => void;
+}
+
+type ViewMode = 'unified' | 'split';
+
+/** Unchanged lines kept around each change; longer unchanged runs collapse */
+const CONTEXT_LINES = 3;
+
+const LINE_STYLES: Record<VersionDiffLine['op'], string> = {
+  equal: 'text-textMuted',
+  removed: 'bg-red-500/10 text-red-300',
+  added: 'bg-green-500/10 text-green-300',
+};
+
+const WORD_STYLES: Record<WordSegment['op'], string> = {
+  equal: '',
+  removed: 'bg-red-500/30 rounded-sm',
+  added: 'bg-green-500/30 rounded-sm',
+};
+
+const GUTTER = 'w-10 shrink-0 text-right pr-2 select-none text-textMuted/50';
+
+type Row =
+  | { kind: 'line'; line: VersionDiffLine }
+  | { kind: 'pair'; left: VersionDiffLine | null; right: VersionDiffLine | null }
+  | { kind: 'gap'; start: number; count: number };
+
+function versionLabel(ref: string, versions: VersionEntry[]): string {
+  if (ref === 'current') return 'Current';
+  const v = versions.find((x) => x.file === ref);
+  if (!v) return ref;
+  const author = v.author === 'User' ? 'You' : (v.author || 'OpenClaw');
+  return `${new Date(v.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })} · ${author}`;
+}
+
+const LineText: React.FC<{ line: VersionDiffLine }> = ({ line }) => {
+  if (!line.words) return <>{line.text || ' '}</>;
+  return (
+    <>
+      {line.words.map((w, i) => (
+        <span key={i} className={WORD_STYLES[w.op]}>{w.text}</span>
+      ))}
+    </>
+  );
+};
+
+/** Indices of lines shown in full — every change plus CONTEXT_LINES either side */
+function visibleLines(lines: VersionDiffLine[]): boolean[] {
+  const visible = lines.map(() => false);
+  lines.forEach((l, i) => {
+    if (l.op === 'equal') return;
+    for (let k = Math.max(0, i - CONTEXT_LINES); k <= Math.min(lines.length - 1, i + CONTEXT_LINES); k++) visible[k] = true;
+  });
+  return visible;
+}
+
+export const VersionDiffDialog: React.FC<VersionDiffDialogProps> = ({
+  docId,
+  title,
+  versions,
+  initialFrom,
+  initialTo = 'current',
+  onClose,
+}) => {
+  const [from, setFrom] = useState(initialFrom);
+  const [to, setTo] = useState(initialTo);
+  const [mode, setMode] = useState<ViewMode>('unified');
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    setExpanded(new Set());
+    api.fetchVersionDiff(docId, from, to)
+      .then((d) => { if (!cancelled) setDiff(d); })
+      .catch((err) => { if (!cancelled) { setDiff(null); setError(err.message); } });
+    return () => { cancelled = true; };
+  }, [docId, from, to]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  // ── Build display rows: collapse long unchanged runs, pair changes up for split view ──
+  const rows = useMemo<Row[]>(() => {
+    if (!diff) return [];
+    const { lines } = diff;
+    const visible = visibleLines(lines);
+    const out: Row[] = [];
+    let k = 0;
+    while (k < lines.length) {
+      if (!visible[k] && !expanded.has(k)) {
+        const start = k;
+        while (k < lines.length && !visible[k]) k++;
+        out.push({ kind: 'gap', start, count: k - start });
+        continue;
+      }
+      if (mode === 'unified' || lines[k].op === 'equal') {
+        out.push({ kind: 'line', line: lines[k++] });
+        continue;
+      }
+      const removed: VersionDiffLine[] = [];
+      const added: VersionDiffLine[] = [];
+      while (k < lines.length && lines[k].op !== 'equal') {
+        (lines[k].op === 'removed' ? removed : added).push(lines[k]);
+        k++;
+      }
+      for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+        out.push({ kind: 'pair', left: removed[r] ?? null, right: added[r] ?? null });
+      }
+    }
+    return out;
+  }, [diff, mode, expanded]);
+
+  const expandGap = (start: number, count: number) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      for (let i = start; i < start + count; i++) next.add(i);
+      return next;
+    });
+  };
+
+  const options = [{ value: 'current', label: 'Current' }, ...versions.map((v) => ({ value: v.file, label: versionLabel(v.file, versions) }))];
+  const selectClass = 'bg-background border border-border rounded-md px-2 py-1 text-xs text-textMain focus:outline-none focus:border-primary max-w-[14rem]';
+  const changed = diff ? diff.stats.added + diff.stats.removed : 0;
+  const fromVersion = versions.find((v) => v.file === from);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-surface border border-border rounded-xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col overflow-hidden animate-fade-in-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 flex justify-between items-center gap-4 border-b border-border bg-[#1c2128] shrink-0">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-white truncate">Compare versions · {title}</h3>
+            <div className="flex items-center gap-2 mt-1.5">
+              <select value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass}>
+                {options.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              <span className="text-textMuted text-xs">→</span>
+              <select value={to} onChange={(e) => setTo(e.target.value)} className={selectClass}>
+                {options.map((o) => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+              {diff && (
+                <span className="text-xs ml-2">
+                  <span className="text-green-400">+{diff.stats.added}</span>{' '}
+                  <span className="text-red-400">−{diff.stats.removed}</span>
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-3 shrink-0">
+            <div className="flex items-center gap-1 bg-background border border-border rounded-md p-0.5">
+              {(['unified', 'split'] as const).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`px-3 py-1 rounded text-xs font-medium transition-colors capitalize ${
+                    mode === m ? 'bg-primary/20 text-primary' : 'text-textMuted hover:text-textMain'
+                  }`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
+            <button onClick={onClose} className="text-textMuted hover:text-white text-sm" title="Close">✕</button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-auto custom-scrollbar font-mono text-xs">
+          {error ? (
+            <div className="p-6 text-red-400">{error}</div>
+          ) : !diff ? (
+            <div className="p-6 text-textMuted">Loading...</div>
+          ) : changed === 0 ? (
+            <div className="p-6 text-textMuted italic font-sans">These versions are identical.</div>
+          ) : (
+            <>
+              {mode === 'split' && (
+                <div className="grid grid-cols-2 sticky top-0 bg-[#161b22] border-b border-border text-[10px] uppercase tracking-wider font-bold text-textMuted z-10 font-sans">
+                  <div className="px-4 py-2 border-r border-border truncate">{versionLabel(from, versions)}</div>
+                  <div className="px-4 py-2 truncate">{versionLabel(to, versions)}</div>
+                </div>
+              )}
+              {rows.map((row, i) => {
+                if (row.kind === 'gap') {
+                  return (
+                    <button
+                      key={i}
+                      onClick={() => expandGap(row.start, row.count)}
+                      className="w-full text-left px-4 py-1 bg-[#161b22] text-textMuted hover:text-primary border-y border-border/50 font-sans text-[10px]"
+                    >
+                      ⋯ {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+                    </button>
+                  );
+                }
+                if (row.kind === 'line' && mode === 'unified') {
+                  const { line } = row;
+                  return (
+                    <div key={i} className={`flex py-0.5 ${LINE_STYLES[line.op]}`}>
+                      <span className={GUTTER}>{line.oldNumber ?? ''}</span>
+                      <span className={GUTTER}>{line.newNumber ?? ''}</span>
+                      <span className="w-4 shrink-0 select-none">{line.op === 'added' ? '+' : line.op === 'removed' ? '-' : ' '}</span>
+                      <span className="flex-1 whitespace-pre-wrap break-words pr-4"><LineText line={line} /></span>
+                    </div>
+                  );
+                }
+                const left = row.kind === 'pair' ? row.left : row.line;
+                const right = row.kind === 'pair' ? row.right : row.line;
+                return (
+                  <div key={i} className="grid grid-cols-2">
+                    <div className={`flex py-0.5 border-r border-border/50 min-h-[1.5em] ${left ? LINE_STYLES[left.op] : 'bg-[#0d1117]'}`}>
+                      <span className={GUTTER}>{left?.oldNumber ?? ''}</span>
+                      <span className="flex-1 whitespace-pre-wrap break-words pr-4">{left && <LineText line={left} />}</span>
+                    </div>
+                    <div className={`flex py-0.5 min-h-[1.5em] ${right ? LINE_STYLES[right.op] : 'bg-[#0d1117]'}`}>
+                      <span className={GUTTER}>{right?.newNumber ?? ''}</span>
+                      <span className="flex-1 whitespace-pre-wrap break-words pr-4">{right && <LineText line={right} />}</span>
+                    </div>
+                  </div>
+                );
+              })}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-2 border-t border-border bg-[#1c2128] text-[10px] text-textMuted shrink-0">
+          {fromVersion && `${versionLabel(from, versions)} was saved ${relativeTime(fromVersion.timestamp)} · `}
+          {diff ? `${diff.stats.unchanged} unchanged, ${changed} changed ${changed === 1 ? 'line' : 'lines'}` : ''}
+        </div>
+      </div>
+    </div>
+  );
+};
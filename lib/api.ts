@@ -4,8 +4,36 @@
 
 const API_BASE = '/api';
 
-export type TaskStatus = 'todo' | 'in-progress' | 'done' | 'archive';
+/** The server answered with an error status (network failures reject with a TypeError instead) */
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+/** An ApiError carrying the server's `error` message if the response has one */
+async function apiError(res: Response, fallback: string): Promise<ApiError> {
+  const data = await res.json().catch(() => ({}));
+  return new ApiError(data.error || `${fallback}: ${res.status}`, res.status);
+}
+
+/** A column key; see BoardColumn */
+export type TaskStatus = string;
+export type ColumnKind = 'open' | 'done' | 'archive';
 export type TaskPriority = 'High' | 'Medium' | 'Low';
+export type Assignee = 'user' | 'zyga';
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  assignee?: Assignee | null;
+  doneAt?: number | null;
+}
 
 export interface Task {
   id: string;
@@ -14,6 +42,56 @@ export interface Task {
   status: TaskStatus;
   priority: TaskPriority;
   createdAt: number;
+  revision?: number;
+  dueAt?: number | null;
+  reminderAt?: number | null;
+  checklist?: ChecklistItem[];
+  labels?: string[];
+  assignee?: string | null;
+  customFields?: Record<string, string>;
+  dependsOn?: string[];
+  blockedBy?: string[];
+  recurrence?: Recurrence | null;
+  recurredFrom?: string | null;
+  sourceNote?: string | null;
+}
+
+export interface Recurrence {
+  cron: string;
+  mode: 'after_done' | 'schedule';
+  nextAt?: number | null;
+}
+
+export interface BoardColumn {
+  key: TaskStatus;
+  name: string;
+  kind: ColumnKind;
+  wipLimit: number | null;
+}
+
+/** The whole Kanban board: columns in order, and all tasks (in column order) */
+export interface Board {
+  columns: BoardColumn[];
+  tasks: Task[];
+}
+
+export type NoteStatus = 'open' | 'resolved' | 'converted';
+export type NoteUrgency = 'urgent' | 'normal' | 'low';
+
+export interface NoteReply {
+  id: string;
+  text: string;
+  by: Assignee;
+  at: number;
+}
+
+export interface NoteAttachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  uploadedAt: number;
 }
 
 export interface Note {
@@ -21,11 +99,25 @@ export interface Note {
   content: string;
   createdAt: number;
   seen: boolean;
+  seenAt?: number | null;
+  status: NoteStatus;
+  urgency: NoteUrgency;
+  pinned: boolean;
+  replies: NoteReply[];
+  resolvedAt?: number | null;
+  convertedTo?: { kind: 'task' | 'doc'; id: string } | null;
+  attachments: NoteAttachment[];
 }
 
 // Backend response types
 interface TasksResponse {
-  columns: Record<string, { name: string; tasks: BackendTask[] }>;
+  columns: Record<string, BackendColumn & { tasks: BackendTask[] }>;
+}
+
+interface BackendColumn {
+  name: string;
+  kind: ColumnKind;
+  wip_limit: number | null;
 }
 
 interface BackendTask {
@@ -36,6 +128,32 @@ interface BackendTask {
   created_at: string;
   updated_at: string;
   created_by: string;
+  revision?: number;
+  position?: number; // index within its column
+  due_at?: string | null;
+  reminder_at?: string | null;
+  checklist?: BackendChecklistItem[];
+  labels?: string[];
+  assignee?: string | null;
+  custom_fields?: Record<string, string>;
+  depends_on?: string[];
+  blocked_by?: string[]; // only in GET /api/tasks
+  recurrence?: { cron: string; mode: Recurrence['mode']; next_at: string | null } | null;
+  recurred_from?: string;
+  source_note?: string;
+}
+
+function recurrenceFromBackend(r: BackendTask['recurrence']): Recurrence | null {
+  return r ? { cron: r.cron, mode: r.mode, nextAt: r.next_at ? new Date(r.next_at).getTime() : null } : null;
+}
+
+interface BackendChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  assignee: Assignee | null;
+  created_at: string;
+  done_at: string | null;
 }
 
 interface NotesResponse {
@@ -49,23 +167,74 @@ interface BackendNote {
   created_by: string;
   seen_by_zyga: boolean;
   seen_at: string | null;
+  status: NoteStatus;
+  urgency: NoteUrgency;
+  pinned: boolean;
+  replies: { id: string; text: string; by: Assignee; at: string }[];
+  resolved_at?: string;
+  converted_to?: { kind: 'task' | 'doc'; id: string };
+  attachments: BackendNoteAttachment[];
 }
 
-function tasksFromResponse(data: TasksResponse): Task[] {
-  const statusMap: Record<string, TaskStatus> = {
-    todo: 'todo',
-    in_progress: 'in-progress',
-    done: 'done',
-    archive: 'archive',
+interface BackendNoteAttachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  url: string;
+  uploaded_at: string;
+}
+
+function attachmentFromBackend(a: BackendNoteAttachment): NoteAttachment {
+  // The agent may list files in notes.json without a type
+  const type = a.type || 'application/octet-stream';
+  return { id: a.id, name: a.name || 'file', type, size: a.size, url: a.url, uploadedAt: new Date(a.uploaded_at).getTime() };
+}
+
+function noteFromBackend(n: BackendNote): Note {
+  return {
+    id: n.id,
+    content: n.text,
+    createdAt: new Date(n.created_at).getTime(),
+    seen: n.seen_by_zyga || false,
+    seenAt: n.seen_at ? new Date(n.seen_at).getTime() : null,
+    status: n.status || 'open',
+    urgency: n.urgency || 'normal',
+    pinned: n.pinned === true,
+    replies: (n.replies || []).map((r) => ({ ...r, at: new Date(r.at).getTime() })),
+    resolvedAt: n.resolved_at ? new Date(n.resolved_at).getTime() : null,
+    convertedTo: n.converted_to || null,
+    attachments: (n.attachments || []).map(attachmentFromBackend),
   };
+}
+
+function checklistFromBackend(items: BackendChecklistItem[] | undefined): ChecklistItem[] {
+  return (items || []).map((i) => ({
+    id: i.id,
+    text: i.text,
+    done: !!i.done,
+    assignee: i.assignee ?? null,
+    doneAt: i.done_at ? new Date(i.done_at).getTime() : null,
+  }));
+}
+
+function columnsFromResponse(data: TasksResponse): BoardColumn[] {
+  return Object.entries(data.columns || {}).map(([key, col]) => ({
+    key,
+    name: col.name || key,
+    kind: col.kind || 'open',
+    wipLimit: col.wip_limit ?? null,
+  }));
+}
+
+function tasksFromResponse(data: TasksResponse): Task[] {
   const priorityMap: Record<string, TaskPriority> = {
     high: 'High',
     medium: 'Medium',
     low: 'Low',
   };
   const tasks: Task[] = [];
-  for (const [colKey, col] of Object.entries(data.columns || {})) {
-    const status = statusMap[colKey] ?? 'todo';
+  for (const [status, col] of Object.entries(data.columns || {})) {
     for (const t of col.tasks || []) {
       tasks.push({
         id: t.id,
@@ -75,6 +244,18 @@ function tasksFromResponse(data: TasksResponse): Task[] {
         priority: priorityMap[t.priority] || 'Medium',
         createdAt: new Date(t.created_at).getTime(),
         createdBy: (t.created_by === 'zyga' ? 'zyga' : 'user') as 'user' | 'zyga',
+        revision: t.revision ?? 0,
+        dueAt: t.due_at ? new Date(t.due_at).getTime() : null,
+        reminderAt: t.reminder_at ? new Date(t.reminder_at).getTime() : null,
+        checklist: checklistFromBackend(t.checklist),
+        labels: t.labels || [],
+        assignee: t.assignee || null,
+        customFields: t.custom_fields || {},
+        dependsOn: t.depends_on || [],
+        blockedBy: t.blocked_by || [],
+        recurrence: recurrenceFromBackend(t.recurrence),
+        recurredFrom: t.recurred_from || null,
+        sourceNote: t.source_note || null,
       });
     }
   }
@@ -82,61 +263,317 @@ function tasksFromResponse(data: TasksResponse): Task[] {
 }
 
 function notesFromResponse(data: NotesResponse): Note[] {
-  return (data.notes || []).map((n) => ({
-    id: n.id,
-    content: n.text,
-    createdAt: new Date(n.created_at).getTime(),
-    seen: n.seen_by_zyga,
-  }));
+  return (data.notes || []).map(noteFromBackend);
 }
 
 // --- Tasks API ---
 
 export async function fetchTasks(): Promise<Task[]> {
+  return (await fetchBoard()).tasks;
+}
+
+export async function fetchBoard(): Promise<Board> {
   const res = await fetch(`${API_BASE}/tasks`);
   if (!res.ok) throw new Error(`Failed to fetch tasks: ${res.status}`);
   const data = await res.json();
-  return tasksFromResponse(data);
+  return { columns: columnsFromResponse(data), tasks: tasksFromResponse(data) };
 }
 
 export async function createTask(task: {
+  id?: string; // picked by the client so a retried create can't add the task twice
   title: string;
   description?: string;
   priority?: TaskPriority;
   status?: TaskStatus;
+  dueAt?: number | null;
+  reminderAt?: number | null;
+  checklist?: { text: string; assignee?: Assignee | null; done?: boolean }[];
+  labels?: string[];
+  assignee?: string | null;
+  customFields?: Record<string, string>;
+  dependsOn?: string[];
+  recurrence?: Pick<Recurrence, 'cron' | 'mode'> | null;
+  sourceNote?: string; // the note this task is converted from
 }): Promise<Task> {
   const res = await fetch(`${API_BASE}/tasks`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(task),
   });
-  if (!res.ok) throw new Error(`Failed to create task: ${res.status}`);
+  if (!res.ok) throw await apiError(res, 'Failed to create task');
   const created = await res.json();
   return {
     id: created.id,
     title: created.title,
     description: created.description,
-    status: (task.status as TaskStatus) || 'todo',
+    status: created.status ?? task.status ?? '',
     priority: (task.priority as TaskPriority) || 'Medium',
     createdAt: new Date(created.created_at).getTime(),
+    revision: created.revision ?? 0,
+    dueAt: created.due_at ? new Date(created.due_at).getTime() : null,
+    reminderAt: created.reminder_at ? new Date(created.reminder_at).getTime() : null,
+    checklist: checklistFromBackend(created.checklist),
+    labels: created.labels || [],
+    assignee: created.assignee || null,
+    customFields: created.custom_fields || {},
+    dependsOn: created.depends_on || [],
+    blockedBy: [], // refreshed with the next board load
+    recurrence: recurrenceFromBackend(created.recurrence),
+    sourceNote: created.source_note || null,
   };
 }
 
+/** Thrown by updateTask when the task changed on the server since `revision` was read */
+export class TaskConflictError extends ApiError {
+  taskId: string;
+  serverRevision: number;
+
+  constructor(taskId: string, serverRevision: number) {
+    super(`Task ${taskId} was modified elsewhere (server revision ${serverRevision})`, 409);
+    this.name = 'TaskConflictError';
+    this.taskId = taskId;
+    this.serverRevision = serverRevision;
+  }
+}
+
+/**
+ * Update a task. Pass the task's last known `revision` to have the server reject
+ * the write (TaskConflictError) if someone else changed it in the meantime.
+ * `position` places the task at that index of its (new) column.
+ * Resolves to the task's new revision.
+ */
 export async function updateTask(
   id: string,
-  updates: { title?: string; description?: string; priority?: TaskPriority; status?: TaskStatus }
-): Promise<void> {
+  updates: {
+    title?: string;
+    description?: string;
+    priority?: TaskPriority;
+    status?: TaskStatus;
+    revision?: number;
+    position?: number;
+    dueAt?: number | null;     // null clears it
+    reminderAt?: number | null;
+    labels?: string[];
+    assignee?: string | null;  // null unassigns
+    customFields?: Record<string, string>; // replaces all custom fields
+    dependsOn?: string[];      // prerequisite task ids; replaces the list (400 on a cycle)
+    recurrence?: Pick<Recurrence, 'cron' | 'mode'> | null; // null stops repeating
+  }
+): Promise<number> {
   const res = await fetch(`${API_BASE}/tasks/${id}`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(updates),
   });
-  if (!res.ok) throw new Error(`Failed to update task: ${res.status}`);
+  if (res.status === 409) {
+    const data = await res.json().catch(() => ({}));
+    throw new TaskConflictError(id, data.task?.revision ?? 0);
+  }
+  if (!res.ok) throw await apiError(res, 'Failed to update task');
+  const updated: BackendTask = await res.json();
+  return updated.revision ?? 0;
+}
+
+/**
+ * Set the order of one or more columns: each status maps to task ids in the desired order.
+ * Resolves to the whole board as the server now has it.
+ */
+export async function reorderTasks(order: Record<TaskStatus, string[]>): Promise<Task[]> {
+  const res = await fetch(`${API_BASE}/tasks/reorder`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order }),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to reorder tasks');
+  const data = await res.json();
+  return tasksFromResponse(data);
 }
 
-export async function deleteTask(id: string): Promise<void> {
+/** One action applied to many tasks at once (POST /api/tasks/batch) */
+export type BatchAction =
+  | { action: 'move'; status: TaskStatus }
+  | { action: 'archive' }
+  | { action: 'priority'; priority: TaskPriority }
+  | { action: 'label'; label: string }
+  | { action: 'delete' };
+
+/** Apply `action` to all `ids` in one atomic write; resolves to the whole board afterwards */
+export async function batchTasks(ids: string[], action: BatchAction): Promise<Task[]> {
+  const res = await fetch(`${API_BASE}/tasks/batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids, ...action }),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to update tasks');
+  const data = await res.json();
+  return tasksFromResponse(data);
+}
+
+/** Moves the task to the trash; resolves to its trash entry id (for restoreFromTrash) */
+export async function deleteTask(id: string): Promise<string> {
   const res = await fetch(`${API_BASE}/tasks/${id}`, { method: 'DELETE' });
-  if (!res.ok && res.status !== 204) throw new Error(`Failed to delete task: ${res.status}`);
+  if (!res.ok) throw await apiError(res, 'Failed to delete task');
+  return (await res.json()).trash_id;
+}
+
+// --- Board Columns API ---
+
+interface ColumnResponse extends BackendColumn {
+  key: string;
+  count: number;
+}
+
+function columnFromResponse(c: ColumnResponse): BoardColumn {
+  return { key: c.key, name: c.name, kind: c.kind, wipLimit: c.wip_limit ?? null };
+}
+
+export async function fetchColumns(): Promise<BoardColumn[]> {
+  const res = await fetch(`${API_BASE}/board/columns`);
+  if (!res.ok) throw await apiError(res, 'Failed to fetch columns');
+  const data = await res.json();
+  return (data.columns || []).map(columnFromResponse);
+}
+
+export async function createColumn(column: { name: string; kind?: ColumnKind; wipLimit?: number | null; position?: number }): Promise<BoardColumn> {
+  const res = await fetch(`${API_BASE}/board/columns`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(column),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to create column');
+  return columnFromResponse(await res.json());
+}
+
+/** Rename, change kind, or set the WIP limit (null clears it) */
+export async function updateColumn(
+  key: string,
+  updates: { name?: string; kind?: ColumnKind; wipLimit?: number | null }
+): Promise<BoardColumn> {
+  const res = await fetch(`${API_BASE}/board/columns/${encodeURIComponent(key)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to update column');
+  return columnFromResponse(await res.json());
+}
+
+export async function reorderColumns(order: string[]): Promise<BoardColumn[]> {
+  const res = await fetch(`${API_BASE}/board/columns/reorder`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order }),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to reorder columns');
+  const data = await res.json();
+  return (data.columns || []).map(columnFromResponse);
+}
+
+/** Delete a column; one that still has tasks needs `moveTo`, the column that receives them */
+export async function deleteColumn(key: string, moveTo?: string): Promise<void> {
+  const query = moveTo ? `?moveTo=${encodeURIComponent(moveTo)}` : '';
+  const res = await fetch(`${API_BASE}/board/columns/${encodeURIComponent(key)}${query}`, { method: 'DELETE' });
+  if (!res.ok && res.status !== 204) throw await apiError(res, 'Failed to delete column');
+}
+
+// --- Cron API ---
+
+/** The next `count` times a cron expression fires (ms); throws with the reason if it's invalid */
+export async function previewCron(expression: string, count = 3): Promise<number[]> {
+  const res = await fetch(`${API_BASE}/cron/preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ expression, count }),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to preview cron expression');
+  const data = await res.json();
+  return (data.next || []).map((iso: string) => new Date(iso).getTime());
+}
+
+// --- Task Checklist API ---
+// Each call resolves to the task's whole checklist as the server now has it.
+
+export async function addChecklistItem(
+  taskId: string,
+  item: { text: string; assignee?: Assignee | null; position?: number }
+): Promise<ChecklistItem[]> {
+  const res = await fetch(`${API_BASE}/tasks/${taskId}/checklist`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(item),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to add checklist item');
+  const data = await res.json();
+  return checklistFromBackend(data.checklist);
+}
+
+export async function updateChecklistItem(
+  taskId: string,
+  itemId: string,
+  updates: { text?: string; done?: boolean; assignee?: Assignee | null }
+): Promise<ChecklistItem[]> {
+  const res = await fetch(`${API_BASE}/tasks/${taskId}/checklist/${itemId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to update checklist item');
+  const data = await res.json();
+  return checklistFromBackend(data.checklist);
+}
+
+export async function reorderChecklist(taskId: string, order: string[]): Promise<ChecklistItem[]> {
+  const res = await fetch(`${API_BASE}/tasks/${taskId}/checklist/reorder`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ order }),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to reorder checklist');
+  const data = await res.json();
+  return checklistFromBackend(data.checklist);
+}
+
+export async function deleteChecklistItem(taskId: string, itemId: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/tasks/${taskId}/checklist/${itemId}`, { method: 'DELETE' });
+  if (!res.ok && res.status !== 204) throw await apiError(res, 'Failed to delete checklist item');
+}
+
+// --- Task History API ---
+
+export type TaskHistoryType = 'created' | 'status' | 'priority' | 'edited' | 'checklist' | 'comment' | 'deleted' | 'restored';
+
+/** One entry of a task's timeline; which optional fields are set depends on `type` */
+export interface TaskHistoryEntry {
+  id: string;
+  type: TaskHistoryType;
+  by: Assignee;
+  at: string;                 // ISO
+  status?: string;            // created / restored: the column it was put in
+  recurred_from?: string;     // created: the previous occurrence of a recurring task
+  from_note?: string;         // created: the note the task was converted from
+  from?: string | null;       // status / priority: old value (status as column key, e.g. in_progress)
+  to?: string | null;
+  fields?: { field: string; from: unknown; to: unknown }[]; // edited: null = unset; labels / custom_fields / depends_on / recurrence hold their list / object
+  action?: 'added' | 'checked' | 'unchecked' | 'removed'; // checklist
+  text?: string;              // comment text, or the checklist item's text
+}
+
+/** A task's timeline, oldest first */
+export async function fetchTaskHistory(taskId: string): Promise<TaskHistoryEntry[]> {
+  const res = await fetch(`${API_BASE}/tasks/${taskId}/history`);
+  if (!res.ok) throw await apiError(res, 'Failed to fetch task history');
+  const data = await res.json();
+  return data.history || [];
+}
+
+export async function addTaskComment(taskId: string, text: string): Promise<TaskHistoryEntry> {
+  const res = await fetch(`${API_BASE}/tasks/${taskId}/comments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, by: 'user' }),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to add comment');
+  return res.json();
 }
 
 // --- Notes API ---
@@ -148,25 +585,88 @@ export async function fetchNotes(): Promise<Note[]> {
   return notesFromResponse(data);
 }
 
-export async function createNote(text: string): Promise<Note> {
+/** What can be set on a note besides its text; `wake` runs a heartbeat right away if the note is urgent */
+export interface NoteFlags {
+  urgency?: NoteUrgency;
+  pinned?: boolean;
+  wake?: boolean;
+}
+
+/** `id` is optional; picked by the client, it makes a retried create safe (see createTask) */
+export async function createNote(text: string, id?: string, flags: NoteFlags = {}): Promise<Note> {
   const res = await fetch(`${API_BASE}/notes`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ text }),
+    body: JSON.stringify({ text, id, ...flags }),
   });
-  if (!res.ok) throw new Error(`Failed to create note: ${res.status}`);
-  const created = await res.json();
-  return {
-    id: created.id,
-    content: created.text,
-    createdAt: new Date(created.created_at).getTime(),
-    seen: created.seen_by_zyga || false,
-  };
+  if (!res.ok) throw await apiError(res, 'Failed to create note');
+  return noteFromBackend(await res.json());
+}
+
+/** Reply to a note (`id` as for createNote); resolves to the note with its updated thread */
+export async function replyToNote(noteId: string, text: string, id?: string): Promise<Note> {
+  const res = await fetch(`${API_BASE}/notes/${noteId}/replies`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, id }),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to reply');
+  return noteFromBackend((await res.json()).note);
+}
+
+/** Resolve or reopen a note (or mark it converted, with what it became) */
+export async function setNoteStatus(id: string, status: NoteStatus, convertedTo?: Note['convertedTo']): Promise<Note> {
+  const res = await fetch(`${API_BASE}/notes/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status, converted_to: convertedTo ?? null }),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to update note');
+  return noteFromBackend(await res.json());
 }
 
-export async function deleteNote(id: string): Promise<void> {
+/** Change a note's urgency and / or pin */
+export async function updateNote(id: string, flags: NoteFlags): Promise<Note> {
+  const res = await fetch(`${API_BASE}/notes/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(flags),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to update note');
+  return noteFromBackend(await res.json());
+}
+
+/** Attach a file to a note (`id` as for createNote) */
+export async function uploadNoteAttachment(noteId: string, file: File, id?: string): Promise<NoteAttachment> {
+  const params = new URLSearchParams({ name: file.name });
+  if (id) params.set('id', id);
+  const res = await fetch(`${API_BASE}/notes/${noteId}/attachments?${params}`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    body: file,
+  });
+  if (!res.ok) throw await apiError(res, `Failed to attach ${file.name}`);
+  return attachmentFromBackend(await res.json());
+}
+
+export async function deleteNoteAttachment(noteId: string, attachmentId: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/notes/${noteId}/attachments/${attachmentId}`, { method: 'DELETE' });
+  if (!res.ok && res.status !== 404) throw await apiError(res, 'Failed to remove attachment');
+}
+
+/** Moves the note to the trash; resolves to its trash entry id (for restoreFromTrash) */
+export async function deleteNote(id: string): Promise<string> {
   const res = await fetch(`${API_BASE}/notes/${id}`, { method: 'DELETE' });
-  if (!res.ok && res.status !== 204) throw new Error(`Failed to delete note: ${res.status}`);
+  if (!res.ok) throw await apiError(res, 'Failed to delete note');
+  return (await res.json()).trash_id;
+}
+
+// --- Trash API ---
+
+/** Put a deleted task or note back where it was */
+export async function restoreFromTrash(trashId: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/trash/${trashId}/restore`, { method: 'POST' });
+  if (!res.ok) throw await apiError(res, 'Failed to restore');
 }
 
 // --- Documents API ---
@@ -178,6 +678,7 @@ export interface DocumentIndexItem {
   category: string;
   created_at: string;
   updated_at: string;
+  source_note?: string; // the note this document was converted from
 }
 
 export interface DocumentsResponse {
@@ -191,19 +692,57 @@ export async function fetchDocuments(): Promise<DocumentIndexItem[]> {
   return data.documents || [];
 }
 
-export async function fetchDocumentContent(filename: string): Promise<string> {
-  const res = await fetch(`${API_BASE}/documents/${encodeURIComponent(filename)}`);
+export interface DocumentContent {
+  content: string;
+  etag: string | null; // identifies this version of the body; send back when saving
+}
+
+export async function fetchDocumentContent(filename: string): Promise<DocumentContent> {
+  const res = await fetch(`${API_BASE}/documents/${encodeURIComponent(filename)}`, { cache: 'no-store' });
   if (!res.ok) throw new Error(`Failed to fetch document: ${res.status}`);
-  return res.text();
+  return { content: await res.text(), etag: res.headers.get('ETag') };
 }
 
-export async function saveDocumentContent(filename: string, content: string, editedBy?: string): Promise<void> {
+/** Thrown by saveDocumentContent when the document changed on disk since `etag` was read */
+export class DocumentConflictError extends Error {
+  filename: string;
+  serverContent: string;
+  serverEtag: string;
+
+  constructor(filename: string, serverContent: string, serverEtag: string) {
+    super('Document was changed on disk');
+    this.name = 'DocumentConflictError';
+    this.filename = filename;
+    this.serverContent = serverContent;
+    this.serverEtag = serverEtag;
+  }
+}
+
+/**
+ * Save a document's markdown body. With `etag` the server only accepts the save if
+ * the body on disk is still that version, otherwise DocumentConflictError is thrown.
+ * Resolves to the ETag of the saved version.
+ */
+export async function saveDocumentContent(
+  filename: string,
+  content: string,
+  editedBy?: string,
+  etag?: string | null
+): Promise<string | null> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (etag) headers['If-Match'] = etag;
   const res = await fetch(`${API_BASE}/documents/${encodeURIComponent(filename)}`, {
     method: 'PUT',
-    headers: { 'Content-Type': 'application/json' },
+    headers,
     body: JSON.stringify({ content, editedBy }),
   });
+  if (res.status === 409) {
+    const data = await res.json();
+    throw new DocumentConflictError(filename, data.content ?? '', data.etag);
+  }
   if (!res.ok) throw new Error(`Failed to save document: ${res.status}`);
+  const data = await res.json().catch(() => ({}));
+  return data.etag ?? res.headers.get('ETag');
 }
 
 
@@ -212,6 +751,7 @@ export async function createDocument(doc: {
   emoji?: string;
   category?: string;
   content?: string;
+  source_note?: string; // converting a note: the server returns the note's existing document instead of a second one
 }): Promise<DocumentIndexItem> {
   const res = await fetch(`${API_BASE}/documents`, {
     method: 'POST',
@@ -250,6 +790,35 @@ export async function duplicateDocument(filename: string): Promise<DocumentIndex
   return res.json();
 }
 
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface DocumentSearchHit {
+  filename: string;
+  title: string;
+  emoji: string;
+  category: string;
+  score: number;
+  matches: number;
+  snippet: SnippetPart[];
+}
+
+export interface DocumentSearchResponse {
+  query: string;
+  hits: DocumentSearchHit[];
+}
+
+export async function searchDocuments(query: string, limit?: number): Promise<DocumentSearchHit[]> {
+  const params = new URLSearchParams({ q: query });
+  if (limit) params.set('limit', String(limit));
+  const res = await fetch(`${API_BASE}/documents/search?${params}`);
+  if (!res.ok) throw new Error(`Failed to search documents: ${res.status}`);
+  const data: DocumentSearchResponse = await res.json();
+  return data.hits || [];
+}
+
 // --- Version History API ---
 
 export interface VersionEntry {
@@ -258,6 +827,11 @@ export interface VersionEntry {
   file: string;
   author?: string;
   preview?: string;
+  pinned?: boolean;    // pinned versions are never pruned
+  label?: string;
+  note?: string;
+  pinnedAt?: string;
+  pinnedBy?: string;
 }
 
 export async function fetchVersions(filename: string): Promise<VersionEntry[]> {
@@ -273,8 +847,94 @@ export async function fetchVersionContent(filename: string, versionFile: string)
   return res.text();
 }
 
+/** A run of text inside a changed line, for word-level highlighting */
+export interface WordSegment {
+  op: 'equal' | 'removed' | 'added';
+  text: string;
+}
 
+export interface VersionDiffLine {
+  op: 'equal' | 'removed' | 'added';
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+  words?: WordSegment[]; // present when the line was replaced one-for-one
+}
+
+export interface VersionDiff {
+  from: string;
+  to: string;
+  stats: { added: number; removed: number; unchanged: number };
+  lines: VersionDiffLine[];
+}
+
+/** Line + word diff between two versions; pass 'current' for the live document */
+export async function fetchVersionDiff(filename: string, from: string, to: string = 'current'): Promise<VersionDiff> {
+  const params = new URLSearchParams({ from, to });
+  const res = await fetch(`${API_BASE}/documents/${encodeURIComponent(filename)}/versions/diff?${params}`);
+  if (!res.ok) throw new Error(`Failed to fetch version diff: ${res.status}`);
+  return res.json();
+}
+
+/** Pin a version (or edit the label / note of a pinned one) */
+export async function pinVersion(filename: string, versionFile: string, pin: { label: string; note?: string }): Promise<VersionEntry> {
+  const res = await fetch(`${API_BASE}/documents/${encodeURIComponent(filename)}/versions/${encodeURIComponent(versionFile)}/pin`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...pin, editedBy: 'User' }),
+  });
+  if (!res.ok) throw new Error(`Failed to pin version: ${res.status}`);
+  const data = await res.json();
+  return data.version;
+}
+
+export async function unpinVersion(filename: string, versionFile: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/documents/${encodeURIComponent(filename)}/versions/${encodeURIComponent(versionFile)}/pin`, {
+    method: 'DELETE',
+  });
+  if (!res.ok) throw new Error(`Failed to unpin version: ${res.status}`);
+}
+
+/** Snapshot the document as it is on disk now, pinned under a label */
+export async function createCheckpoint(filename: string, pin: { label: string; note?: string }): Promise<VersionEntry> {
+  const res = await fetch(`${API_BASE}/documents/${encodeURIComponent(filename)}/versions/checkpoint`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...pin, editedBy: 'User' }),
+  });
+  if (!res.ok) throw new Error(`Failed to create checkpoint: ${res.status}`);
+  const data = await res.json();
+  return data.version;
+}
+
+export interface RetentionPolicy {
+  coalesceMinutes: number;
+  keepLatest: number;
+  hourly: number;
+  daily: number;
+  weekly: number;
+  maxTotalBytes: number;
+}
+
+export interface VersionStorage {
+  totalBytes: number;
+  totalVersions: number;
+  documents: { filename: string; versions: number; bytes: number; oldest: string }[];
+  policy: RetentionPolicy;
+}
 
+export async function fetchVersionStorage(): Promise<VersionStorage> {
+  const res = await fetch(`${API_BASE}/documents/versions/storage`);
+  if (!res.ok) throw new Error(`Failed to fetch version storage: ${res.status}`);
+  return res.json();
+}
+
+/** Apply the retention policy now; resolves to what was removed plus the storage left */
+export async function pruneVersions(): Promise<VersionStorage & { removed: number; freedBytes: number }> {
+  const res = await fetch(`${API_BASE}/documents/versions/prune`, { method: 'POST' });
+  if (!res.ok) throw new Error(`Failed to prune versions: ${res.status}`);
+  return res.json();
+}
 
 export async function restoreVersion(filename: string, versionFile: string): Promise<string> {
   const res = await fetch(`${API_BASE}/documents/${encodeURIComponent(filename)}/versions/${encodeURIComponent(versionFile)}/restore`, {
@@ -313,12 +973,24 @@ export interface DeliverableItem {
   id: string;
   name: string;
   emoji: string;
-  frequency: string;
+  frequency: string; // derived from cron_expression: Hourly, Daily, Weekdays, Weekly, Monthly or Custom
   type: string;
   cron_expression?: string;
   enabled: boolean;
-  last_run?: string;
+  last_run?: string | null;
+  description?: string;
+  next_run: string | null; // null while disabled
+  runs: { at: string; by: Assignee; trigger: 'manual' }[]; // newest first
+}
+
+/** The fields of a deliverable that can be set */
+export interface DeliverableInput {
+  name: string;
+  cron_expression: string;
+  emoji?: string;
   description?: string;
+  type?: string;
+  enabled?: boolean;
 }
 
 export interface DeliverablesResponse {
@@ -332,6 +1004,40 @@ export async function fetchDeliverables(): Promise<DeliverableItem[]> {
   return data.deliverables || [];
 }
 
+/** `id` as for createTask; the cron expression is validated by the server (400 with what's wrong) */
+export async function createDeliverable(input: DeliverableInput & { id?: string }): Promise<DeliverableItem> {
+  const res = await fetch(`${API_BASE}/deliverables`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to create deliverable');
+  return res.json();
+}
+
+/** Change some fields, e.g. { enabled: false } to pause it */
+export async function updateDeliverable(id: string, changes: Partial<DeliverableInput>): Promise<DeliverableItem> {
+  const res = await fetch(`${API_BASE}/deliverables/${id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+  if (!res.ok) throw await apiError(res, 'Failed to update deliverable');
+  return res.json();
+}
+
+export async function deleteDeliverable(id: string): Promise<void> {
+  const res = await fetch(`${API_BASE}/deliverables/${id}`, { method: 'DELETE' });
+  if (!res.ok && res.status !== 404) throw await apiError(res, 'Failed to delete deliverable');
+}
+
+/** Run a deliverable now, outside its schedule; resolves to it with the run recorded */
+export async function runDeliverable(id: string): Promise<DeliverableItem> {
+  const res = await fetch(`${API_BASE}/deliverables/${id}/run`, { method: 'POST' });
+  if (!res.ok) throw await apiError(res, 'Failed to run deliverable');
+  return res.json();
+}
+
 // --- Overview API (OpenClaw monitoring) ---
 
 export interface OverviewGatewayStatus {
@@ -454,6 +1160,8 @@ export interface HeartbeatStatus {
   nextRun: string;
   notesSeen: number;
   tasksUpdated: number;
+  unblockedTasks: { id: string; title: string; status: TaskStatus }[]; // all prerequisites finished since the previous heartbeat
+  trigger: 'manual' | 'urgent_note'; // what started the last heartbeat
   result: string | null;
 }
 
@@ -468,3 +1176,92 @@ export async function triggerHeartbeat(): Promise<HeartbeatStatus> {
   if (!res.ok) throw new Error(`Failed to trigger heartbeat: ${res.status}`);
   return res.json();
 }
+
+// --- Event Stream (SSE) ---
+
+export type ServerEvent =
+  | { type: 'connected'; at: string }
+  | { type: 'ping'; at: string }
+  | { type: 'tasks.changed'; at: string }
+  | { type: 'task-history.changed'; at: string }
+  | { type: 'notes.changed'; at: string }
+  | { type: 'activity-log.changed'; at: string }
+  | { type: 'documents.changed'; at: string }
+  | { type: 'document.updated'; data: { filename: string }; at: string }
+  | { type: 'deliverables.changed'; at: string }
+  | { type: 'overview.changed'; at: string }
+  | { type: 'agent-status'; data: AgentStatusResponse; at: string }
+  | { type: 'heartbeat'; data: HeartbeatStatus; at: string }
+  | { type: 'system-info'; data: SystemInfo; at: string };
+
+export type ServerEventType = ServerEvent['type'];
+
+type ServerEventListener = (event: ServerEvent) => void;
+type StreamStatusListener = (connected: boolean) => void;
+
+const eventListeners = new Set<ServerEventListener>();
+const statusListeners = new Set<StreamStatusListener>();
+let eventSource: EventSource | null = null;
+let streamConnected = false;
+
+function setStreamConnected(connected: boolean) {
+  if (connected === streamConnected) return;
+  streamConnected = connected;
+  statusListeners.forEach((l) => l(connected));
+}
+
+/** Open the shared EventSource on first subscriber; EventSource reconnects on its own. */
+function ensureEventSource() {
+  if (eventSource || typeof EventSource === 'undefined') return;
+  eventSource = new EventSource(`${API_BASE}/events`);
+  eventSource.onopen = () => setStreamConnected(true);
+  eventSource.onerror = () => setStreamConnected(false);
+  eventSource.onmessage = (msg) => {
+    let event: ServerEvent;
+    try {
+      event = JSON.parse(msg.data);
+    } catch {
+      return;
+    }
+    setStreamConnected(true);
+    eventListeners.forEach((l) => l(event));
+  };
+}
+
+/** Close the shared EventSource once nobody is listening any more */
+function releaseEventSource() {
+  if (eventListeners.size > 0 || statusListeners.size > 0 || !eventSource) return;
+  eventSource.close();
+  eventSource = null;
+  setStreamConnected(false);
+}
+
+/**
+ * Subscribe to pushed events from /api/events. All subscribers share one connection.
+ * Pass `types` to only receive those event types. Returns an unsubscribe function.
+ */
+export function subscribeToEvents(listener: ServerEventListener, types?: ServerEventType[]): () => void {
+  const wrapped: ServerEventListener = types
+    ? (event) => { if (types.includes(event.type)) listener(event); }
+    : listener;
+  eventListeners.add(wrapped);
+  ensureEventSource();
+  return () => {
+    eventListeners.delete(wrapped);
+    releaseEventSource();
+  };
+}
+
+/**
+ * Subscribe to stream connection changes. The listener is called immediately with the
+ * current state, then on every connect/disconnect. Returns an unsubscribe function.
+ */
+export function subscribeToStreamStatus(listener: StreamStatusListener): () => void {
+  statusListeners.add(listener);
+  ensureEventSource();
+  listener(streamConnected);
+  return () => {
+    statusListeners.delete(listener);
+    releaseEventSource();
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * board — lookups over the user-defined Kanban columns (see BoardColumn).
+ */
+import { BoardColumn, ColumnKind, TaskStatus } from '../types';
+
+/** Kind of the column a task is in; unknown keys count as open */
+export function columnKind(columns: BoardColumn[], status: TaskStatus): ColumnKind {
+  return columns.find((c) => c.key === status)?.kind ?? 'open';
+}
+
+/** Tasks in done and archive columns are finished: no countdowns, never overdue */
+export function isClosed(columns: BoardColumn[], status: TaskStatus): boolean {
+  return columnKind(columns, status) !== 'open';
+}
+
+export function columnName(columns: BoardColumn[], status: TaskStatus): string {
+  return columns.find((c) => c.key === status)?.name ?? status;
+}
+
+/** 'over' once a column holds more tasks than its WIP limit, 'at' when exactly full */
+export function wipState(column: BoardColumn, count: number): 'over' | 'at' | null {
+  if (column.wipLimit === null) return null;
+  if (count > column.wipLimit) return 'over';
+  return count === column.wipLimit ? 'at' : null;
+}
@@ -0,0 +1,11 @@
+/**
+ * checklist — progress of a task's checklist.
+ */
+import { ChecklistItem } from '../types';
+
+/** Done / total and the matching percentage; null for an empty checklist */
+export function checklistProgress(items: ChecklistItem[] | undefined): { done: number; total: number; percent: number } | null {
+  if (!items || items.length === 0) return null;
+  const done = items.filter((i) => i.done).length;
+  return { done, total: items.length, percent: Math.round((done / items.length) * 100) };
+}
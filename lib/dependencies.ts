@@ -0,0 +1,23 @@
+/**
+ * dependencies — lookups over task prerequisites (Task.dependsOn).
+ */
+import { Task } from '../types';
+
+/**
+ * Ids of the tasks that wait on `id`, directly or through other tasks. None of them can
+ * become a prerequisite of `id` — the server rejects cycles.
+ */
+export function dependentsOf(tasks: Task[], id: string): Set<string> {
+  const found = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const t of tasks) {
+      if (!found.has(t.id) && t.dependsOn?.includes(current)) {
+        found.add(t.id);
+        queue.push(t.id);
+      }
+    }
+  }
+  return found;
+}
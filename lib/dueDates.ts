@@ -0,0 +1,51 @@
+/**
+ * dueDates — countdown labels and overdue checks for task due dates.
+ */
+import { Task } from '../types';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Tasks in done and archive columns (`closed`, see lib/board) are never overdue */
+export function isOverdue(task: Task, now: number, closed = false): boolean {
+  return !!task.dueAt && task.dueAt <= now && !closed;
+}
+
+/** "3d", "5h", "20m" — the coarsest unit that fits */
+function formatSpan(ms: number): string {
+  if (ms >= DAY) return `${Math.floor(ms / DAY)}d`;
+  if (ms >= HOUR) return `${Math.floor(ms / HOUR)}h`;
+  return `${Math.max(1, Math.floor(ms / MINUTE))}m`;
+}
+
+/** Countdown pill text and colors: red overdue, orange < 24h, yellow < 3 days, muted otherwise */
+export function dueBadge(task: Task, now: number, closed = false): { label: string; className: string } | null {
+  if (!task.dueAt) return null;
+  const left = task.dueAt - now;
+  if (closed) {
+    return {
+      label: `Due ${new Date(task.dueAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}`,
+      className: 'bg-gray-500/10 text-textMuted border-gray-500/20',
+    };
+  }
+  if (left <= 0) return { label: `Overdue ${formatSpan(-left)}`, className: 'bg-red-500/20 text-red-400 border-red-500/40' };
+  if (left < DAY) return { label: `Due in ${formatSpan(left)}`, className: 'bg-orange-500/20 text-orange-400 border-orange-500/30' };
+  if (left < 3 * DAY) return { label: `Due in ${formatSpan(left)}`, className: 'bg-yellow-500/15 text-yellow-400 border-yellow-500/30' };
+  return { label: `Due in ${formatSpan(left)}`, className: 'bg-gray-500/15 text-gray-400 border-gray-500/30' };
+}
+
+/** ms → value for <input type="datetime-local"> (local time, minutes precision) */
+export function toDateTimeInput(ms: number | null | undefined): string {
+  if (!ms) return '';
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** <input type="datetime-local"> value → ms, or null when empty */
+export function fromDateTimeInput(value: string): number | null {
+  if (!value) return null;
+  const ms = new Date(value).getTime();
+  return Number.isFinite(ms) ? ms : null;
+}
@@ -0,0 +1,52 @@
+/**
+ * fuzzyMatch — subsequence matching for the command palette.
+ *
+ * Every query character must appear in the text in order. Contiguous runs,
+ * word starts and an exact substring hit score higher; long texts score
+ * slightly lower so short titles win ties over long log messages.
+ */
+
+export interface FuzzyResult {
+  score: number;
+  /** Character indices in `text` that matched, for highlighting */
+  indices: number[];
+}
+
+function isWordStart(text: string, i: number): boolean {
+  if (i === 0) return true;
+  const prev = text[i - 1];
+  return /[\s\-_/.:(#]/.test(prev) || (/[a-z]/.test(prev) && /[A-Z]/.test(text[i]));
+}
+
+export function fuzzyMatch(query: string, text: string): FuzzyResult | null {
+  const q = query.trim().toLowerCase();
+  if (!q) return { score: 0, indices: [] };
+  const lower = text.toLowerCase();
+
+  // Exact substring: best case, highlight the contiguous run
+  const at = lower.indexOf(q);
+  if (at >= 0) {
+    const indices = Array.from({ length: q.length }, (_, i) => at + i);
+    const score = 100 + q.length * 6 + (isWordStart(text, at) ? 20 : 0) + (at === 0 ? 10 : 0) - text.length * 0.05;
+    return { score, indices };
+  }
+
+  // Subsequence match, greedy left to right
+  const indices: number[] = [];
+  let score = 0;
+  let ti = 0;
+  for (let qi = 0; qi < q.length; qi++) {
+    const ch = q[qi];
+    if (ch === ' ') continue;
+    const found = lower.indexOf(ch, ti);
+    if (found < 0) return null;
+    const prev = indices[indices.length - 1];
+    score += 1;
+    if (prev !== undefined && found === prev + 1) score += 5;
+    else if (prev !== undefined) score -= Math.min(found - prev - 1, 10) * 0.2;
+    if (isWordStart(text, found)) score += 8;
+    indices.push(found);
+    ti = found + 1;
+  }
+  return { score: score - text.length * 0.05, indices };
+}
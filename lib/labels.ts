@@ -0,0 +1,24 @@
+/**
+ * labels — colors for free-form task labels.
+ *
+ * A label's color is derived from its name, so the same label looks the same
+ * everywhere (every tab, every task) without storing a color anywhere.
+ */
+
+const LABEL_PALETTE = [
+  'bg-red-500/15 text-red-400 border-red-500/30',
+  'bg-orange-500/15 text-orange-400 border-orange-500/30',
+  'bg-yellow-500/15 text-yellow-400 border-yellow-500/30',
+  'bg-green-500/15 text-green-400 border-green-500/30',
+  'bg-teal-500/15 text-teal-400 border-teal-500/30',
+  'bg-sky-500/15 text-sky-400 border-sky-500/30',
+  'bg-indigo-500/15 text-indigo-400 border-indigo-500/30',
+  'bg-pink-500/15 text-pink-400 border-pink-500/30',
+];
+
+/** Tailwind classes (background, text, border) for a label pill; case-insensitive */
+export function labelColor(label: string): string {
+  let hash = 0;
+  for (const ch of label.toLowerCase()) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return LABEL_PALETTE[hash % LABEL_PALETTE.length];
+}
@@ -0,0 +1,77 @@
+/**
+ * lineDiff — line-based diff for comparing two versions of a markdown document.
+ *
+ * diffLines() returns an edit script over lines (the LCS in server/lib/text-diff.js, shared
+ * with the server's version diff). toSideBySide() pairs it into rows for a two-column
+ * view, and withConflictMarkers() builds a starting point for a manual merge, git-style.
+ */
+import { diffSequences, splitLines } from '../server/lib/text-diff.js';
+
+export type DiffOp = 'equal' | 'removed' | 'added';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+export interface SideBySideRow {
+  left: { text: string; op: DiffOp } | null;
+  right: { text: string; op: DiffOp } | null;
+}
+
+/** Edit script turning `a` into `b` */
+export function diffLines(a: string, b: string): DiffLine[] {
+  return diffSequences(splitLines(a), splitLines(b));
+}
+
+/** Pair removed/added runs into aligned rows for a two-column view */
+export function toSideBySide(diff: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let k = 0;
+  while (k < diff.length) {
+    if (diff[k].op === 'equal') {
+      rows.push({ left: { text: diff[k].text, op: 'equal' }, right: { text: diff[k].text, op: 'equal' } });
+      k++;
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < diff.length && diff[k].op !== 'equal') {
+      if (diff[k].op === 'removed') removed.push(diff[k].text);
+      else added.push(diff[k].text);
+      k++;
+    }
+    for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+      rows.push({
+        left: r < removed.length ? { text: removed[r], op: 'removed' } : null,
+        right: r < added.length ? { text: added[r], op: 'added' } : null,
+      });
+    }
+  }
+  return rows;
+}
+
+/** Both versions merged, with each differing hunk wrapped in <<<<<<< / ======= / >>>>>>> markers */
+export function withConflictMarkers(diff: DiffLine[], leftLabel: string, rightLabel: string): string {
+  const lines: string[] = [];
+  let k = 0;
+  while (k < diff.length) {
+    if (diff[k].op === 'equal') {
+      lines.push(diff[k++].text);
+      continue;
+    }
+    const removed: string[] = [];
+    const added: string[] = [];
+    while (k < diff.length && diff[k].op !== 'equal') {
+      (diff[k].op === 'removed' ? removed : added).push(diff[k].text);
+      k++;
+    }
+    lines.push(`<<<<<<< ${leftLabel}`, ...removed, '=======', ...added, `>>>>>>> ${rightLabel}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Whether text still contains unresolved conflict markers */
+export function hasConflictMarkers(text: string): boolean {
+  return /^(<{7}|={7}|>{7})( |$)/m.test(text);
+}
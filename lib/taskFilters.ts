@@ -0,0 +1,53 @@
+/**
+ * taskFilters — filter chips for the Kanban board.
+ *
+ * Chips of the same kind are alternatives (label A or label B); different kinds
+ * must all match (label A and assigned to Zyga).
+ */
+import { Task } from '../types';
+
+export type TaskFilter =
+  | { kind: 'label'; value: string }
+  | { kind: 'assignee'; value: string }
+  | { kind: 'field'; name: string; value: string };
+
+/** Stable identity of a filter, for React keys and toggling */
+export function filterKey(f: TaskFilter): string {
+  return f.kind === 'field' ? `field:${f.name}=${f.value}` : `${f.kind}:${f.value.toLowerCase()}`;
+}
+
+/** Every chip that would match at least one of `tasks`: labels, then assignees, then custom field values */
+export function filterOptions(tasks: Task[]): TaskFilter[] {
+  const options = new Map<string, TaskFilter>();
+  const add = (f: TaskFilter) => { if (!options.has(filterKey(f))) options.set(filterKey(f), f); };
+  const byName = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+  [...new Set(tasks.flatMap((t) => t.labels ?? []))].sort(byName).forEach((value) => add({ kind: 'label', value }));
+  [...new Set(tasks.map((t) => t.assignee).filter((a): a is string => !!a))].sort(byName).forEach((value) => add({ kind: 'assignee', value }));
+  tasks
+    .flatMap((t) => Object.entries(t.customFields ?? {}))
+    .sort(([a, x], [b, y]) => byName(a, b) || byName(x, y))
+    .forEach(([name, value]) => add({ kind: 'field', name, value }));
+  return [...options.values()];
+}
+
+function matches(task: Task, f: TaskFilter): boolean {
+  switch (f.kind) {
+    case 'label':
+      return (task.labels ?? []).some((l) => l.toLowerCase() === f.value.toLowerCase());
+    case 'assignee':
+      return (task.assignee ?? '').toLowerCase() === f.value.toLowerCase();
+    case 'field':
+      return task.customFields?.[f.name] === f.value;
+  }
+}
+
+/** Whether `task` passes the active filters (no filters = everything passes) */
+export function matchesFilters(task: Task, filters: TaskFilter[]): boolean {
+  const groups = new Map<string, TaskFilter[]>();
+  for (const f of filters) {
+    const group = f.kind === 'field' ? `field:${f.name}` : f.kind;
+    groups.set(group, [...(groups.get(group) ?? []), f]);
+  }
+  return [...groups.values()].every((group) => group.some((f) => matches(task, f)));
+}
@@ -15,6 +15,7 @@ interface UseDebouncedSaveOptions {
 interface UseDebouncedSaveReturn {
   save: (...args: unknown[]) => void;
   flush: () => void;
+  cancel: () => void;
   status: SaveStatus;
   error: string | null;
 }
@@ -67,6 +68,14 @@ export function useDebouncedSave(
     }
   }, [executeSave]);
 
+  // Drop any pending save and clear the status (e.g. after a conflict was resolved another way)
+  const cancel = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    pendingArgsRef.current = null;
+    setStatus('idle');
+    setError(null);
+  }, []);
+
   useEffect(() => {
     return () => {
       if (timerRef.current) clearTimeout(timerRef.current);
@@ -74,5 +83,5 @@ export function useDebouncedSave(
     };
   }, []);
 
-  return { save, flush, status, error };
+  return { save, flush, cancel, status, error };
 }
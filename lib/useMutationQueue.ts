@@ -0,0 +1,95 @@
+/**
+ * useMutationQueue — optimistic, queued writes for the dashboard.
+ *
+ * A mutation's `apply` changes local state right away; its `send` then goes to the server once
+ * every earlier mutation has finished, so changes reach the server in the order they were made.
+ * Network errors and 5xx / 408 / 429 responses are retried with exponential backoff. A mutation
+ * that fails for good is rolled back and reported through `onError`, with a callback that runs
+ * it again from the start.
+ */
+import { useCallback, useEffect, useRef } from 'react';
+import { ApiError } from './api';
+
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY = 1000; // ms; doubled after each failed attempt
+
+export interface Mutation<T> {
+  label: string;                       // what failed, e.g. Couldn't save "Write report"
+  apply?: () => void;                  // the optimistic local change
+  send: () => Promise<T>;
+  commit?: (result: T) => void;        // once the server accepted it
+  rollback?: (error: unknown) => void; // take back `apply` after a permanent failure
+}
+
+/** Rejection of run() once a mutation failed for good; it has already been rolled back and reported */
+export class MutationFailedError extends Error {
+  constructor(label: string, cause: unknown) {
+    super(`${label}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'MutationFailedError';
+  }
+}
+
+/** Worth another try: the request got no answer, or the server couldn't handle it right now */
+function isTransient(error: unknown): boolean {
+  if (error instanceof ApiError) return error.status >= 500 || error.status === 408 || error.status === 429;
+  return error instanceof TypeError; // fetch() rejects with a TypeError when the network fails
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface MutationQueueOptions {
+  onError: (message: string, retry: () => void) => void;
+  onIdle?: () => void; // the last queued mutation finished
+}
+
+export function useMutationQueue(options: MutationQueueOptions) {
+  const tailRef = useRef<Promise<unknown>>(Promise.resolve());
+  const pendingRef = useRef(0);
+  const optionsRef = useRef(options);
+  useEffect(() => { optionsRef.current = options; });
+
+  /** Apply a mutation and queue it; resolves to the server's result, rejects with MutationFailedError */
+  const run = useCallback(<T>(mutation: Mutation<T>): Promise<T> => {
+    mutation.apply?.();
+    pendingRef.current++;
+
+    const send = async (): Promise<T> => {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await mutation.send();
+        } catch (err) {
+          if (attempt >= MAX_ATTEMPTS || !isTransient(err)) throw err;
+          await sleep(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+        }
+      }
+    };
+
+    const result = tailRef.current.then(send).then(
+      (value) => {
+        mutation.commit?.(value);
+        return value;
+      },
+      (err) => {
+        console.error(mutation.label, err);
+        mutation.rollback?.(err);
+        const failure = new MutationFailedError(mutation.label, err);
+        optionsRef.current.onError(failure.message, () => { run(mutation).catch(() => {}); });
+        throw failure;
+      },
+    ).finally(() => {
+      if (--pendingRef.current === 0) optionsRef.current.onIdle?.();
+    });
+    tailRef.current = result.catch(() => {});
+    return result;
+  }, []);
+
+  /** Fire-and-forget run(): failures are reported through onError only */
+  const mutate = useCallback(<T>(mutation: Mutation<T>) => {
+    run(mutation).catch(() => {});
+  }, [run]);
+
+  /** Whether writes are still queued or in flight (a reload now would show the board without them) */
+  const isPending = useCallback(() => pendingRef.current > 0, []);
+
+  return { run, mutate, isPending };
+}
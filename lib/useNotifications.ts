@@ -2,15 +2,20 @@
  * useNotifications — tracks new/unread items per tab.
  *
  * Stores "last viewed" timestamp per tab in localStorage.
- * Polls lightweight API data to count items newer than lastViewed.
- * Returns badge counts and a markViewed(tab) function.
+ * Re-counts items newer than lastViewed whenever /api/events reports a change
+ * (falls back to polling while the event stream is down).
+ * Returns badge counts and a markViewed(tab) function, plus pushToast() for toasts
+ * raised by the UI itself (e.g. "Task deleted" with an Undo button).
  */
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { TabId } from '../types';
+import { TabId, ToastAction } from '../types';
 import * as api from './api';
+import { useServerEvents } from './useServerEvents';
 
 const STORAGE_KEY = 'zyga-tab-last-viewed';
-const POLL_INTERVAL = 15_000; // 15 seconds
+const FALLBACK_POLL_INTERVAL = 15_000; // 15 seconds, only while the event stream is down
+const TOAST_DURATION = 5000;
+const ACTION_TOAST_DURATION = 8000; // longer, to leave time to click the button
 
 interface TabBadges {
   dashboard: number;
@@ -23,6 +28,7 @@ interface NotificationToast {
   id: string;
   message: string;
   timestamp: number;
+  action?: ToastAction;
 }
 
 function loadLastViewed(): Record<TabId, number> {
@@ -65,21 +71,28 @@ export function useNotifications(activeTab: TabId) {
     setToasts((prev) => prev.filter((t) => t.id !== id));
   }, []);
 
-  // ── Poll APIs for new items ──
+  // ── Show a toast from the UI ──
+  const pushToast = useCallback((message: string, action?: ToastAction) => {
+    const toast: NotificationToast = { id: `toast-ui-${Date.now()}-${Math.random()}`, message, timestamp: Date.now(), action };
+    setToasts((prev) => [...prev.slice(-4), toast]); // max 5 toasts
+  }, []);
+
+  // ── Fetch API data and count new items ──
   const pollForUpdates = useCallback(async () => {
     const lv = lastViewedRef.current;
 
     try {
       // Fetch all sources in parallel
-      const [tasks, logEntries, docs] = await Promise.all([
-        api.fetchTasks().catch(() => [] as api.Task[]),
+      const [board, logEntries, docs] = await Promise.all([
+        api.fetchBoard().catch((): api.Board => ({ columns: [], tasks: [] })),
         api.fetchActivityLog().catch(() => [] as api.ActivityLogEntry[]),
         api.fetchDocuments().catch(() => [] as api.DocumentIndexItem[]),
       ]);
 
-      // Dashboard: count tasks completed (in "done" column) after lastViewed
-      const dashboardNew = tasks.filter(
-        (t) => t.status === 'done' && t.createdAt > lv.dashboard
+      // Dashboard: count tasks completed (in a done-kind column) after lastViewed
+      const doneColumns = new Set(board.columns.filter((c) => c.kind === 'done').map((c) => c.key));
+      const dashboardNew = board.tasks.filter(
+        (t) => doneColumns.has(t.status) && t.createdAt > lv.dashboard
       ).length;
 
       // Log: count entries after lastViewed
@@ -133,18 +146,22 @@ export function useNotifications(activeTab: TabId) {
 
   useEffect(() => {
     pollForUpdates();
-    const id = setInterval(pollForUpdates, POLL_INTERVAL);
-    return () => clearInterval(id);
   }, [pollForUpdates]);
 
-  // ── Auto-dismiss toasts after 5 seconds ──
+  useServerEvents(
+    ['tasks.changed', 'activity-log.changed', 'documents.changed'],
+    pollForUpdates,
+    { fallback: pollForUpdates, fallbackInterval: FALLBACK_POLL_INTERVAL }
+  );
+
+  // ── Auto-dismiss toasts after 5 seconds (8 with a button) ──
   useEffect(() => {
     if (toasts.length === 0) return;
     const timers = toasts.map((t) =>
-      setTimeout(() => dismissToast(t.id), 5000)
+      setTimeout(() => dismissToast(t.id), t.action ? ACTION_TOAST_DURATION : TOAST_DURATION)
     );
     return () => timers.forEach(clearTimeout);
   }, [toasts, dismissToast]);
 
-  return { badges, toasts, markViewed, dismissToast };
+  return { badges, toasts, markViewed, dismissToast, pushToast };
 }
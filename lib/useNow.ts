@@ -0,0 +1,17 @@
+/**
+ * useNow — the current time, re-rendering the caller every `intervalMs`.
+ *
+ * For relative labels ("due in 3h") that must tick without any data changing.
+ */
+import { useState, useEffect } from 'react';
+
+export function useNow(intervalMs = 60_000): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -0,0 +1,54 @@
+/**
+ * useServerEvents — subscribes a component to pushed events from /api/events.
+ *
+ * Calls `onEvent` for every event whose type is in `types`.
+ * While the stream is down, `fallback` is polled every `fallbackInterval` ms instead,
+ * and it runs once more on reconnect to catch anything missed during the gap.
+ * Returns whether the stream is currently connected.
+ */
+import { useState, useEffect, useRef } from 'react';
+import * as api from './api';
+
+interface UseServerEventsOptions {
+  fallback?: () => void;
+  fallbackInterval?: number; // ms, 0 = no fallback polling
+}
+
+export function useServerEvents(
+  types: api.ServerEventType[],
+  onEvent: (event: api.ServerEvent) => void,
+  options: UseServerEventsOptions = {}
+): boolean {
+  const { fallback, fallbackInterval = 0 } = options;
+  const [connected, setConnected] = useState(false);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+  const fallbackRef = useRef(fallback);
+  fallbackRef.current = fallback;
+  const hasConnectedRef = useRef(false);
+
+  const typesKey = types.join(',');
+
+  // ── Event subscription ──
+  useEffect(() => {
+    return api.subscribeToEvents((event) => onEventRef.current(event), typesKey.split(',') as api.ServerEventType[]);
+  }, [typesKey]);
+
+  // ── Connection status (+ catch-up refetch on reconnect) ──
+  useEffect(() => {
+    return api.subscribeToStreamStatus((isConnected) => {
+      setConnected(isConnected);
+      if (isConnected && hasConnectedRef.current) fallbackRef.current?.();
+      if (isConnected) hasConnectedRef.current = true;
+    });
+  }, []);
+
+  // ── Polling fallback while disconnected ──
+  useEffect(() => {
+    if (connected || fallbackInterval <= 0) return;
+    const id = setInterval(() => fallbackRef.current?.(), fallbackInterval);
+    return () => clearInterval(id);
+  }, [connected, fallbackInterval]);
+
+  return connected;
+}
@@ -0,0 +1,47 @@
+/**
+ * useUndoStack — undo / redo history of the user's own changes.
+ *
+ * Each entry knows how to revert and reapply itself against the server. Recording a new
+ * change clears the redo history. An entry whose undo or redo fails (e.g. the task was
+ * deleted elsewhere) is dropped, since it can't be replayed any more.
+ */
+import { useCallback, useRef } from 'react';
+
+const MAX_ENTRIES = 50;
+
+export interface UndoEntry {
+  label: string; // e.g. Deleted "Write report"
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export function useUndoStack() {
+  const undoRef = useRef<UndoEntry[]>([]);
+  const redoRef = useRef<UndoEntry[]>([]);
+  const busyRef = useRef(false); // one step at a time, so quick repeats don't interleave
+
+  const record = useCallback((entry: UndoEntry) => {
+    undoRef.current = [...undoRef.current.slice(-(MAX_ENTRIES - 1)), entry];
+    redoRef.current = [];
+  }, []);
+
+  /** Replay the newest entry of `from` and move it onto `to`. Resolves to the entry, or null if there was nothing to do. */
+  const step = useCallback(async (from: typeof undoRef, to: typeof undoRef, run: 'undo' | 'redo') => {
+    const entry = from.current[from.current.length - 1];
+    if (!entry || busyRef.current) return null;
+    busyRef.current = true;
+    try {
+      await entry[run]();
+      to.current = [...to.current, entry];
+      return entry;
+    } finally {
+      from.current = from.current.filter((e) => e !== entry);
+      busyRef.current = false;
+    }
+  }, []);
+
+  const undo = useCallback(() => step(undoRef, redoRef, 'undo'), [step]);
+  const redo = useCallback(() => step(redoRef, undoRef, 'redo'), [step]);
+
+  return { record, undo, redo };
+}
@@ -10,6 +10,21 @@ import path from 'path';
 import http from 'http';
 import os from 'os';
 import { fileURLToPath } from 'url';
+import { watch } from 'fs';
+import { createHash } from 'crypto';
+import { handleEventStream, publish, clientCount } from './lib/event-stream.js';
+import { indexDocument, removeDocument, rebuildIndex, search as searchDocuments } from './lib/search-index.js';
+import { readJsonFile, updateJson, WriteConflictError } from './lib/json-store.js';
+import { diffDocuments } from './lib/text-diff.js';
+import {
+  RETENTION_POLICY, snapshotVersion, versionTimestamp, pruneVersionsNow, versionStorageStats,
+  readPins, pinVersion, unpinVersion,
+} from './lib/version-history.js';
+import { actorOf, describeTaskChanges, appendTaskHistory, readTaskHistory } from './lib/task-history.js';
+import { findDependencyCycle, blockingTasks } from './lib/task-dependencies.js';
+import { cronError, nextCronTime, upcomingCronTimes, cronFrequency } from './lib/cron.js';
+import { addToTrash, readTrash, removeFromTrash, trashExpiry, purgeTrash } from './lib/trash.js';
+import { saveAttachment, attachmentPath, removeAttachmentFile, sweepAttachments } from './lib/attachments.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -21,9 +36,14 @@ const PORT = process.env.API_PORT || 3002;
 const PROJECT_ROOT = path.resolve(__dirname, '..');
 const DATA_DIR = path.join(PROJECT_ROOT, 'data', 'dashboard-data');
 const DOCUMENTS_DIR = path.join(PROJECT_ROOT, 'data', 'documents');
+const VERSIONS_DIR = path.join(DOCUMENTS_DIR, '.versions');
 
 app.use(cors());
-app.use(express.json());
+
+// Note attachment uploads are read raw whatever their type (a .json file too), see readAttachmentBody
+const ATTACHMENT_UPLOAD_RE = /^\/api\/notes\/[^/]+\/attachments\/?$/i;
+const parseJson = express.json();
+app.use((req, res, next) => (req.method === 'POST' && ATTACHMENT_UPLOAD_RE.test(req.path) ? next() : parseJson(req, res, next)));
 
 // Root route — API server info (useful when visiting localhost:3001 directly)
 app.get('/', (req, res) => {
@@ -31,10 +51,24 @@ app.get('/', (req, res) => {
     name: 'Zyga Dashboard API',
     version: '1.0',
     message: 'API server is running. Use the frontend at localhost:3000',
-    endpoints: ['/api/tasks', '/api/notes', '/api/deliverables', '/api/activity-log', '/api/documents', '/api/overview'],
+    endpoints: ['/api/tasks', '/api/notes', '/api/deliverables', '/api/activity-log', '/api/documents', '/api/overview', '/api/events'],
   });
 });
 
+/**
+ * Answer a request that failed unexpectedly. A WriteConflictError (the file kept changing on
+ * disk while the route tried to write it) is 503 with Retry-After, so clients try again later;
+ * anything else is 500.
+ */
+function sendServerError(res, route, err) {
+  console.error(route, err);
+  if (err instanceof WriteConflictError) {
+    res.set('Retry-After', '1');
+    return res.status(503).json({ error: err.message });
+  }
+  res.status(500).json({ error: err.message });
+}
+
 // Helper: read JSON file
 async function readJson(filePath) {
   try {
@@ -52,6 +86,11 @@ async function writeJson(filePath, obj) {
   await fs.writeFile(filePath, JSON.stringify(obj, null, 2), 'utf-8');
 }
 
+// Helper: an id chosen by the client (letters, digits, - and _), or null
+function clientId(value) {
+  return typeof value === 'string' && /^[\w-]{1,64}$/.test(value) ? value : null;
+}
+
 // Helper: simple UUID v4
 function uuid() {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
@@ -111,33 +150,201 @@ function buildFrontmatter(meta) {
 // --- TASKS API ---
 
 const TASKS_PATH = path.join(DATA_DIR, 'tasks.json');
+const TASK_HISTORY_PATH = path.join(DATA_DIR, 'task-history.json');
 
-/** Flatten columns to Task[] for frontend; map column key to status */
-function tasksToFrontend(data) {
-  if (!data?.columns) return [];
-  const statusMap = { todo: 'todo', in_progress: 'in-progress', done: 'done', archive: 'archive' };
-  const priorityMap = { high: 'High', medium: 'Medium', low: 'Low' };
-  const tasks = [];
-  for (const [colKey, col] of Object.entries(data.columns)) {
-    const status = statusMap[colKey] ?? colKey;
-    for (const t of col.tasks || []) {
-      tasks.push({
-        id: t.id,
-        title: t.title,
-        description: t.description || undefined,
-        status,
-        priority: priorityMap[t.priority] || 'Medium',
-        createdAt: new Date(t.created_at).getTime(),
-      });
-    }
+// Columns are user-defined (see BOARD COLUMNS API); the order of the `columns` object is the
+// board order and a task's status is its column key. A column's `kind` says what it means:
+// 'open' (work to do), 'done' (completed — no overdue alerts) or 'archive' (at most one; collapsed).
+const COLUMN_KINDS = ['open', 'done', 'archive'];
+
+function emptyBoard() {
+  return {
+    columns: {
+      todo: { name: 'To Do', kind: 'open', wip_limit: null, tasks: [] },
+      in_progress: { name: 'In Progress', kind: 'open', wip_limit: null, tasks: [] },
+      done: { name: 'Done', kind: 'done', wip_limit: null, tasks: [] },
+      archive: { name: 'Archive', kind: 'archive', wip_limit: null, tasks: [] },
+    },
+  };
+}
+
+/** A column's kind; boards saved before columns were configurable have none, so the built-in keys imply it */
+function columnKind(key, col) {
+  if (COLUMN_KINDS.includes(col?.kind)) return col.kind;
+  return key === 'done' || key === 'archive' ? key : 'open';
+}
+
+/**
+ * The column key a request's `status` refers to, or null if there is no such column.
+ * Also accepts the old dashed spelling ('in-progress' for in_progress).
+ */
+function resolveColumn(data, status) {
+  if (typeof status !== 'string' || !data.columns) return null;
+  if (Object.hasOwn(data.columns, status)) return status;
+  const underscored = status.replace(/-/g, '_');
+  return Object.hasOwn(data.columns, underscored) ? underscored : null;
+}
+
+/** Where new tasks go when no status is given: the first open column */
+function defaultColumn(data) {
+  const keys = Object.keys(data.columns || {});
+  return keys.find((k) => columnKind(k, data.columns[k]) === 'open') || keys[0];
+}
+
+/**
+ * Order a column's tasks by their explicit `position` and renumber them 0..n-1.
+ * Tasks without a position (e.g. appended by the agent) keep their place in the array.
+ */
+function orderColumn(col) {
+  const tasks = col.tasks || [];
+  col.tasks = tasks
+    .map((t, i) => ({ t, key: Number.isFinite(t.position) ? t.position : i, i }))
+    .sort((a, b) => a.key - b.key || a.i - b.i)
+    .map(({ t }, position) => ({ ...t, position }));
+  return col;
+}
+
+/** Insert a task into a column at `position` (end if missing or out of range) and renumber */
+function insertAt(col, task, position) {
+  orderColumn(col);
+  const index = Number.isInteger(position) ? Math.max(0, Math.min(position, col.tasks.length)) : col.tasks.length;
+  col.tasks.splice(index, 0, task);
+  col.tasks = col.tasks.map((t, i) => ({ ...t, position: i }));
+}
+
+/**
+ * Normalize an optional date from a request body: undefined = not given,
+ * null / '' = clear it, otherwise an ISO string (accepts ms timestamps or date strings).
+ */
+function parseOptionalDate(value) {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const time = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+/**
+ * Normalize labels from a request body: undefined = not given, null = none.
+ * Accepts an array or a comma-separated string; trims, drops empties and case-insensitive duplicates.
+ */
+function parseLabels(value) {
+  if (value === undefined) return undefined;
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  const seen = new Set();
+  const labels = [];
+  for (const raw of list) {
+    const label = String(raw ?? '').trim().slice(0, 32);
+    if (!label || seen.has(label.toLowerCase())) continue;
+    seen.add(label.toLowerCase());
+    labels.push(label);
+  }
+  return labels;
+}
+
+/** Normalize a task assignee (any name, not just user / zyga): undefined = not given, null / '' = unassign */
+function parseTaskAssignee(value) {
+  if (value === undefined) return undefined;
+  const name = String(value ?? '').trim().slice(0, 40);
+  return name || null;
+}
+
+/**
+ * Normalize custom fields ({ [name]: value }): undefined = not given, null = none.
+ * Values are stored as strings; fields with an empty name or value are dropped.
+ */
+function parseCustomFields(value) {
+  if (value === undefined) return undefined;
+  const fields = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return fields;
+  for (const [rawKey, rawValue] of Object.entries(value)) {
+    const key = rawKey.trim().slice(0, 40);
+    const text = rawValue === null || rawValue === undefined ? '' : String(rawValue).trim().slice(0, 200);
+    if (key && text) fields[key] = text;
+  }
+  return fields;
+}
+
+/**
+ * Normalize prerequisite task ids: undefined = not given, null = none.
+ * Accepts an array or a comma-separated string; drops empties and duplicates.
+ */
+function parseDependsOn(value) {
+  if (value === undefined) return undefined;
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return [...new Set(list.map((id) => String(id ?? '').trim()).filter(Boolean))];
+}
+
+// after_done: the next occurrence comes once this one is finished; schedule: every time the cron fires
+const RECURRENCE_MODES = ['after_done', 'schedule'];
+
+/**
+ * Validate a recurrence rule from a request body ({ cron, mode? }): undefined = not given,
+ * null = stop repeating. Resolves to { value } or { error }; the value carries the next fire time.
+ */
+function parseRecurrence(value) {
+  if (value === undefined) return { value: undefined };
+  if (value === null || value === '') return { value: null };
+  const cron = String(value.cron ?? '').trim();
+  const error = cronError(cron);
+  if (error) return { error: `recurrence.cron: ${error}` };
+  const mode = value.mode ?? 'after_done';
+  if (!RECURRENCE_MODES.includes(mode)) return { error: `recurrence.mode must be one of ${RECURRENCE_MODES.join(', ')}` };
+  const next = nextCronTime(cron);
+  if (!next) return { error: 'recurrence.cron never fires' };
+  return { value: { cron, mode, next_at: next.toISOString() } };
+}
+
+/** Every task's depends_on list by task id */
+function dependencyGraph(data) {
+  const graph = new Map();
+  for (const col of Object.values(data.columns || {})) {
+    for (const t of col.tasks || []) graph.set(t.id, t.depends_on || []);
   }
-  return tasks;
+  return graph;
+}
+
+/** Why `taskId` can't depend on `dependsOn` (unknown task, itself, or a cycle), or null if it can */
+function dependencyError(data, taskId, dependsOn) {
+  const graph = dependencyGraph(data);
+  if (dependsOn.includes(taskId)) return 'A task cannot depend on itself';
+  const unknown = dependsOn.filter((id) => !graph.has(id));
+  if (unknown.length > 0) return `Unknown task(s) in dependsOn: ${unknown.join(', ')}`;
+  const cycle = findDependencyCycle(graph, taskId, dependsOn);
+  if (cycle) {
+    const titles = new Map(Object.values(data.columns).flatMap((col) => (col.tasks || []).map((t) => [t.id, t.title])));
+    return `Dependency cycle: ${cycle.map((id) => `"${titles.get(id) ?? id}"`).join(' → ')}`;
+  }
+  return null;
+}
+
+/** Unfinished prerequisites per task id (see server/lib/task-dependencies.js) */
+function blockedTasks(data) {
+  return blockingTasks(Object.entries(data.columns || {}).flatMap(([key, col]) =>
+    (col.tasks || []).map((t) => ({ id: t.id, depends_on: t.depends_on, finished: columnKind(key, col) !== 'open' }))));
+}
+
+const CHECKLIST_ASSIGNEES = ['user', 'zyga'];
+
+/** Build a checklist item from request input ({ text, assignee, done } or just the text); null if it has no text */
+function newChecklistItem(input) {
+  const fields = typeof input === 'string' ? { text: input } : input || {};
+  const text = String(fields.text ?? '').trim();
+  if (!text) return null;
+  const now = new Date().toISOString();
+  const done = fields.done === true;
+  return {
+    id: uuid(),
+    text,
+    done,
+    assignee: CHECKLIST_ASSIGNEES.includes(fields.assignee) ? fields.assignee : null,
+    created_at: now,
+    done_at: done ? now : null,
+  };
 }
 
 /** Map frontend task to backend format */
 function taskToBackend(task, createdBy = 'user') {
   const priorityMap = { High: 'high', Medium: 'medium', Low: 'low' };
-  const colMap = { todo: 'todo', 'in-progress': 'in_progress', done: 'done', archive: 'archive' };
   const now = new Date().toISOString();
   return {
     id: task.id || uuid(),
@@ -147,58 +354,97 @@ function taskToBackend(task, createdBy = 'user') {
     created_at: task.createdAt ? new Date(task.createdAt).toISOString() : now,
     updated_at: now,
     created_by: createdBy,
+    due_at: parseOptionalDate(task.dueAt) || null,
+    reminder_at: parseOptionalDate(task.reminderAt) || null,
+    checklist: (Array.isArray(task.checklist) ? task.checklist : []).map(newChecklistItem).filter(Boolean),
+    labels: parseLabels(task.labels) || [],
+    assignee: parseTaskAssignee(task.assignee) || null,
+    custom_fields: parseCustomFields(task.customFields) || {},
+    depends_on: [],
+    recurrence: null,
+    revision: 1,
   };
 }
 
 // GET /api/tasks
 app.get('/api/tasks', async (req, res) => {
   try {
-    const data = await readJson(TASKS_PATH);
-    if (!data) {
-      return res.json({ columns: { todo: { name: 'To Do', tasks: [] }, in_progress: { name: 'In Progress', tasks: [] }, done: { name: 'Done', tasks: [] }, archive: { name: 'Archive', tasks: [] } } });
+    const data = (await readJsonFile(TASKS_PATH)) || emptyBoard();
+    const blocked = blockedTasks(data);
+    for (const [key, col] of Object.entries(data.columns || {})) {
+      orderColumn(col);
+      col.kind = columnKind(key, col);
+      col.wip_limit = col.wip_limit ?? null;
+      for (const t of col.tasks) t.blocked_by = blocked.get(t.id) || [];
     }
     res.json(data);
   } catch (err) {
-    console.error('GET /api/tasks', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'GET /api/tasks', err);
   }
 });
 
-// POST /api/tasks - create
+// POST /api/tasks - create. The client may pick the `id`; sending the same one again (a retry
+// whose response got lost) returns the existing task instead of creating a duplicate
 app.post('/api/tasks', async (req, res) => {
   try {
     const body = req.body;
+    const by = actorOf(body.by);
     const task = taskToBackend({
-      id: uuid(),
+      id: clientId(body.id) || uuid(),
       title: body.title,
       description: body.description,
       priority: body.priority || 'Medium',
-      status: body.status || 'todo',
       createdAt: Date.now(),
-    });
-
-    let data = await readJson(TASKS_PATH);
-    if (!data || !data.columns) {
-      data = {
-        columns: {
-          todo: { name: 'To Do', tasks: [] },
-          in_progress: { name: 'In Progress', tasks: [] },
-          done: { name: 'Done', tasks: [] },
-          archive: { name: 'Archive', tasks: [] },
-        },
-      };
-    }
-
-    const colKey = { todo: 'todo', 'in-progress': 'in_progress', done: 'done', archive: 'archive' }[task.status] || 'todo';
-    const col = data.columns[colKey];
-    if (!col.tasks) col.tasks = [];
-    col.tasks.push(task);
-
-    await writeJson(TASKS_PATH, data);
-    res.status(201).json(task);
+      dueAt: body.dueAt,
+      reminderAt: body.reminderAt,
+      checklist: body.checklist,
+      labels: body.labels,
+      assignee: body.assignee,
+      customFields: body.customFields,
+    }, by);
+    const dependsOn = parseDependsOn(body.dependsOn);
+    const recurrence = parseRecurrence(body.recurrence);
+    if (recurrence.error) return res.status(400).json({ error: recurrence.error });
+    task.recurrence = recurrence.value || null;
+    const sourceNote = clientId(body.sourceNote);
+    if (sourceNote) task.source_note = sourceNote;
+
+    let error = null;
+    let existing = null;
+    let colKey = null;
+    let created = task;
+    await updateJson(TASKS_PATH, (data) => {
+      error = null;
+      existing = null;
+      if (!data.columns || Object.keys(data.columns).length === 0) Object.assign(data, emptyBoard());
+      for (const [key, col] of Object.entries(data.columns)) {
+        const found = (col.tasks || []).find((t) => t.id === task.id);
+        if (found) existing = { ...found, status: key };
+      }
+      if (existing) return false;
+      if (dependsOn) {
+        error = dependencyError(data, task.id, dependsOn);
+        if (error) return false;
+        task.depends_on = dependsOn;
+      }
+      colKey = body.status != null ? resolveColumn(data, body.status) : defaultColumn(data);
+      if (!colKey) {
+        error = `Unknown column: ${body.status}`;
+        return false;
+      }
+      const col = data.columns[colKey];
+      insertAt(col, task, body.position);
+      created = col.tasks.find((t) => t.id === task.id);
+      return true;
+    }, { fallback: emptyBoard });
+    if (existing) return res.json(existing);
+    if (error) return res.status(400).json({ error });
+
+    publish('tasks.changed');
+    await recordTaskHistory([{ task_id: task.id, type: 'created', by, status: colKey, from_note: task.source_note }]);
+    res.status(201).json({ ...created, status: colKey });
   } catch (err) {
-    console.error('POST /api/tasks', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'POST /api/tasks', err);
   }
 });
 
@@ -207,152 +453,1523 @@ app.put('/api/tasks/:id', async (req, res) => {
   try {
     const { id } = req.params;
     const body = req.body;
+    // Optional optimistic-concurrency check: the revision the client last saw
+    const expectedRevision = body.revision !== undefined ? Number(body.revision) : null;
+    const revisionValid = ['number', 'string'].includes(typeof body.revision) && Number.isInteger(expectedRevision) && expectedRevision >= 0;
+    if (expectedRevision !== null && !revisionValid) {
+      return res.status(400).json({ error: 'revision must be a non-negative integer' });
+    }
 
-    let data = await readJson(TASKS_PATH);
-    if (!data?.columns) return res.status(404).json({ error: 'Tasks not found' });
+    // Optional index within the (target) column; moves without one go to the end
+    const position = Number.isInteger(body.position) ? body.position : undefined;
+    const dueAt = parseOptionalDate(body.dueAt);
+    const reminderAt = parseOptionalDate(body.reminderAt);
+    const labels = parseLabels(body.labels);
+    const assignee = parseTaskAssignee(body.assignee);
+    const customFields = parseCustomFields(body.customFields);
+    const dependsOn = parseDependsOn(body.dependsOn);
+    const recurrence = parseRecurrence(body.recurrence);
+    if (recurrence.error) return res.status(400).json({ error: recurrence.error });
 
     let found = null;
+    let updated = null;
+    let error = null;
     let fromCol = null;
+    let toCol = null;
+    await updateJson(TASKS_PATH, (data) => {
+      found = null;
+      updated = null;
+      error = null;
+      if (!data.columns) return false;
+
+      fromCol = null;
+      for (const [colKey, col] of Object.entries(data.columns)) {
+        const idx = (col.tasks || []).findIndex((t) => t.id === id);
+        if (idx >= 0) {
+          found = col.tasks[idx];
+          fromCol = colKey;
+          break;
+        }
+      }
+      if (!found) return false;
+      if (expectedRevision !== null && (found.revision || 0) !== expectedRevision) return false;
+      if (dependsOn) {
+        error = dependencyError(data, id, dependsOn);
+        if (error) return false;
+      }
+      toCol = body.status != null ? resolveColumn(data, body.status) : fromCol;
+      if (!toCol) {
+        error = `Unknown column: ${body.status}`;
+        return false;
+      }
+
+      updated = {
+        ...found,
+        title: body.title ?? found.title,
+        description: body.description !== undefined ? body.description : found.description,
+        priority: body.priority ? ({ High: 'high', Medium: 'medium', Low: 'low' }[body.priority] || found.priority) : found.priority,
+        updated_at: new Date().toISOString(),
+        revision: (found.revision || 0) + 1,
+      };
+      if (labels !== undefined) updated.labels = labels;
+      if (assignee !== undefined) updated.assignee = assignee;
+      if (customFields !== undefined) updated.custom_fields = customFields;
+      // An unchanged rule keeps its schedule
+      if (recurrence.value !== undefined) {
+        const rule = found.recurrence;
+        const same = rule && recurrence.value && rule.cron === recurrence.value.cron && rule.mode === recurrence.value.mode;
+        if (!same) updated.recurrence = recurrence.value;
+      }
+      // New prerequisites re-arm the heartbeat's "unblocked" notice
+      if (dependsOn && JSON.stringify(dependsOn) !== JSON.stringify(found.depends_on || [])) {
+        updated.depends_on = dependsOn;
+        delete updated.unblocked_notified_at;
+      }
+      // A new due date / reminder time re-arms its alert
+      if (dueAt !== undefined && dueAt !== (found.due_at || null)) {
+        updated.due_at = dueAt;
+        delete updated.overdue_notified_at;
+      }
+      if (reminderAt !== undefined && reminderAt !== (found.reminder_at || null)) {
+        updated.reminder_at = reminderAt;
+        delete updated.reminder_sent_at;
+      }
+
+      if (toCol !== fromCol || position !== undefined) {
+        data.columns[fromCol].tasks = data.columns[fromCol].tasks.filter((t) => t.id !== id);
+        orderColumn(data.columns[fromCol]);
+        insertAt(data.columns[toCol], updated, position);
+        updated = data.columns[toCol].tasks.find((t) => t.id === id);
+      } else {
+        const col = data.columns[fromCol];
+        const idx = col.tasks.findIndex((t) => t.id === id);
+        col.tasks[idx] = updated;
+      }
+      return true;
+    });
+
+    if (!found) return res.status(404).json({ error: 'Task not found' });
+    if (error) return res.status(400).json({ error });
+    if (!updated) {
+      return res.status(409).json({ error: 'Task was modified by someone else', task: found });
+    }
+    publish('tasks.changed');
+
+    // An optional `comment` says why (e.g. "blocked on API keys" when moving back)
+    const by = actorOf(body.by);
+    const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+    await recordTaskHistory([
+      ...describeTaskChanges(found, updated, fromCol, toCol),
+      ...(comment ? [{ type: 'comment', text: comment }] : []),
+    ].map((e) => ({ task_id: id, by, ...e })));
+    res.json({ ...updated, status: toCol });
+  } catch (err) {
+    sendServerError(res, 'PUT /api/tasks/:id', err);
+  }
+});
+
+// POST /api/tasks/reorder - set the order of whole columns at once
+// Body: { order: { [status]: [taskId, ...] } }. Listed tasks are placed first, in the given
+// order (moved into that column if they were elsewhere); unlisted tasks keep their relative
+// order after them. Pure reorders don't bump task revisions; column moves do.
+app.post('/api/tasks/reorder', async (req, res) => {
+  try {
+    const order = req.body?.order;
+    if (!order || typeof order !== 'object' || Object.values(order).some((ids) => !Array.isArray(ids))) {
+      return res.status(400).json({ error: 'order must map a status to an array of task ids' });
+    }
+
+    let missing = [];
+    let moves = [];
+    const data = await updateJson(TASKS_PATH, (board) => {
+      missing = [];
+      moves = [];
+      if (!board.columns) Object.assign(board, emptyBoard());
+      const now = new Date().toISOString();
+
+      for (const [status, ids] of Object.entries(order)) {
+        const colKey = resolveColumn(board, status);
+        const target = colKey && board.columns[colKey];
+        if (!target) {
+          missing.push(...ids);
+          continue;
+        }
+        const placed = [];
+        for (const id of ids) {
+          const fromKey = Object.keys(board.columns).find((k) => (board.columns[k].tasks || []).some((t) => t.id === id));
+          if (!fromKey) {
+            missing.push(id);
+            continue;
+          }
+          const from = board.columns[fromKey];
+          let task = from.tasks.find((t) => t.id === id);
+          from.tasks = from.tasks.filter((t) => t.id !== id);
+          if (fromKey !== colKey) {
+            task = { ...task, updated_at: now, revision: (task.revision || 0) + 1 };
+            orderColumn(from);
+            moves.push({ task_id: id, type: 'status', from: fromKey, to: colKey });
+          }
+          placed.push(task);
+        }
+        orderColumn(target);
+        target.tasks = [...placed, ...target.tasks].map((t, i) => ({ ...t, position: i }));
+      }
+      return true;
+    }, { fallback: emptyBoard });
+
+    publish('tasks.changed');
+    const by = actorOf(req.body.by);
+    await recordTaskHistory(moves.map((m) => ({ ...m, by })));
+    res.json({ ...data, missing });
+  } catch (err) {
+    sendServerError(res, 'POST /api/tasks/reorder', err);
+  }
+});
+
+// POST /api/tasks/batch - apply one action to many tasks in a single write
+// Body: { ids: [taskId, ...], action, by?, ...params } where action is
+//   move { status } | archive | priority { priority } | label { label } | delete
+// Moved tasks go to the end of the target column in the given order. All or nothing: an
+// invalid action or parameter changes no task; unknown ids are skipped and returned as `missing`.
+const BATCH_ACTIONS = ['move', 'archive', 'priority', 'label', 'delete'];
+
+app.post('/api/tasks/batch', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const ids = Array.isArray(body.ids) ? [...new Set(body.ids.map(String))] : null;
+    if (!ids || ids.length === 0) return res.status(400).json({ error: 'ids must be a non-empty array of task ids' });
+    if (!BATCH_ACTIONS.includes(body.action)) {
+      return res.status(400).json({ error: `action must be one of ${BATCH_ACTIONS.join(', ')}` });
+    }
+    const priority = body.action === 'priority' ? { High: 'high', Medium: 'medium', Low: 'low' }[body.priority] : undefined;
+    if (body.action === 'priority' && !priority) return res.status(400).json({ error: 'priority must be High, Medium or Low' });
+    const [label] = body.action === 'label' ? parseLabels(body.label) || [] : [];
+    if (body.action === 'label' && !label) return res.status(400).json({ error: 'label is required' });
+
+    let error = null;
+    let missing = [];
+    let changes = [];
+    let trashed = [];
+    let target = null;
+    const data = await updateJson(TASKS_PATH, (board) => {
+      error = null;
+      missing = [];
+      changes = [];
+      trashed = [];
+      if (!board.columns) return false;
+      const now = new Date().toISOString();
+
+      target = null;
+      if (body.action === 'move') {
+        target = resolveColumn(board, body.status);
+        if (!target) {
+          error = `Unknown column: ${body.status}`;
+          return false;
+        }
+      } else if (body.action === 'archive') {
+        target = Object.keys(board.columns).find((k) => columnKind(k, board.columns[k]) === 'archive');
+        if (!target) {
+          error = 'There is no archive column';
+          return false;
+        }
+      }
+
+      const moved = [];
+      for (const id of ids) {
+        const fromKey = Object.keys(board.columns).find((k) => (board.columns[k].tasks || []).some((t) => t.id === id));
+        if (!fromKey) {
+          missing.push(id);
+          continue;
+        }
+        const col = board.columns[fromKey];
+        const found = col.tasks.find((t) => t.id === id);
+
+        if (body.action === 'delete') {
+          changes.push({ task_id: id, type: 'deleted' });
+          continue;
+        }
+        if (target) {
+          if (fromKey === target) continue;
+          col.tasks = col.tasks.filter((t) => t.id !== id);
+          moved.push({ ...found, updated_at: now, revision: (found.revision || 0) + 1 });
+          changes.push({ task_id: id, type: 'status', from: fromKey, to: target });
+          continue;
+        }
+        const updated = { ...found };
+        if (priority) {
+          if (found.priority === priority) continue;
+          updated.priority = priority;
+        } else {
+          if ((found.labels || []).some((l) => l.toLowerCase() === label.toLowerCase())) continue;
+          updated.labels = [...(found.labels || []), label];
+        }
+        updated.updated_at = now;
+        updated.revision = (found.revision || 0) + 1;
+        col.tasks = col.tasks.map((t) => (t.id === id ? updated : t));
+        changes.push(...describeTaskChanges(found, updated, fromKey, fromKey).map((e) => ({ task_id: id, ...e })));
+      }
+
+      if (body.action === 'delete') trashed = removeTasks(board, new Set(changes.map((c) => c.task_id)));
+      if (target && moved.length > 0) {
+        orderColumn(board.columns[target]);
+        board.columns[target].tasks = [...board.columns[target].tasks, ...moved].map((t, i) => ({ ...t, position: i }));
+      }
+      for (const col of Object.values(board.columns)) orderColumn(col);
+      return changes.length > 0;
+    });
+
+    if (error) return res.status(400).json({ error });
+    const affected = new Set(changes.map((c) => c.task_id)).size;
+    if (affected > 0) {
+      const by = actorOf(body.by);
+      await trashRemoved(trashed.map((e) => ({ ...e, by })));
+      publish('tasks.changed');
+      await recordTaskHistory(changes.map((c) => ({ ...c, by })));
+      const plural = `${affected} task${affected !== 1 ? 's' : ''}`;
+      const description = {
+        move: () => `📋 Moved ${plural} to ${data.columns[target]?.name || target}`,
+        archive: () => `📦 Archived ${plural}`,
+        priority: () => `📋 Set ${plural} to ${body.priority} priority`,
+        label: () => `🏷️ Labeled ${plural} "${label}"`,
+        delete: () => `🗑️ Deleted ${plural}`,
+      }[body.action]();
+      await appendActivity([{ type: 'info', color: 'blue', description }]);
+    }
+    res.json({ ...data, affected, missing });
+  } catch (err) {
+    sendServerError(res, 'POST /api/tasks/batch', err);
+  }
+});
+
+/**
+ * Take tasks off the board for the trash: removes them from their columns and from other
+ * tasks' depends_on. Returns trash entries ({ kind, item, column, position, dependents }).
+ */
+function removeTasks(data, ids) {
+  const removed = [];
+  for (const [key, col] of Object.entries(data.columns || {})) {
+    orderColumn(col);
+    for (const task of col.tasks.filter((t) => ids.has(t.id))) {
+      removed.push({ kind: 'task', item: task, column: key, position: task.position, dependents: [] });
+    }
+    col.tasks = col.tasks.filter((t) => !ids.has(t.id));
+    orderColumn(col);
+  }
+  // Tasks that waited on them don't any more
+  const byId = new Map(removed.map((e) => [e.item.id, e]));
+  for (const col of Object.values(data.columns || {})) {
+    for (const t of col.tasks) {
+      const waitedOn = (t.depends_on || []).filter((d) => byId.has(d));
+      if (waitedOn.length === 0) continue;
+      for (const d of waitedOn) byId.get(d).dependents.push(t.id);
+      t.depends_on = t.depends_on.filter((d) => !byId.has(d));
+    }
+  }
+  return removed;
+}
+
+// DELETE /api/tasks/:id - moves the task to the trash
+app.delete('/api/tasks/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const by = actorOf(req.query.by);
+    let removed = [];
+    await updateJson(TASKS_PATH, (data) => {
+      removed = removeTasks(data, new Set([id]));
+      return removed.length > 0;
+    });
+    if (removed.length === 0) return res.status(404).json({ error: 'Task not found' });
+    const [entry] = await trashRemoved(removed.map((e) => ({ ...e, by })));
+    publish('tasks.changed');
+    await recordTaskHistory([{ task_id: id, type: 'deleted', by }]);
+    res.json({ trash_id: entry.id });
+  } catch (err) {
+    sendServerError(res, 'DELETE /api/tasks/:id', err);
+  }
+});
+
+// --- BOARD COLUMNS API ---
+// Columns live in tasks.json next to their tasks: columns.<key> = { name, kind, wip_limit, tasks }.
+
+/** Columns in board order, without their tasks: [{ key, name, kind, wip_limit, count }] */
+function columnsToResponse(data) {
+  return Object.entries(data.columns || {}).map(([key, col]) => ({
+    key,
+    name: col.name || key,
+    kind: columnKind(key, col),
+    wip_limit: col.wip_limit ?? null,
+    count: (col.tasks || []).length,
+  }));
+}
+
+/** A new unique key from a column name: "Waiting on Review" → waiting_on_review */
+function columnKeyFor(name, columns) {
+  let base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 32) || 'column';
+  if (/^\d+$/.test(base)) base = `col_${base}`; // integer-like keys would jump to the front of the object
+  let key = base;
+  for (let n = 2; Object.hasOwn(columns, key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+/** Rebuild the columns object in the given key order (the object's order is the board order) */
+function setColumnOrder(data, keys) {
+  data.columns = Object.fromEntries(keys.map((k) => [k, data.columns[k]]));
+}
+
+/**
+ * Validate column fields from a request body. Each is undefined when not given.
+ * Resolves to { name, kind, wipLimit } or { error }.
+ */
+function parseColumnFields(body) {
+  const fields = {};
+  if (body.name !== undefined) {
+    fields.name = String(body.name ?? '').trim().slice(0, 40);
+    if (!fields.name) return { error: 'name cannot be empty' };
+  }
+  if (body.kind !== undefined) {
+    if (!COLUMN_KINDS.includes(body.kind)) return { error: `kind must be one of ${COLUMN_KINDS.join(', ')}` };
+    fields.kind = body.kind;
+  }
+  if (body.wipLimit !== undefined) {
+    const limit = body.wipLimit === null || body.wipLimit === '' || body.wipLimit === 0 ? null : Number(body.wipLimit);
+    if (limit !== null && (!Number.isInteger(limit) || limit < 0)) return { error: 'wipLimit must be a positive integer or null' };
+    fields.wipLimit = limit;
+  }
+  return fields;
+}
+
+/** Another column of kind 'archive', if `key` would become a second one */
+function otherArchiveColumn(data, key) {
+  return Object.keys(data.columns).find((k) => k !== key && columnKind(k, data.columns[k]) === 'archive') || null;
+}
+
+// GET /api/board/columns
+app.get('/api/board/columns', async (req, res) => {
+  try {
+    const data = (await readJsonFile(TASKS_PATH)) || emptyBoard();
+    res.json({ columns: columnsToResponse(data) });
+  } catch (err) {
+    sendServerError(res, 'GET /api/board/columns', err);
+  }
+});
+
+// POST /api/board/columns - { name, kind?, wipLimit?, position? }; by default the new
+// column goes before the archive column (or at the end if there is none)
+app.post('/api/board/columns', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const fields = parseColumnFields(body);
+    if (fields.error) return res.status(400).json({ error: fields.error });
+    if (!fields.name) return res.status(400).json({ error: 'name is required' });
+
+    let error = null;
+    let key = null;
+    const data = await updateJson(TASKS_PATH, (board) => {
+      error = null;
+      if (!board.columns) Object.assign(board, emptyBoard());
+      const kind = fields.kind || 'open';
+      if (kind === 'archive' && otherArchiveColumn(board, null)) {
+        error = 'There is already an archive column';
+        return false;
+      }
+      key = columnKeyFor(fields.name, board.columns);
+      const keys = Object.keys(board.columns);
+      const archiveIndex = keys.findIndex((k) => columnKind(k, board.columns[k]) === 'archive');
+      const index = Number.isInteger(body.position)
+        ? Math.max(0, Math.min(body.position, keys.length))
+        : archiveIndex >= 0 ? archiveIndex : keys.length;
+      board.columns[key] = { name: fields.name, kind, wip_limit: fields.wipLimit ?? null, tasks: [] };
+      keys.splice(index, 0, key);
+      setColumnOrder(board, keys);
+      return true;
+    }, { fallback: emptyBoard });
+    if (error) return res.status(400).json({ error });
+
+    publish('tasks.changed');
+    res.status(201).json(columnsToResponse(data).find((c) => c.key === key));
+  } catch (err) {
+    sendServerError(res, 'POST /api/board/columns', err);
+  }
+});
+
+// POST /api/board/columns/reorder - { order: [key, ...] }: listed columns first, in that
+// order; unlisted ones keep their relative order after them
+app.post('/api/board/columns/reorder', async (req, res) => {
+  try {
+    const order = req.body?.order;
+    if (!Array.isArray(order)) return res.status(400).json({ error: 'order must be an array of column keys' });
+
+    let missing = [];
+    const data = await updateJson(TASKS_PATH, (board) => {
+      if (!board.columns) Object.assign(board, emptyBoard());
+      const keys = Object.keys(board.columns);
+      missing = order.filter((k) => !Object.hasOwn(board.columns, k));
+      const listed = order.filter((k, i) => Object.hasOwn(board.columns, k) && order.indexOf(k) === i);
+      setColumnOrder(board, [...listed, ...keys.filter((k) => !listed.includes(k))]);
+      return true;
+    }, { fallback: emptyBoard });
+
+    publish('tasks.changed');
+    res.json({ columns: columnsToResponse(data), missing });
+  } catch (err) {
+    sendServerError(res, 'POST /api/board/columns/reorder', err);
+  }
+});
+
+// PUT /api/board/columns/:key - rename, change kind, set or clear (null / 0) the WIP limit
+app.put('/api/board/columns/:key', async (req, res) => {
+  try {
+    const fields = parseColumnFields(req.body || {});
+    if (fields.error) return res.status(400).json({ error: fields.error });
+    const { key } = req.params;
+
+    let error = null;
+    let found = false;
+    const data = await updateJson(TASKS_PATH, (board) => {
+      error = null;
+      found = !!board.columns && Object.hasOwn(board.columns, key);
+      if (!found) return false;
+      if (fields.kind === 'archive' && otherArchiveColumn(board, key)) {
+        error = 'There is already an archive column';
+        return false;
+      }
+      const col = board.columns[key];
+      if (fields.name !== undefined) col.name = fields.name;
+      if (fields.kind !== undefined) col.kind = fields.kind;
+      if (fields.wipLimit !== undefined) col.wip_limit = fields.wipLimit;
+      return true;
+    });
+    if (!found) return res.status(404).json({ error: 'Column not found' });
+    if (error) return res.status(400).json({ error });
+
+    publish('tasks.changed');
+    res.json(columnsToResponse(data).find((c) => c.key === key));
+  } catch (err) {
+    sendServerError(res, 'PUT /api/board/columns/:key', err);
+  }
+});
+
+// DELETE /api/board/columns/:key?moveTo=<key> - a column that still has tasks needs
+// moveTo: its tasks are appended to that column. The last column can't be deleted.
+app.delete('/api/board/columns/:key', async (req, res) => {
+  try {
+    const { key } = req.params;
+    const moveTo = req.query.moveTo ? String(req.query.moveTo) : null;
+
+    let error = null;
+    let found = false;
+    let moved = [];
+    await updateJson(TASKS_PATH, (board) => {
+      error = null;
+      moved = [];
+      found = !!board.columns && Object.hasOwn(board.columns, key);
+      if (!found) return false;
+      const keys = Object.keys(board.columns);
+      if (keys.length === 1) {
+        error = 'The board needs at least one column';
+        return false;
+      }
+      const tasks = board.columns[key].tasks || [];
+      if (tasks.length > 0) {
+        if (!moveTo || moveTo === key || !Object.hasOwn(board.columns, moveTo)) {
+          error = `Column has ${tasks.length} task(s); pass moveTo=<column key> to move them`;
+          return false;
+        }
+        const now = new Date().toISOString();
+        const target = orderColumn(board.columns[moveTo]);
+        for (const t of orderColumn(board.columns[key]).tasks) {
+          target.tasks.push({ ...t, updated_at: now, revision: (t.revision || 0) + 1, position: target.tasks.length });
+          moved.push(t.id);
+        }
+      }
+      delete board.columns[key];
+      return true;
+    });
+    if (!found) return res.status(404).json({ error: 'Column not found' });
+    if (error) return res.status(400).json({ error });
+
+    publish('tasks.changed');
+    await recordTaskHistory(moved.map((id) => ({ task_id: id, type: 'status', by: req.query.by, from: key, to: moveTo })));
+    res.status(204).send();
+  } catch (err) {
+    sendServerError(res, 'DELETE /api/board/columns/:key', err);
+  }
+});
+
+// --- TASK CHECKLISTS ---
+// Steps inside a task, each with its own done flag and optional assignee ('user' | 'zyga').
+// Checklist edits don't bump the task's revision: ticking off steps (e.g. Zyga reporting
+// progress during a heartbeat) must not conflict with someone editing the task itself.
+
+/**
+ * Run `mutate(checklist)` on one task's checklist inside a locked read-modify-write.
+ * Returning false leaves the file untouched. Resolves to the task, or null if not found.
+ */
+async function updateChecklist(taskId, mutate) {
+  let task = null;
+  await updateJson(TASKS_PATH, (data) => {
+    task = null;
+    for (const col of Object.values(data.columns || {})) {
+      const found = (col.tasks || []).find((t) => t.id === taskId);
+      if (!found) continue;
+      task = found;
+      found.checklist = found.checklist || [];
+      if (mutate(found.checklist) === false) return false;
+      found.updated_at = new Date().toISOString();
+      return true;
+    }
+    return false;
+  });
+  return task;
+}
+
+/** Validate an optional assignee from a request body: undefined = not given, null / '' = unassign */
+function parseAssignee(value) {
+  if (value === undefined) return { value: undefined };
+  if (value === null || value === '') return { value: null };
+  return CHECKLIST_ASSIGNEES.includes(value) ? { value } : { error: "assignee must be 'user', 'zyga' or null" };
+}
+
+// POST /api/tasks/:id/checklist - add an item: { text, assignee?, done?, position? }
+app.post('/api/tasks/:id/checklist', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const assignee = parseAssignee(body.assignee);
+    if (assignee.error) return res.status(400).json({ error: assignee.error });
+    const item = newChecklistItem(body);
+    if (!item) return res.status(400).json({ error: 'text is required' });
+
+    const task = await updateChecklist(req.params.id, (checklist) => {
+      const index = Number.isInteger(body.position) ? Math.max(0, Math.min(body.position, checklist.length)) : checklist.length;
+      checklist.splice(index, 0, item);
+    });
+    if (!task) return res.status(404).json({ error: 'Task not found' });
+
+    publish('tasks.changed');
+    await recordTaskHistory([{ task_id: task.id, type: 'checklist', by: body.by, action: 'added', text: item.text }]);
+    res.status(201).json({ item, checklist: task.checklist });
+  } catch (err) {
+    sendServerError(res, 'POST /api/tasks/:id/checklist', err);
+  }
+});
+
+// POST /api/tasks/:id/checklist/reorder - { order: [itemId, ...] }: listed items first, in
+// that order; unlisted items keep their relative order after them
+app.post('/api/tasks/:id/checklist/reorder', async (req, res) => {
+  try {
+    const order = req.body?.order;
+    if (!Array.isArray(order)) return res.status(400).json({ error: 'order must be an array of item ids' });
+
+    let missing = [];
+    const task = await updateChecklist(req.params.id, (checklist) => {
+      const byId = new Map(checklist.map((i) => [i.id, i]));
+      missing = order.filter((id) => !byId.has(id));
+      const placed = order.filter((id) => byId.has(id)).map((id) => byId.get(id));
+      const rest = checklist.filter((i) => !order.includes(i.id));
+      checklist.splice(0, checklist.length, ...placed, ...rest);
+    });
+    if (!task) return res.status(404).json({ error: 'Task not found' });
 
+    publish('tasks.changed');
+    res.json({ checklist: task.checklist, missing });
+  } catch (err) {
+    sendServerError(res, 'POST /api/tasks/:id/checklist/reorder', err);
+  }
+});
+
+// PUT /api/tasks/:id/checklist/:itemId - tick / untick (done), rename (text) or (un)assign
+app.put('/api/tasks/:id/checklist/:itemId', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const assignee = parseAssignee(body.assignee);
+    if (assignee.error) return res.status(400).json({ error: assignee.error });
+    if (body.done !== undefined && typeof body.done !== 'boolean') {
+      return res.status(400).json({ error: 'done must be a boolean' });
+    }
+    const text = body.text !== undefined ? String(body.text).trim() : undefined;
+    if (text === '') return res.status(400).json({ error: 'text cannot be empty' });
+
+    let item = null;
+    let toggled = false;
+    const task = await updateChecklist(req.params.id, (checklist) => {
+      toggled = false;
+      item = checklist.find((i) => i.id === req.params.itemId) || null;
+      if (!item) return false;
+      if (text !== undefined) item.text = text;
+      if (assignee.value !== undefined) item.assignee = assignee.value;
+      if (body.done !== undefined && body.done !== item.done) {
+        item.done = body.done;
+        item.done_at = body.done ? new Date().toISOString() : null;
+        toggled = true;
+      }
+    });
+    if (!task) return res.status(404).json({ error: 'Task not found' });
+    if (!item) return res.status(404).json({ error: 'Checklist item not found' });
+
+    publish('tasks.changed');
+    if (toggled) {
+      await recordTaskHistory([{ task_id: task.id, type: 'checklist', by: body.by, action: item.done ? 'checked' : 'unchecked', text: item.text }]);
+    }
+    res.json({ item, checklist: task.checklist });
+  } catch (err) {
+    sendServerError(res, 'PUT /api/tasks/:id/checklist/:itemId', err);
+  }
+});
+
+// DELETE /api/tasks/:id/checklist/:itemId
+app.delete('/api/tasks/:id/checklist/:itemId', async (req, res) => {
+  try {
+    let removed = null;
+    const task = await updateChecklist(req.params.id, (checklist) => {
+      const idx = checklist.findIndex((i) => i.id === req.params.itemId);
+      removed = idx >= 0 ? checklist[idx] : null;
+      if (!removed) return false;
+      checklist.splice(idx, 1);
+    });
+    if (!task) return res.status(404).json({ error: 'Task not found' });
+    if (!removed) return res.status(404).json({ error: 'Checklist item not found' });
+
+    publish('tasks.changed');
+    await recordTaskHistory([{ task_id: task.id, type: 'checklist', by: req.query.by, action: 'removed', text: removed.text }]);
+    res.status(204).send();
+  } catch (err) {
+    sendServerError(res, 'DELETE /api/tasks/:id/checklist/:itemId', err);
+  }
+});
+
+// --- TASK HISTORY ---
+// Append-only timeline per task (server/lib/task-history.js): the task routes above record
+// what changed and who did it (`by`: 'user' | 'zyga'), and comments are added here.
+
+/** Append to the task history and tell open task views; a failed append never fails the change itself */
+async function recordTaskHistory(entries) {
+  try {
+    const stored = await appendTaskHistory(TASK_HISTORY_PATH, entries);
+    if (stored.length > 0) publish('task-history.changed');
+  } catch (err) {
+    console.error('[task-history] Append failed:', err.message);
+  }
+}
+
+/** Find a task on the board by id; null if it doesn't exist (any more) */
+async function findTask(id) {
+  const data = await readJsonFile(TASKS_PATH);
+  for (const col of Object.values(data?.columns || {})) {
+    const task = (col.tasks || []).find((t) => t.id === id);
+    if (task) return task;
+  }
+  return null;
+}
+
+// GET /api/tasks/:id/history - the task's timeline, oldest first
+app.get('/api/tasks/:id/history', async (req, res) => {
+  try {
+    const history = await readTaskHistory(TASK_HISTORY_PATH, req.params.id);
+    if (history.length === 0 && !(await findTask(req.params.id))) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    res.json({ history });
+  } catch (err) {
+    sendServerError(res, 'GET /api/tasks/:id/history', err);
+  }
+});
+
+// POST /api/tasks/:id/comments - { text, by? }
+app.post('/api/tasks/:id/comments', async (req, res) => {
+  try {
+    const text = String(req.body?.text ?? '').trim();
+    if (!text) return res.status(400).json({ error: 'text is required' });
+    if (!(await findTask(req.params.id))) return res.status(404).json({ error: 'Task not found' });
+
+    const [entry] = await appendTaskHistory(TASK_HISTORY_PATH, [
+      { task_id: req.params.id, type: 'comment', by: req.body.by, text },
+    ]);
+    publish('task-history.changed');
+    res.status(201).json(entry);
+  } catch (err) {
+    sendServerError(res, 'POST /api/tasks/:id/comments', err);
+  }
+});
+
+// --- TASK DEADLINES ---
+// Once a minute, tasks in open columns (not done / archive) whose reminder time or due date
+// has passed get an activity-log entry — which the dashboard also shows as a toast.
+// reminder_sent_at / overdue_notified_at make each alert fire once.
+
+const ACTIVITY_LOG_PATH = path.join(DATA_DIR, 'activity-log.json');
+const DEADLINE_CHECK_INTERVAL = 60_000;
+
+/** Prepend entries ({ type, color, description }) to the activity log, newest first */
+async function appendActivity(entries) {
+  const now = new Date().toISOString();
+  await updateJson(ACTIVITY_LOG_PATH, (log) => {
+    log.entries = [
+      ...entries.map((e) => ({ id: uuid(), timestamp: now, ...e })).reverse(),
+      ...(log.entries || []),
+    ];
+    return true;
+  }, { fallback: () => ({ entries: [] }) });
+  publish('activity-log.changed');
+}
+
+function formatDue(iso) {
+  return new Date(iso).toLocaleString('en-US', { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+async function checkTaskDeadlines() {
+  const now = Date.now();
+  let alerts = [];
+  await updateJson(TASKS_PATH, (data) => {
+    alerts = [];
+    const stamp = new Date(now).toISOString();
+    for (const [colKey, col] of Object.entries(data.columns || {})) {
+      if (columnKind(colKey, col) !== 'open') continue;
+      for (const t of col.tasks || []) {
+        if (t.reminder_at && !t.reminder_sent_at && Date.parse(t.reminder_at) <= now) {
+          t.reminder_sent_at = stamp;
+          const due = t.due_at ? ` (due ${formatDue(t.due_at)})` : '';
+          alerts.push({ type: 'info', color: 'blue', description: `⏰ Reminder: "${t.title}"${due}`, task_id: t.id });
+        }
+        if (t.due_at && !t.overdue_notified_at && Date.parse(t.due_at) <= now) {
+          t.overdue_notified_at = stamp;
+          alerts.push({ type: 'warning', color: 'orange', description: `⚠️ Overdue: "${t.title}" was due ${formatDue(t.due_at)}`, task_id: t.id });
+        }
+      }
+    }
+    return alerts.length > 0;
+  });
+
+  if (alerts.length === 0) return;
+  await appendActivity(alerts);
+  publish('tasks.changed');
+}
+
+const runDeadlineCheck = () => checkTaskDeadlines()
+  .catch((err) => console.error('[deadlines] Check failed:', err.message));
+runDeadlineCheck();
+setInterval(runDeadlineCheck, DEADLINE_CHECK_INTERVAL);
+
+// --- RECURRING TASKS ---
+// A task with a `recurrence` rule ({ cron, mode, next_at }) comes back. Once a minute the server
+// creates its next occurrence in the first open column (To Do):
+//   - mode 'after_done': as soon as the current occurrence is in a done / archive column
+//   - mode 'schedule': when next_at has passed, finished or not
+// The rule moves to the new occurrence (which points back with `recurred_from`), so only the
+// latest occurrence of a series has one. Each occurrence is due when the schedule next fires.
+
+const RECURRENCE_CHECK_INTERVAL = 60_000;
+
+/** The next occurrence of `task`: same content, checklist unticked, due at the next scheduled time */
+function nextOccurrence(task, now) {
+  const stamp = now.toISOString();
+  const next = nextCronTime(task.recurrence.cron, now);
+  const nextAt = next ? next.toISOString() : null;
+  return {
+    id: uuid(),
+    title: task.title,
+    description: task.description || '',
+    priority: task.priority || 'medium',
+    created_at: stamp,
+    updated_at: stamp,
+    created_by: task.created_by || 'user',
+    due_at: nextAt,
+    reminder_at: null,
+    checklist: (task.checklist || []).map((item) => ({ ...item, id: uuid(), done: false, created_at: stamp, done_at: null })),
+    labels: [...(task.labels || [])],
+    assignee: task.assignee ?? null,
+    custom_fields: { ...(task.custom_fields || {}) },
+    depends_on: [],
+    recurrence: { ...task.recurrence, next_at: nextAt },
+    recurred_from: task.id,
+    revision: 1,
+  };
+}
+
+async function checkRecurringTasks() {
+  const now = new Date();
+  let spawned = [];
+  let target = null;
+  await updateJson(TASKS_PATH, (data) => {
+    spawned = [];
+    if (!data.columns) return false;
+    target = defaultColumn(data);
     for (const [colKey, col] of Object.entries(data.columns)) {
-      const idx = (col.tasks || []).findIndex((t) => t.id === id);
-      if (idx >= 0) {
-        found = col.tasks[idx];
-        fromCol = colKey;
-        break;
+      const finished = columnKind(colKey, col) !== 'open';
+      for (const t of col.tasks || []) {
+        const rule = t.recurrence;
+        if (!rule?.cron) continue;
+        const due = rule.mode === 'schedule'
+          ? !!rule.next_at && Date.parse(rule.next_at) <= now.getTime()
+          : finished;
+        if (!due) continue;
+        spawned.push(nextOccurrence(t, now));
+        // Bump the revision so an open editor can't put the rule back on this occurrence
+        t.recurrence = null;
+        t.updated_at = now.toISOString();
+        t.revision = (t.revision || 0) + 1;
       }
     }
+    for (const task of spawned) insertAt(data.columns[target], task);
+    return spawned.length > 0;
+  });
 
-    if (!found) return res.status(404).json({ error: 'Task not found' });
+  if (spawned.length === 0) return;
+  publish('tasks.changed');
+  await recordTaskHistory(spawned.map((t) => ({
+    task_id: t.id, type: 'created', by: t.created_by, status: target, recurred_from: t.recurred_from,
+  })));
+  await appendActivity(spawned.map((t) => ({
+    type: 'info', color: 'blue', description: `🔁 Recurring task "${t.title}" is back on the board`, task_id: t.id,
+  })));
+}
 
-    const statusToCol = { todo: 'todo', 'in-progress': 'in_progress', done: 'done', archive: 'archive' };
-    const targetCol = body.status !== undefined ? (statusToCol[body.status] || body.status) : null;
+const runRecurrenceCheck = () => checkRecurringTasks()
+  .catch((err) => console.error('[recurrence] Check failed:', err.message));
+runRecurrenceCheck();
+setInterval(runRecurrenceCheck, RECURRENCE_CHECK_INTERVAL);
+
+// POST /api/cron/preview - { expression, count? } → { next: [iso, ...] }, or 400 saying what's wrong
+app.post('/api/cron/preview', (req, res) => {
+  const expression = String(req.body?.expression ?? '').trim();
+  const error = cronError(expression);
+  if (error) return res.status(400).json({ error });
+  const count = Math.max(1, Math.min(Number(req.body?.count) || 3, 10));
+  res.json({ next: upcomingCronTimes(expression, count).map((d) => d.toISOString()) });
+});
 
-    const updated = {
-      ...found,
-      title: body.title ?? found.title,
-      description: body.description !== undefined ? body.description : found.description,
-      priority: body.priority ? ({ High: 'high', Medium: 'medium', Low: 'low' }[body.priority] || found.priority) : found.priority,
-      updated_at: new Date().toISOString(),
+// --- NOTES API ---
+
+const NOTES_PATH = path.join(DATA_DIR, 'notes.json');
+
+// open → resolved (dealt with) or converted (turned into a task or document); both can be reopened
+const NOTE_STATUSES = ['open', 'resolved', 'converted'];
+const NOTE_CONVERSION_KINDS = ['task', 'doc'];
+const NOTE_URGENCIES = ['urgent', 'normal', 'low']; // most urgent first
+
+// Files attached to notes (server/lib/attachments.js)
+const ATTACHMENTS_DIR = path.join(DATA_DIR, 'attachments');
+const ATTACHMENT_MAX_MB = Number(process.env.ATTACHMENT_MAX_MB) > 0 ? Number(process.env.ATTACHMENT_MAX_MB) : 10;
+
+/**
+ * A note as the API returns it; notes saved before replies and statuses existed are open with none.
+ * Attachments get the `url` they're served from.
+ */
+function noteWithDefaults(note) {
+  return {
+    ...note,
+    status: NOTE_STATUSES.includes(note.status) ? note.status : 'open',
+    urgency: NOTE_URGENCIES.includes(note.urgency) ? note.urgency : 'normal',
+    pinned: note.pinned === true,
+    replies: note.replies || [],
+    attachments: (note.attachments || []).map((a) => ({ ...a, url: `/api/notes/${note.id}/attachments/${a.id}` })),
+  };
+}
+
+/** The order the agent works through notes: pinned first, then by urgency, then oldest first */
+function compareNotes(a, b) {
+  return (Number(b.pinned) - Number(a.pinned))
+    || (NOTE_URGENCIES.indexOf(a.urgency) - NOTE_URGENCIES.indexOf(b.urgency))
+    || (Date.parse(a.created_at) - Date.parse(b.created_at));
+}
+
+/** Validate optional urgency / pinned fields of a request; returns an error message or null */
+function noteFlagsError(body) {
+  if (body.urgency !== undefined && !NOTE_URGENCIES.includes(body.urgency)) {
+    return `urgency must be one of ${NOTE_URGENCIES.join(', ')}`;
+  }
+  if (body.pinned !== undefined && typeof body.pinned !== 'boolean') return 'pinned must be true or false';
+  return null;
+}
+
+/** `wake: true` on an open urgent note runs a heartbeat now instead of at the next scheduled one */
+function wakeForNote(note, wake) {
+  if (!wake || note.urgency !== 'urgent' || note.status !== 'open') return;
+  runHeartbeat('urgent_note').catch((err) => console.error('[heartbeat] Urgent note wake-up failed:', err.message));
+}
+
+function excerpt(text, max = 60) {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+/**
+ * Change one note in place: `change(note)` edits it and returns true to save, false if there's
+ * nothing to do. Resolves to the note afterwards, or null if there's no such note.
+ */
+async function changeNote(id, change) {
+  let note = null;
+  await updateJson(NOTES_PATH, (data) => {
+    note = (data.notes || []).find((n) => n.id === id) || null;
+    return note ? change(note) : false;
+  }, { fallback: () => ({ notes: [] }) });
+  return note && noteWithDefaults(note);
+}
+
+// GET /api/notes - in the order the agent should handle them (compareNotes)
+app.get('/api/notes', async (req, res) => {
+  try {
+    const data = await readJsonFile(NOTES_PATH);
+    res.json({ ...data, notes: (data?.notes || []).map(noteWithDefaults).sort(compareNotes) });
+  } catch (err) {
+    sendServerError(res, 'GET /api/notes', err);
+  }
+});
+
+// POST /api/notes - like tasks, an optional client-picked `id` makes retries safe
+app.post('/api/notes', async (req, res) => {
+  try {
+    const { text } = req.body;
+    if (!text || !String(text).trim()) return res.status(400).json({ error: 'text is required' });
+    const flagsError = noteFlagsError(req.body);
+    if (flagsError) return res.status(400).json({ error: flagsError });
+
+    const note = {
+      id: clientId(req.body.id) || uuid(),
+      text: String(text).trim(),
+      created_at: new Date().toISOString(),
+      created_by: 'user',
+      seen_by_zyga: false,
+      seen_at: null,
+      urgency: req.body.urgency || 'normal',
+      pinned: req.body.pinned === true,
     };
+    let existing = null;
+    await updateJson(NOTES_PATH, (data) => {
+      if (!data.notes) data.notes = [];
+      existing = data.notes.find((n) => n.id === note.id) || null;
+      if (existing) return false;
+      data.notes.unshift(note);
+      return true;
+    }, { fallback: () => ({ notes: [] }) });
+    if (existing) return res.json(noteWithDefaults(existing));
+    publish('notes.changed');
+    wakeForNote(noteWithDefaults(note), req.body.wake === true);
+    res.status(201).json(noteWithDefaults(note));
+  } catch (err) {
+    sendServerError(res, 'POST /api/notes', err);
+  }
+});
 
-    if (targetCol && targetCol !== fromCol) {
-      data.columns[fromCol].tasks = data.columns[fromCol].tasks.filter((t) => t.id !== id);
-      if (!data.columns[targetCol].tasks) data.columns[targetCol].tasks = [];
-      data.columns[targetCol].tasks.push(updated);
-    } else {
-      const col = data.columns[fromCol];
-      const idx = col.tasks.findIndex((t) => t.id === id);
-      col.tasks[idx] = updated;
+// POST /api/notes/:id/seen - the agent has read the note
+app.post('/api/notes/:id/seen', async (req, res) => {
+  try {
+    const note = await changeNote(req.params.id, (n) => {
+      if (n.seen_by_zyga) return false;
+      n.seen_by_zyga = true;
+      n.seen_at = new Date().toISOString();
+      return true;
+    });
+    if (!note) return res.status(404).json({ error: 'Note not found' });
+    publish('notes.changed');
+    res.json(note);
+  } catch (err) {
+    sendServerError(res, 'POST /api/notes/:id/seen', err);
+  }
+});
+
+// POST /api/notes/:id/replies - { text, by?, id? }; a reply from the agent also marks the note seen.
+// As with notes, resending a reply with the same client-picked `id` doesn't add it twice.
+app.post('/api/notes/:id/replies', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (!text) return res.status(400).json({ error: 'text is required' });
+    const reply = { id: clientId(body.id) || uuid(), text, by: actorOf(body.by), at: new Date().toISOString() };
+
+    let added = false;
+    const note = await changeNote(req.params.id, (n) => {
+      added = !(n.replies || []).some((r) => r.id === reply.id);
+      if (!added) return false;
+      n.replies = [...(n.replies || []), reply];
+      if (reply.by === 'zyga' && !n.seen_by_zyga) {
+        n.seen_by_zyga = true;
+        n.seen_at = reply.at;
+      }
+      return true;
+    });
+    if (!note) return res.status(404).json({ error: 'Note not found' });
+    if (added) {
+      publish('notes.changed');
+      if (reply.by === 'zyga') {
+        await appendActivity([{ type: 'info', color: 'blue', description: `💬 Zyga replied to "${excerpt(note.text)}": ${excerpt(text, 80)}` }]);
+      }
     }
+    res.status(added ? 201 : 200).json({ reply: note.replies.find((r) => r.id === reply.id), note });
+  } catch (err) {
+    sendServerError(res, 'POST /api/notes/:id/replies', err);
+  }
+});
 
-    await writeJson(TASKS_PATH, data);
-    res.json(updated);
+// PUT /api/notes/:id - { status?, converted_to?, urgency?, pinned?, wake?, by? }: resolve, mark converted
+// (converted_to: { kind: 'task' | 'doc', id }) or reopen a note, and/or change its urgency or pin
+app.put('/api/notes/:id', async (req, res) => {
+  try {
+    const body = req.body || {};
+    const setStatus = body.status !== undefined;
+    if (!setStatus && body.urgency === undefined && body.pinned === undefined) {
+      return res.status(400).json({ error: 'Send at least one of status, urgency, pinned' });
+    }
+    if (setStatus && !NOTE_STATUSES.includes(body.status)) {
+      return res.status(400).json({ error: `status must be one of ${NOTE_STATUSES.join(', ')}` });
+    }
+    const flagsError = noteFlagsError(body);
+    if (flagsError) return res.status(400).json({ error: flagsError });
+    const target = body.converted_to;
+    if (target != null && (!NOTE_CONVERSION_KINDS.includes(target.kind) || typeof target.id !== 'string' || !target.id)) {
+      return res.status(400).json({ error: `converted_to must be { kind: ${NOTE_CONVERSION_KINDS.join(' | ')}, id }` });
+    }
+    const by = actorOf(body.by);
+
+    let changed = false;
+    let statusChanged = false;
+    const note = await changeNote(req.params.id, (n) => {
+      changed = false;
+      const convertedTo = body.status === 'converted' && target ? { kind: target.kind, id: target.id } : null;
+      statusChanged = setStatus
+        && ((n.status || 'open') !== body.status || JSON.stringify(n.converted_to || null) !== JSON.stringify(convertedTo));
+      if (statusChanged) {
+        n.status = body.status;
+        if (body.status === 'open') {
+          delete n.resolved_at;
+          delete n.resolved_by;
+        } else {
+          n.resolved_at = new Date().toISOString();
+          n.resolved_by = by;
+        }
+        if (convertedTo) n.converted_to = convertedTo;
+        else delete n.converted_to;
+      }
+      if (body.urgency !== undefined && (n.urgency || 'normal') !== body.urgency) {
+        n.urgency = body.urgency;
+        changed = true;
+      }
+      if (body.pinned !== undefined && (n.pinned === true) !== body.pinned) {
+        n.pinned = body.pinned;
+        changed = true;
+      }
+      return changed || statusChanged;
+    });
+    if (!note) return res.status(404).json({ error: 'Note not found' });
+    if (changed || statusChanged) publish('notes.changed');
+    wakeForNote(note, body.wake === true);
+    if (statusChanged && by === 'zyga' && note.status !== 'open') {
+      const verb = note.status === 'converted' ? `turned into a ${note.converted_to?.kind === 'doc' ? 'document' : 'task'}` : 'resolved';
+      await appendActivity([{ type: 'info', color: 'blue', description: `✅ Zyga ${verb} the note "${excerpt(note.text)}"` }]);
+    }
+    res.json(note);
   } catch (err) {
-    console.error('PUT /api/tasks/:id', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'PUT /api/notes/:id', err);
   }
 });
 
-// DELETE /api/tasks/:id
-app.delete('/api/tasks/:id', async (req, res) => {
+const rawAttachment = express.raw({ type: () => true, limit: `${ATTACHMENT_MAX_MB}mb` });
+
+/** Read an upload's body as a Buffer, answering 413 / 400 in JSON when it can't be read */
+function readAttachmentBody(req, res, next) {
+  rawAttachment(req, res, (err) => {
+    if (!err) return next();
+    if (err.type === 'entity.too.large') return res.status(413).json({ error: `Attachments can be up to ${ATTACHMENT_MAX_MB} MB` });
+    res.status(err.status || 400).json({ error: err.message });
+  });
+}
+
+// POST /api/notes/:id/attachments?name=&id=&by= - the body is the file itself, its Content-Type the file's type.
+// An optional client-picked `id` makes retries safe, like for notes.
+app.post('/api/notes/:id/attachments', readAttachmentBody, async (req, res) => {
+  try {
+    const { id } = req.params;
+    const name = String(req.query.name || '').trim();
+    if (!name) return res.status(400).json({ error: 'name is required' });
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) return res.status(400).json({ error: 'The file is empty' });
+
+    const current = (await readJsonFile(NOTES_PATH))?.notes?.find((n) => n.id === id);
+    if (!current) return res.status(404).json({ error: 'Note not found' });
+    const attachmentId = clientId(req.query.id);
+    const repeat = attachmentId && noteWithDefaults(current).attachments.find((a) => a.id === attachmentId);
+    if (repeat) return res.json(repeat);
+
+    const attachment = await saveAttachment(ATTACHMENTS_DIR, id, {
+      id: attachmentId,
+      name,
+      type: req.get('Content-Type'),
+      data: req.body,
+      by: actorOf(req.query.by),
+    });
+    const note = await changeNote(id, (n) => {
+      n.attachments = [...(n.attachments || []), attachment];
+      return true;
+    });
+    if (!note) {
+      await removeAttachmentFile(ATTACHMENTS_DIR, attachment); // the note was deleted meanwhile
+      return res.status(404).json({ error: 'Note not found' });
+    }
+    publish('notes.changed');
+    res.status(201).json(note.attachments.find((a) => a.id === attachment.id));
+  } catch (err) {
+    sendServerError(res, 'POST /api/notes/:id/attachments', err);
+  }
+});
+
+// GET /api/notes/:id/attachments/:attachmentId - the file, with its original name and type
+app.get('/api/notes/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    const note = (await readJsonFile(NOTES_PATH))?.notes?.find((n) => n.id === req.params.id);
+    const attachment = note?.attachments?.find((a) => a.id === req.params.attachmentId);
+    const file = attachment && attachmentPath(ATTACHMENTS_DIR, attachment);
+    if (!file) return res.status(404).json({ error: 'Attachment not found' });
+    // Entries the agent wrote into notes.json itself may lack a type or name
+    const type = String(attachment.type || 'application/octet-stream');
+    res.set('Content-Type', type);
+    // Images show inline; anything else downloads rather than running in the dashboard's origin
+    const disposition = type.startsWith('image/') && type !== 'image/svg+xml' ? 'inline' : 'attachment';
+    res.set('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.name || path.basename(file))}`);
+    res.sendFile(file, (err) => {
+      if (err && !res.headersSent) res.status(404).json({ error: 'Attachment not found' });
+    });
+  } catch (err) {
+    sendServerError(res, 'GET /api/notes/:id/attachments/:attachmentId', err);
+  }
+});
+
+// DELETE /api/notes/:id/attachments/:attachmentId
+app.delete('/api/notes/:id/attachments/:attachmentId', async (req, res) => {
+  try {
+    let removed = null;
+    const note = await changeNote(req.params.id, (n) => {
+      removed = (n.attachments || []).find((a) => a.id === req.params.attachmentId) || null;
+      if (!removed) return false;
+      n.attachments = n.attachments.filter((a) => a !== removed);
+      return true;
+    });
+    if (!note || !removed) return res.status(404).json({ error: 'Attachment not found' });
+    await removeAttachmentFile(ATTACHMENTS_DIR, removed);
+    publish('notes.changed');
+    res.status(204).send();
+  } catch (err) {
+    sendServerError(res, 'DELETE /api/notes/:id/attachments/:attachmentId', err);
+  }
+});
+
+// DELETE /api/notes/:id - moves the note to the trash
+app.delete('/api/notes/:id', async (req, res) => {
   try {
     const { id } = req.params;
-    let data = await readJson(TASKS_PATH);
-    if (!data?.columns) return res.status(404).json({ error: 'Tasks not found' });
+    let removed = null;
+    await updateJson(NOTES_PATH, (data) => {
+      const position = (data.notes || []).findIndex((n) => n.id === id);
+      removed = position >= 0 ? { kind: 'note', item: data.notes[position], position } : null;
+      if (!removed) return false;
+      data.notes.splice(position, 1);
+      return true;
+    });
+    if (!removed) return res.status(404).json({ error: 'Note not found' });
+    const [entry] = await trashRemoved([{ ...removed, by: actorOf(req.query.by) }]);
+    publish('notes.changed');
+    res.json({ trash_id: entry.id });
+  } catch (err) {
+    sendServerError(res, 'DELETE /api/notes/:id', err);
+  }
+});
+
+// --- TRASH ---
+// Deleted tasks and notes are kept in trash.json (server/lib/trash.js) for TRASH_RETENTION_DAYS
+// (default 30) and can be put back where they were until then.
+
+const TRASH_PATH = path.join(DATA_DIR, 'trash.json');
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) > 0 ? Number(process.env.TRASH_RETENTION_DAYS) : 30;
+const TRASH_PURGE_INTERVAL = 60 * 60_000;
+
+/**
+ * Put a trashed task back in its column at its old position (the first open column if that
+ * column is gone). Prerequisites deleted since are dropped, and tasks that waited on it wait
+ * again unless that would now close a cycle. Returns { item } or { error }.
+ */
+async function restoreTask(entry) {
+  const id = entry.item.id;
+  let error = null;
+  let restored = null;
+  await updateJson(TASKS_PATH, (data) => {
+    error = null;
+    if (!data.columns || Object.keys(data.columns).length === 0) Object.assign(data, emptyBoard());
+    const graph = dependencyGraph(data);
+    if (graph.has(id)) {
+      error = 'The task is already on the board';
+      return false;
+    }
+    const colKey = data.columns[entry.column] ? entry.column : defaultColumn(data);
+    const task = {
+      ...entry.item,
+      depends_on: (entry.item.depends_on || []).filter((d) => graph.has(d)),
+      updated_at: new Date().toISOString(),
+      revision: (entry.item.revision || 0) + 1,
+    };
+    insertAt(data.columns[colKey], task, entry.position);
+    graph.set(id, task.depends_on);
 
     for (const col of Object.values(data.columns)) {
-      const prev = (col.tasks || []).length;
-      col.tasks = (col.tasks || []).filter((t) => t.id !== id);
-      if (col.tasks.length < prev) {
-        await writeJson(TASKS_PATH, data);
-        return res.status(204).send();
+      for (const t of col.tasks || []) {
+        if (!(entry.dependents || []).includes(t.id) || t.depends_on?.includes(id)) continue;
+        const dependsOn = [...(t.depends_on || []), id];
+        if (findDependencyCycle(graph, t.id, dependsOn)) continue;
+        t.depends_on = dependsOn;
+        graph.set(t.id, dependsOn);
       }
     }
-    return res.status(404).json({ error: 'Task not found' });
+    restored = { ...data.columns[colKey].tasks.find((t) => t.id === id), status: colKey };
+    return true;
+  }, { fallback: emptyBoard });
+  return error ? { error } : { item: restored };
+}
+
+/** Put a trashed note back at its old place in the list. Returns { item } or { error }. */
+async function restoreNote(entry) {
+  let error = null;
+  await updateJson(NOTES_PATH, (data) => {
+    error = null;
+    if (!data.notes) data.notes = [];
+    if (data.notes.some((n) => n.id === entry.item.id)) {
+      error = 'The note already exists';
+      return false;
+    }
+    data.notes.splice(Math.min(entry.position ?? 0, data.notes.length), 0, entry.item);
+    return true;
+  }, { fallback: () => ({ notes: [] }) });
+  return error ? { error } : { item: entry.item };
+}
+
+/**
+ * Put just-removed tasks / notes in the trash. If the trash can't be written they go back where
+ * they were, so a failed delete leaves them on the board instead of losing them, and the error
+ * is rethrown. Returns the trash entries.
+ */
+async function trashRemoved(entries) {
+  try {
+    return await addToTrash(TRASH_PATH, entries);
   } catch (err) {
-    console.error('DELETE /api/tasks/:id', err);
-    res.status(500).json({ error: err.message });
+    for (const entry of entries) {
+      const restored = await (entry.kind === 'task' ? restoreTask(entry) : restoreNote(entry))
+        .catch((e) => ({ error: e.message }));
+      if (restored.error) console.error(`[trash] Could not put back ${entry.kind} ${entry.item.id}:`, restored.error);
+    }
+    throw err;
+  }
+}
+
+// GET /api/trash - newest first
+app.get('/api/trash', async (req, res) => {
+  try {
+    const items = await readTrash(TRASH_PATH);
+    res.json({
+      retention_days: TRASH_RETENTION_DAYS,
+      items: items.map((e) => ({ ...e, expires_at: trashExpiry(e, TRASH_RETENTION_DAYS) })),
+    });
+  } catch (err) {
+    sendServerError(res, 'GET /api/trash', err);
+  }
+});
+
+// POST /api/trash/:id/restore
+app.post('/api/trash/:id/restore', async (req, res) => {
+  try {
+    const entry = (await readTrash(TRASH_PATH)).find((e) => e.id === req.params.id);
+    if (!entry) return res.status(404).json({ error: 'Not in the trash' });
+    const restored = entry.kind === 'task' ? await restoreTask(entry) : await restoreNote(entry);
+    if (restored.error) return res.status(409).json({ error: restored.error });
+    await removeFromTrash(TRASH_PATH, entry.id);
+
+    if (entry.kind === 'task') {
+      publish('tasks.changed');
+      await recordTaskHistory([{ task_id: entry.item.id, type: 'restored', by: actorOf(req.body?.by), status: restored.item.status }]);
+    } else {
+      publish('notes.changed');
+    }
+    res.json({ kind: entry.kind, item: restored.item });
+  } catch (err) {
+    sendServerError(res, 'POST /api/trash/:id/restore', err);
+  }
+});
+
+// DELETE /api/trash/:id - delete for good
+app.delete('/api/trash/:id', async (req, res) => {
+  try {
+    const removed = await removeFromTrash(TRASH_PATH, req.params.id);
+    if (!removed) return res.status(404).json({ error: 'Not in the trash' });
+    sweepNoteAttachments().catch((err) => console.error('[attachments] Sweep failed:', err.message));
+    res.status(204).send();
+  } catch (err) {
+    sendServerError(res, 'DELETE /api/trash/:id', err);
+  }
+});
+
+/** Attachments are kept while their note exists or is in the trash */
+async function sweepNoteAttachments() {
+  const notes = (await readJsonFile(NOTES_PATH))?.notes || [];
+  const trashed = (await readTrash(TRASH_PATH)).filter((e) => e.kind === 'note').map((e) => e.item);
+  const removed = await sweepAttachments(ATTACHMENTS_DIR, new Set([...notes, ...trashed].map((n) => n.id)));
+  if (removed > 0) console.log(`[attachments] Removed the files of ${removed} deleted notes`);
+}
+
+const purgeExpiredTrash = () => purgeTrash(TRASH_PATH, TRASH_RETENTION_DAYS)
+  .then((removed) => { if (removed > 0) console.log(`[trash] Purged ${removed} expired items`); })
+  .then(sweepNoteAttachments)
+  .catch((err) => console.error('[trash] Purge failed:', err.message));
+purgeExpiredTrash();
+setInterval(purgeExpiredTrash, TRASH_PURGE_INTERVAL);
+
+// --- DELIVERABLES ---
+// Recurring outputs the agent produces on a cron schedule (e.g. a daily briefing). Each has
+// { id, name, emoji, description, type, cron_expression, frequency, enabled, last_run, runs };
+// `frequency` is derived from the cron expression, `runs` holds the newest runs first.
+
+const DELIVERABLES_PATH = path.join(DATA_DIR, 'deliverables.json');
+const DELIVERABLE_RUNS_KEPT = 20;
+
+/** A deliverable as the API returns it, with when it runs next (null while disabled) */
+function deliverableWithSchedule(d) {
+  const next = d.enabled !== false && !cronError(d.cron_expression) ? nextCronTime(d.cron_expression) : null;
+  return { ...d, enabled: d.enabled !== false, runs: d.runs || [], next_run: next ? next.toISOString() : null };
+}
+
+/**
+ * Validate the editable fields of a request body. With `partial`, missing fields are left out;
+ * otherwise name and cron_expression are required. Returns { error } or { value }.
+ */
+function parseDeliverableFields(body, partial) {
+  const value = {};
+  if (body.name !== undefined || !partial) {
+    const name = String(body.name ?? '').trim();
+    if (!name) return { error: 'name is required' };
+    value.name = name;
+  }
+  if (body.cron_expression !== undefined || !partial) {
+    const cron = String(body.cron_expression ?? '').trim();
+    const error = cronError(cron);
+    if (error) return { error: `cron_expression: ${error}` };
+    if (!nextCronTime(cron)) return { error: 'cron_expression never fires' };
+    value.cron_expression = cron;
+    value.frequency = cronFrequency(cron);
+  }
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') return { error: 'enabled must be true or false' };
+    value.enabled = body.enabled;
+  }
+  for (const field of ['emoji', 'description', 'type']) {
+    if (body[field] !== undefined) value[field] = String(body[field] ?? '').trim();
   }
-});
-
-// --- NOTES API ---
+  return { value };
+}
 
-const NOTES_PATH = path.join(DATA_DIR, 'notes.json');
+/**
+ * Change one deliverable in place: `change(d)` edits it and returns true to save.
+ * Resolves to the deliverable afterwards, or null if there's no such deliverable.
+ */
+async function changeDeliverable(id, change) {
+  let found = null;
+  await updateJson(DELIVERABLES_PATH, (data) => {
+    found = (data.deliverables || []).find((d) => d.id === id) || null;
+    return found ? change(found) : false;
+  }, { fallback: () => ({ deliverables: [] }) });
+  return found && deliverableWithSchedule(found);
+}
 
-// GET /api/notes
-app.get('/api/notes', async (req, res) => {
+app.get('/api/deliverables', async (req, res) => {
   try {
-    const data = await readJson(NOTES_PATH);
-    if (!data) return res.json({ notes: [] });
-    res.json(data);
+    const data = await readJsonFile(DELIVERABLES_PATH);
+    res.json({ ...data, deliverables: (data?.deliverables || []).map(deliverableWithSchedule) });
   } catch (err) {
-    console.error('GET /api/notes', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'GET /api/deliverables', err);
   }
 });
 
-// POST /api/notes
-app.post('/api/notes', async (req, res) => {
+// POST /api/deliverables - { name, cron_expression, emoji?, description?, type?, enabled?, id? }
+app.post('/api/deliverables', async (req, res) => {
   try {
-    const { text } = req.body;
-    if (!text || !String(text).trim()) return res.status(400).json({ error: 'text is required' });
-
-    let data = await readJson(NOTES_PATH);
-    if (!data) data = { notes: [] };
-    if (!data.notes) data.notes = [];
-
-    const note = {
-      id: uuid(),
-      text: String(text).trim(),
-      created_at: new Date().toISOString(),
-      created_by: 'user',
-      seen_by_zyga: false,
-      seen_at: null,
+    const fields = parseDeliverableFields(req.body || {}, false);
+    if (fields.error) return res.status(400).json({ error: fields.error });
+    const deliverable = {
+      id: clientId(req.body.id) || uuid(),
+      emoji: '📁',
+      description: '',
+      type: 'folder',
+      enabled: true,
+      last_run: null,
+      ...fields.value,
     };
-    data.notes.unshift(note);
-    await writeJson(NOTES_PATH, data);
-    res.status(201).json(note);
+    let existing = null;
+    await updateJson(DELIVERABLES_PATH, (data) => {
+      if (!data.deliverables) data.deliverables = [];
+      existing = data.deliverables.find((d) => d.id === deliverable.id) || null;
+      if (existing) return false;
+      data.deliverables.push(deliverable);
+      return true;
+    }, { fallback: () => ({ deliverables: [] }) });
+    if (existing) return res.json(deliverableWithSchedule(existing));
+    publish('deliverables.changed');
+    res.status(201).json(deliverableWithSchedule(deliverable));
   } catch (err) {
-    console.error('POST /api/notes', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'POST /api/deliverables', err);
   }
 });
 
-// DELETE /api/notes/:id
-app.delete('/api/notes/:id', async (req, res) => {
+// PUT /api/deliverables/:id - any of the POST fields; enable / disable with { enabled }
+app.put('/api/deliverables/:id', async (req, res) => {
   try {
-    const { id } = req.params;
-    let data = await readJson(NOTES_PATH);
-    if (!data?.notes) return res.status(404).json({ error: 'Notes not found' });
-
-    const prev = data.notes.length;
-    data.notes = data.notes.filter((n) => n.id !== id);
-    if (data.notes.length < prev) {
-      await writeJson(NOTES_PATH, data);
-      return res.status(204).send();
-    }
-    return res.status(404).json({ error: 'Note not found' });
+    const fields = parseDeliverableFields(req.body || {}, true);
+    if (fields.error) return res.status(400).json({ error: fields.error });
+    let changed = false;
+    const deliverable = await changeDeliverable(req.params.id, (d) => {
+      changed = Object.entries(fields.value).some(([key, v]) => d[key] !== v);
+      Object.assign(d, fields.value);
+      return changed;
+    });
+    if (!deliverable) return res.status(404).json({ error: 'Deliverable not found' });
+    if (changed) publish('deliverables.changed');
+    res.json(deliverable);
   } catch (err) {
-    console.error('DELETE /api/notes/:id', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'PUT /api/deliverables/:id', err);
   }
 });
 
-// --- Placeholder routes for other tabs (return file data) ---
+app.delete('/api/deliverables/:id', async (req, res) => {
+  try {
+    let removed = false;
+    await updateJson(DELIVERABLES_PATH, (data) => {
+      const before = (data.deliverables || []).length;
+      data.deliverables = (data.deliverables || []).filter((d) => d.id !== req.params.id);
+      removed = data.deliverables.length < before;
+      return removed;
+    }, { fallback: () => ({ deliverables: [] }) });
+    if (!removed) return res.status(404).json({ error: 'Deliverable not found' });
+    publish('deliverables.changed');
+    res.status(204).send();
+  } catch (err) {
+    sendServerError(res, 'DELETE /api/deliverables/:id', err);
+  }
+});
 
-app.get('/api/deliverables', async (req, res) => {
+// POST /api/deliverables/:id/run - run a deliverable now, outside its schedule.
+// Mock: records the run; in production this starts the agent's job for it.
+app.post('/api/deliverables/:id/run', async (req, res) => {
   try {
-    const data = await readJson(path.join(DATA_DIR, 'deliverables.json'));
-    res.json(data || { deliverables: [] });
+    const run = { at: new Date().toISOString(), by: actorOf(req.body?.by), trigger: 'manual' };
+    const deliverable = await changeDeliverable(req.params.id, (d) => {
+      d.last_run = run.at;
+      d.runs = [run, ...(d.runs || [])].slice(0, DELIVERABLE_RUNS_KEPT);
+      return true;
+    });
+    if (!deliverable) return res.status(404).json({ error: 'Deliverable not found' });
+    publish('deliverables.changed');
+    await appendActivity([{ type: 'info', color: 'blue', description: `▶️ Ran "${deliverable.name}" now (outside its schedule)` }]);
+    res.json(deliverable);
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'POST /api/deliverables/:id/run', err);
   }
 });
 
+// --- Placeholder routes for other tabs (return file data) ---
+
 app.get('/api/activity-log', async (req, res) => {
   try {
-    const data = await readJson(path.join(DATA_DIR, 'activity-log.json'));
+    const data = await readJson(ACTIVITY_LOG_PATH);
     let entries = data?.entries || [];
     const date = req.query.date; // YYYY-MM-DD
     if (date) {
@@ -373,15 +1990,74 @@ app.get('/api/activity-log', async (req, res) => {
 const DOCUMENTS_INDEX_PATH = path.join(DOCUMENTS_DIR, 'documents-index.json');
 
 /**
- * Sync documents-index.json with the filesystem.
+ * Serialize every read-modify-write of documents-index.json (routes, sync and the
+ * file watcher) so concurrent updates can't overwrite each other.
+ * `mutate(index)` returns true when it changed something; only then is the index
+ * written and a documents.changed event published. Resolves to the index.
+ */
+let documentsIndexQueue = Promise.resolve();
+
+function updateDocumentsIndex(mutate) {
+  const run = documentsIndexQueue.then(async () => {
+    const index = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
+    if (!index.documents) index.documents = [];
+    if (await mutate(index)) {
+      await writeJson(DOCUMENTS_INDEX_PATH, index);
+      publish('documents.changed');
+    }
+    return index;
+  });
+  documentsIndexQueue = run.catch(() => {});
+  return run;
+}
+
+/**
+ * Build a new index entry for a markdown file.
+ * Title comes from frontmatter, then the first # heading, then the filename.
+ * Category comes from frontmatter, then title heuristics.
+ */
+function buildIndexEntry(filename, raw) {
+  let title = filename.replace('.md', '').replace(/-/g, ' ');
+  let emoji = '📄';
+  let category = 'Guide';
+
+  if (raw !== null) {
+    const { meta, content } = parseFrontmatter(raw);
+
+    // Use frontmatter metadata if available
+    if (meta.title) {
+      title = meta.title;
+    } else {
+      // Fall back to first # heading
+      const firstLine = content.split('\n').find(l => l.trim().length > 0) || '';
+      if (firstLine.trim().startsWith('# ')) {
+        title = firstLine.trim().substring(2).trim();
+      }
+    }
+    if (meta.emoji) emoji = meta.emoji;
+    if (meta.category) category = meta.category;
+
+    // Heuristic fallbacks for category
+    if (!meta.category) {
+      const lowerTitle = title.toLowerCase();
+      if (lowerTitle.includes('security') || lowerTitle.includes('vulnerability')) category = 'Security';
+      else if (lowerTitle.includes('pulse') || lowerTitle.includes('daily')) category = 'AI Pulse';
+      else if (lowerTitle.includes('report')) category = 'Report';
+    }
+  }
+
+  const now = new Date().toISOString();
+  return { filename, title, emoji, category, created_at: now, updated_at: now };
+}
+
+/**
+ * Full sync of documents-index.json with the filesystem.
  * Auto-discovers new .md files (e.g. dropped by OpenClaw) using frontmatter metadata.
  * Removes entries for deleted files.
+ * Runs on startup and on GET /api/documents; the file watcher below handles changes in between.
  * Returns the synced index.
  */
 async function syncDocumentsIndex() {
-  let index = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
-  const indexedFiles = new Set(index.documents.map((d) => d.filename));
-
   // Scan file system for .md files
   const docsDir = path.resolve(DOCUMENTS_DIR);
   let diskFiles = [];
@@ -397,75 +2073,171 @@ async function syncDocumentsIndex() {
   }
 
   const diskFilesSet = new Set(diskFiles);
-  let hasChanges = false;
 
-  // ADD: Found on disk but not in index (e.g. created by OpenClaw)
-  for (const filename of diskFiles) {
-    if (!indexedFiles.has(filename)) {
-      let title = filename.replace('.md', '').replace(/-/g, ' ');
-      let emoji = '📄';
-      let category = 'Guide';
+  return updateDocumentsIndex(async (index) => {
+    const indexedFiles = new Set(index.documents.map((d) => d.filename));
+    let hasChanges = false;
+
+    // ADD: Found on disk but not in index (e.g. created by OpenClaw)
+    for (const filename of diskFiles) {
+      if (!indexedFiles.has(filename)) {
+        let raw = null;
+        try {
+          raw = await fs.readFile(path.join(docsDir, filename), 'utf-8');
+        } catch { /* ignore read error */ }
+        index.documents.unshift(buildIndexEntry(filename, raw));
+        if (raw !== null) indexDocument(filename, raw);
+        hasChanges = true;
+      }
+    }
 
-      try {
-        const raw = await fs.readFile(path.join(docsDir, filename), 'utf-8');
-        const { meta, content } = parseFrontmatter(raw);
+    // REMOVE: In index but not on disk
+    const prevCount = index.documents.length;
+    for (const d of index.documents) {
+      if (!diskFilesSet.has(d.filename)) removeDocument(d.filename);
+    }
+    index.documents = index.documents.filter((d) => diskFilesSet.has(d.filename));
+    if (index.documents.length !== prevCount) hasChanges = true;
 
-        // Use frontmatter metadata if available
-        if (meta.title) {
-          title = meta.title;
-        } else {
-          // Fall back to first # heading
-          const firstLine = content.split('\n').find(l => l.trim().length > 0) || '';
-          if (firstLine.trim().startsWith('# ')) {
-            title = firstLine.trim().substring(2).trim();
-          }
-        }
-        if (meta.emoji) emoji = meta.emoji;
-        if (meta.category) category = meta.category;
-
-        // Heuristic fallbacks for category
-        if (!meta.category) {
-          const lowerTitle = title.toLowerCase();
-          if (lowerTitle.includes('security') || lowerTitle.includes('vulnerability')) category = 'Security';
-          else if (lowerTitle.includes('pulse') || lowerTitle.includes('daily')) category = 'AI Pulse';
-          else if (lowerTitle.includes('report')) category = 'Report';
-        }
-      } catch { /* ignore read error */ }
+    if (hasChanges) console.log(`[docs-sync] Index updated: ${index.documents.length} documents`);
+    return hasChanges;
+  });
+}
 
-      const now = new Date().toISOString();
-      index.documents.unshift({
-        filename,
-        title,
-        emoji,
-        category,
-        created_at: now,
-        updated_at: now,
-      });
-      hasChanges = true;
-    }
+/** Load every .md file into the full-text search index */
+async function buildSearchIndex() {
+  const files = (await fs.readdir(DOCUMENTS_DIR)).filter((f) => f.endsWith('.md'));
+  const entries = [];
+  for (const filename of files) {
+    try {
+      entries.push({ filename, raw: await fs.readFile(path.join(DOCUMENTS_DIR, filename), 'utf-8') });
+    } catch { /* skip unreadable file */ }
   }
+  rebuildIndex(entries);
+  console.log(`[docs-search] Indexed ${entries.length} documents`);
+}
 
-  // REMOVE: In index but not on disk
-  const prevCount = index.documents.length;
-  index.documents = index.documents.filter((d) => diskFilesSet.has(d.filename));
-  if (index.documents.length !== prevCount) hasChanges = true;
+// Run sync on startup, then build the search index
+syncDocumentsIndex()
+  .then(buildSearchIndex)
+  .catch(err => console.error('[docs-sync] Startup sync failed:', err.message));
+
+// Apply the version retention policy on startup and hourly, so time-based thinning
+// happens even for documents that are no longer being edited
+const VERSION_PRUNE_INTERVAL = 60 * 60_000;
+const pruneVersionHistory = () => pruneVersionsNow(VERSIONS_DIR)
+  .then(({ removed }) => { if (removed > 0) console.log(`[versions] Pruned ${removed} old snapshots`); })
+  .catch(err => console.error('[versions] Prune failed:', err.message));
+pruneVersionHistory();
+setInterval(pruneVersionHistory, VERSION_PRUNE_INTERVAL);
+
+// --- DOCUMENTS WATCHER ---
+// Reacts to .md files being added, edited or removed in data/documents as it happens.
+// Writes made by this server are recognised by content hash, so only edits made
+// outside the app (e.g. by OpenClaw) re-parse frontmatter and bump updated_at.
+
+const DOC_WATCH_DEBOUNCE_MS = 150;
+
+/** filename → sha1 of the content this server last wrote (or last saw from outside) */
+const knownDocumentHashes = new Map();
+const docWatchTimers = new Map();
+
+function hashContent(content) {
+  return createHash('sha1').update(content).digest('hex');
+}
 
-  // Save index if synced
-  if (hasChanges) {
-    await writeJson(DOCUMENTS_INDEX_PATH, index);
-    console.log(`[docs-sync] Index updated: ${index.documents.length} documents`);
-  }
+/**
+ * ETag for a document: hash of the body only, so frontmatter-only changes
+ * (meta edits, last_edited_by) don't count as a conflicting edit.
+ */
+function documentEtag(raw) {
+  return `"${hashContent(stripFrontmatter(raw))}"`;
+}
+
+/** filename → tail of its save queue, so a conflict check and the write it guards can't interleave */
+const documentLocks = new Map();
 
-  return index;
+function withDocumentLock(filename, fn) {
+  const prev = documentLocks.get(filename) || Promise.resolve();
+  const next = prev.then(fn, fn);
+  const tail = next.catch(() => {});
+  documentLocks.set(filename, tail);
+  tail.then(() => {
+    if (documentLocks.get(filename) === tail) documentLocks.delete(filename);
+  });
+  return next;
 }
 
-// Run sync on startup
-syncDocumentsIndex().catch(err => console.error('[docs-sync] Startup sync failed:', err.message));
+/** Write a document file and remember its hash so the watcher treats it as our own write */
+async function writeDocumentFile(filename, content) {
+  knownDocumentHashes.set(filename, hashContent(content));
+  await fs.writeFile(path.join(DOCUMENTS_DIR, filename), content, 'utf-8');
+  indexDocument(filename, content);
+}
 
-// Periodic re-sync every 30 seconds (lightweight: readdir + compare)
-setInterval(() => {
-  syncDocumentsIndex().catch(err => console.error('[docs-sync] Periodic sync failed:', err.message));
-}, 30_000);
+async function handleDocumentFileChange(filename) {
+  let raw = null;
+  try {
+    raw = await fs.readFile(path.join(DOCUMENTS_DIR, filename), 'utf-8');
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+  }
+
+  let externalEdit = false;
+  await updateDocumentsIndex((index) => {
+    const entry = index.documents.find((d) => d.filename === filename);
+
+    // REMOVED
+    if (raw === null) {
+      knownDocumentHashes.delete(filename);
+      removeDocument(filename);
+      if (!entry) return false;
+      index.documents = index.documents.filter((d) => d.filename !== filename);
+      console.log(`[docs-watch] Removed ${filename}`);
+      return true;
+    }
+
+    const hash = hashContent(raw);
+    const isKnownContent = knownDocumentHashes.get(filename) === hash;
+    knownDocumentHashes.set(filename, hash);
+    if (!isKnownContent) indexDocument(filename, raw);
+
+    // ADDED
+    if (!entry) {
+      index.documents.unshift(buildIndexEntry(filename, raw));
+      console.log(`[docs-watch] Added ${filename}`);
+      return true;
+    }
+
+    // CHANGED — ignore our own writes and repeated events for the same content
+    if (isKnownContent) return false;
+
+    const { meta } = parseFrontmatter(raw);
+    if (meta.title) entry.title = meta.title;
+    if (meta.emoji) entry.emoji = meta.emoji;
+    if (meta.category) entry.category = meta.category;
+    entry.updated_at = new Date().toISOString();
+    externalEdit = true;
+    console.log(`[docs-watch] External edit to ${filename}`);
+    return true;
+  });
+
+  // Let open DocsTab clients reload the content of this document
+  if (externalEdit) publish('document.updated', { filename });
+}
+
+try {
+  watch(DOCUMENTS_DIR, (eventType, filename) => {
+    if (!filename || !filename.endsWith('.md')) return;
+    clearTimeout(docWatchTimers.get(filename));
+    docWatchTimers.set(filename, setTimeout(() => {
+      docWatchTimers.delete(filename);
+      handleDocumentFileChange(filename).catch((err) => console.error('[docs-watch] Failed:', err.message));
+    }, DOC_WATCH_DEBOUNCE_MS));
+  });
+} catch (err) {
+  console.error('[docs-watch] Could not watch documents directory:', err.message);
+}
 
 // GET /api/documents - list from index (with auto-sync)
 app.get('/api/documents', async (req, res) => {
@@ -473,8 +2245,31 @@ app.get('/api/documents', async (req, res) => {
     const index = await syncDocumentsIndex();
     res.json(index);
   } catch (err) {
-    console.error('GET /api/documents', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'GET /api/documents', err);
+  }
+});
+
+// GET /api/documents/search?q= - full-text search over document bodies and titles
+// (registered before /:filename so "search" isn't treated as a filename)
+app.get('/api/documents/search', async (req, res) => {
+  try {
+    const q = String(req.query.q || '').trim();
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    if (!q) return res.json({ query: q, hits: [] });
+
+    const index = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
+    const entries = new Map(index.documents.map((d) => [d.filename, d]));
+    const titles = new Map(index.documents.map((d) => [d.filename, d.title]));
+
+    const hits = searchDocuments(q, { titles, limit })
+      .filter((hit) => entries.has(hit.filename))
+      .map((hit) => {
+        const entry = entries.get(hit.filename);
+        return { ...hit, title: entry.title, emoji: entry.emoji, category: entry.category };
+      });
+    res.json({ query: q, hits });
+  } catch (err) {
+    sendServerError(res, 'GET /api/documents/search', err);
   }
 });
 
@@ -493,15 +2288,17 @@ app.get('/api/documents/:filename', async (req, res) => {
     const raw = await fs.readFile(filePath, 'utf-8');
     // Strip frontmatter so BlockNote editor doesn't see raw YAML
     const content = stripFrontmatter(raw);
+    res.set('ETag', documentEtag(raw));
     res.type('text/markdown').send(content);
   } catch (err) {
     if (err.code === 'ENOENT') return res.status(404).json({ error: 'Document not found' });
-    console.error('GET /api/documents/:filename', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'GET /api/documents/:filename', err);
   }
 });
 
 // PUT /api/documents/:filename - save markdown content + preserve frontmatter + update index
+// Send the ETag from GET as If-Match: if the body changed on disk since, the save is
+// rejected with 409 and the current content so the client can resolve the conflict.
 app.put('/api/documents/:filename', async (req, res) => {
   try {
     const { filename } = req.params;
@@ -515,82 +2312,208 @@ app.put('/api/documents/:filename', async (req, res) => {
     }
     const newContent = typeof req.body === 'string' ? req.body : (req.body?.content ?? req.body?.markdown ?? '');
     const editedBy = req.body?.editedBy || 'OpenClaw';
+    const ifMatch = req.get('If-Match');
 
-    // Preserve existing frontmatter if the file already has it
-    let finalContent = String(newContent);
-    try {
-      const existingRaw = await fs.readFile(filePath, 'utf-8');
+    const result = await withDocumentLock(filename, async () => {
+      let existingRaw = null;
+      try {
+        existingRaw = await fs.readFile(filePath, 'utf-8');
+      } catch (err) {
+        if (err.code !== 'ENOENT') throw err;
+      }
 
-      // --- Version snapshot: save old content before overwriting ---
-      const versionsDir = path.join(DOCUMENTS_DIR, '.versions', filename);
-      await fs.mkdir(versionsDir, { recursive: true });
-      const ts = new Date().toISOString().replace(/[:.]/g, '-');
-      await fs.writeFile(path.join(versionsDir, `${ts}.md`), existingRaw, 'utf-8');
+      if (ifMatch && existingRaw !== null && ifMatch !== documentEtag(existingRaw)) {
+        return { conflict: true, etag: documentEtag(existingRaw), content: stripFrontmatter(existingRaw) };
+      }
 
-      const { meta } = parseFrontmatter(existingRaw);
-      meta.last_edited_by = editedBy;
-      finalContent = buildFrontmatter(meta) + String(newContent);
-    } catch { 
-      finalContent = buildFrontmatter({ last_edited_by: editedBy }) + String(newContent);
-    }
+      // Preserve existing frontmatter if the file already has it
+      let finalContent;
+      if (existingRaw !== null) {
+        const { meta } = parseFrontmatter(existingRaw);
+
+        // --- Version snapshot: save old content before overwriting (coalesced per editing session) ---
+        await snapshotVersion(VERSIONS_DIR, filename, existingRaw, {
+          author: meta.last_edited_by || 'OpenClaw',
+          editedBy,
+        });
+
+        meta.last_edited_by = editedBy;
+        finalContent = buildFrontmatter(meta) + String(newContent);
+      } else {
+        finalContent = buildFrontmatter({ last_edited_by: editedBy }) + String(newContent);
+      }
+
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeDocumentFile(filename, finalContent);
+      return { conflict: false, etag: documentEtag(finalContent) };
+    });
 
-    await fs.mkdir(path.dirname(filePath), { recursive: true });
-    await fs.writeFile(filePath, finalContent, 'utf-8');
+    if (result.conflict) {
+      res.set('ETag', result.etag);
+      return res.status(409).json({ error: 'Document was changed on disk', etag: result.etag, content: result.content });
+    }
 
     // Update updated_at in index
     try {
-      const index = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
-      const entry = index.documents.find((d) => d.filename === filename);
-      if (entry) {
+      await updateDocumentsIndex((index) => {
+        const entry = index.documents.find((d) => d.filename === filename);
+        if (!entry) return false;
         entry.updated_at = new Date().toISOString();
-        await writeJson(DOCUMENTS_INDEX_PATH, index);
-      }
+        return true;
+      });
     } catch { /* index update is non-critical */ }
-    res.status(200).json({ success: true });
+    res.set('ETag', result.etag);
+    res.status(200).json({ success: true, etag: result.etag });
   } catch (err) {
-    console.error('PUT /api/documents/:filename', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'PUT /api/documents/:filename', err);
   }
 });
 
 // --- VERSION HISTORY ENDPOINTS ---
 
+// GET /api/documents/versions/storage - disk used by version history, per document
+app.get('/api/documents/versions/storage', async (req, res) => {
+  try {
+    const stats = await versionStorageStats(VERSIONS_DIR);
+    res.json({ ...stats, policy: RETENTION_POLICY });
+  } catch (err) {
+    sendServerError(res, 'GET /api/documents/versions/storage', err);
+  }
+});
+
+// POST /api/documents/versions/prune - apply the retention policy now
+app.post('/api/documents/versions/prune', async (req, res) => {
+  try {
+    const result = await pruneVersionsNow(VERSIONS_DIR);
+    const stats = await versionStorageStats(VERSIONS_DIR);
+    res.json({ success: true, ...result, ...stats, policy: RETENTION_POLICY });
+  } catch (err) {
+    sendServerError(res, 'POST /api/documents/versions/prune', err);
+  }
+});
+
+/** Version list entry for one snapshot file, with its pin (label / note) if any */
+async function readVersionEntry(filename, f, pin) {
+  const fullPath = path.join(VERSIONS_DIR, filename, f);
+  const stat = await fs.stat(fullPath);
+
+  // Read file to get author and preview
+  const content = await fs.readFile(fullPath, 'utf-8');
+  const { meta } = parseFrontmatter(content);
+  const author = meta.last_edited_by || 'OpenClaw';
+  const stripped = stripFrontmatter(content).trim();
+  const preview = stripped.slice(0, 100).replace(/\s+/g, ' ') + (stripped.length > 100 ? '...' : '');
+
+  const timestamp = versionTimestamp(f) || f.replace('.md', '');
+  const entry = { timestamp, size: stat.size, file: f, author, preview, pinned: !!pin };
+  if (pin) Object.assign(entry, { label: pin.label, note: pin.note, pinnedAt: pin.pinnedAt, pinnedBy: pin.pinnedBy });
+  return entry;
+}
+
 // GET /api/documents/:filename/versions - list all versions
 app.get('/api/documents/:filename/versions', async (req, res) => {
   try {
     const { filename } = req.params;
-    const versionsDir = path.join(DOCUMENTS_DIR, '.versions', filename);
+    const versionsDir = path.join(VERSIONS_DIR, filename);
     let files = [];
     try {
       files = await fs.readdir(versionsDir);
     } catch { /* no versions yet */ }
 
+    const pins = (await readPins(VERSIONS_DIR))[filename] || {};
     const versions = [];
     for (const f of files.filter(f => f.endsWith('.md'))) {
-      const fullPath = path.join(versionsDir, f);
-      const stat = await fs.stat(fullPath);
-
-      // Read file to get author and preview
-      const content = await fs.readFile(fullPath, 'utf-8');
-      const { meta } = parseFrontmatter(content);
-      const author = meta.last_edited_by || 'OpenClaw';
-      const stripped = stripFrontmatter(content).trim();
-      const preview = stripped.slice(0, 100).replace(/\s+/g, ' ') + (stripped.length > 100 ? '...' : '');
-
-      const timestamp = f.replace('.md', '').replace(/-/g, (m, offset) => {
-        // Restore ISO: 2026-02-16T14-30-00-000Z → 2026-02-16T14:30:00.000Z
-        if (offset <= 9) return '-'; // date dashes
-        if (offset === 13 || offset === 16) return ':';
-        if (offset === 19) return '.';
-        return m;
-      });
-      versions.push({ timestamp, size: stat.size, file: f, author, preview });
+      versions.push(await readVersionEntry(filename, f, pins[f]));
     }
     versions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
     res.json({ versions });
   } catch (err) {
-    console.error('GET versions', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'GET versions', err);
+  }
+});
+
+// POST /api/documents/:filename/versions/checkpoint - snapshot the current content as a named, pinned version
+app.post('/api/documents/:filename/versions/checkpoint', async (req, res) => {
+  try {
+    const { filename } = req.params;
+    const { label = '', note = '', editedBy = 'User' } = req.body || {};
+    if (!String(label).trim()) return res.status(400).json({ error: 'Label is required' });
+    const filePath = path.join(DOCUMENTS_DIR, filename);
+    if (!path.resolve(filePath).startsWith(path.resolve(DOCUMENTS_DIR))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    let raw;
+    try {
+      raw = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+    const file = await snapshotVersion(VERSIONS_DIR, filename, raw, { force: true });
+    const pin = await pinVersion(VERSIONS_DIR, filename, file, { label, note, pinnedBy: editedBy });
+    res.status(201).json({ version: await readVersionEntry(filename, file, pin) });
+  } catch (err) {
+    sendServerError(res, 'POST version checkpoint', err);
+  }
+});
+
+// PUT /api/documents/:filename/versions/:versionFile/pin - pin a version or edit its label / note
+app.put('/api/documents/:filename/versions/:versionFile/pin', async (req, res) => {
+  try {
+    const { filename, versionFile } = req.params;
+    const { label = '', note = '', editedBy = 'User' } = req.body || {};
+    const pin = await pinVersion(VERSIONS_DIR, filename, versionFile, { label, note, pinnedBy: editedBy });
+    if (!pin) return res.status(404).json({ error: 'Version not found' });
+    res.json({ version: await readVersionEntry(filename, versionFile, pin) });
+  } catch (err) {
+    sendServerError(res, 'PUT version pin', err);
+  }
+});
+
+// DELETE /api/documents/:filename/versions/:versionFile/pin - unpin a version (it becomes prunable again)
+app.delete('/api/documents/:filename/versions/:versionFile/pin', async (req, res) => {
+  try {
+    const { filename, versionFile } = req.params;
+    const removed = await unpinVersion(VERSIONS_DIR, filename, versionFile);
+    if (!removed) return res.status(404).json({ error: 'Version is not pinned' });
+    res.json({ success: true });
+  } catch (err) {
+    sendServerError(res, 'DELETE version pin', err);
+  }
+});
+
+// GET /api/documents/:filename/versions/diff?from=&to= - line + word diff between two versions
+// `from` / `to` are version files from the list above, or "current" for the live document.
+app.get('/api/documents/:filename/versions/diff', async (req, res) => {
+  try {
+    const { filename } = req.params;
+    const from = String(req.query.from || '');
+    const to = String(req.query.to || 'current');
+    if (!from) return res.status(400).json({ error: 'from is required' });
+
+    const readSide = async (ref) => {
+      if (ref === 'current') return fs.readFile(path.join(DOCUMENTS_DIR, filename), 'utf-8');
+      if (path.basename(ref) !== ref || !ref.endsWith('.md')) throw Object.assign(new Error('Invalid version'), { status: 400 });
+      return fs.readFile(path.join(VERSIONS_DIR, filename, ref), 'utf-8');
+    };
+
+    const safePath = path.resolve(DOCUMENTS_DIR, filename);
+    if (!safePath.startsWith(path.resolve(DOCUMENTS_DIR))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    let fromRaw, toRaw;
+    try {
+      [fromRaw, toRaw] = await Promise.all([readSide(from), readSide(to)]);
+    } catch (err) {
+      if (err.status === 400) return res.status(400).json({ error: err.message });
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    const { lines, stats } = diffDocuments(stripFrontmatter(fromRaw), stripFrontmatter(toRaw));
+    res.json({ from, to, stats, lines });
+  } catch (err) {
+    sendServerError(res, 'GET version diff', err);
   }
 });
 
@@ -598,7 +2521,7 @@ app.get('/api/documents/:filename/versions', async (req, res) => {
 app.get('/api/documents/:filename/versions/:versionFile', async (req, res) => {
   try {
     const { filename, versionFile } = req.params;
-    const vPath = path.join(DOCUMENTS_DIR, '.versions', filename, versionFile);
+    const vPath = path.join(VERSIONS_DIR, filename, versionFile);
     const safePath = path.resolve(vPath);
     if (!safePath.startsWith(path.resolve(DOCUMENTS_DIR))) {
       return res.status(403).json({ error: 'Access denied' });
@@ -617,35 +2540,33 @@ app.post('/api/documents/:filename/versions/:versionFile/restore', async (req, r
   try {
     const { filename, versionFile } = req.params;
     const filePath = path.join(DOCUMENTS_DIR, filename);
-    const vPath = path.join(DOCUMENTS_DIR, '.versions', filename, versionFile);
+    const vPath = path.join(VERSIONS_DIR, filename, versionFile);
+
+    // Read the selected version before the snapshot below can trigger a prune
+    const versionContent = await fs.readFile(vPath, 'utf-8');
 
     // Snapshot current before restoring
     const currentRaw = await fs.readFile(filePath, 'utf-8');
-    const versionsDir = path.join(DOCUMENTS_DIR, '.versions', filename);
-    await fs.mkdir(versionsDir, { recursive: true });
-    const ts = new Date().toISOString().replace(/[:.]/g, '-');
-    await fs.writeFile(path.join(versionsDir, `${ts}.md`), currentRaw, 'utf-8');
+    await snapshotVersion(VERSIONS_DIR, filename, currentRaw, { force: true });
 
     // Restore the selected version
-    const versionContent = await fs.readFile(vPath, 'utf-8');
-    await fs.writeFile(filePath, versionContent, 'utf-8');
+    await withDocumentLock(filename, () => writeDocumentFile(filename, versionContent));
 
     // Update index timestamp
     try {
-      const index = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
-      const entry = index.documents.find((d) => d.filename === filename);
-      if (entry) {
+      await updateDocumentsIndex((index) => {
+        const entry = index.documents.find((d) => d.filename === filename);
+        if (!entry) return false;
         entry.updated_at = new Date().toISOString();
-        await writeJson(DOCUMENTS_INDEX_PATH, index);
-      }
+        return true;
+      });
     } catch { /* non-critical */ }
 
     // Return restored content (stripped)
     const content = stripFrontmatter(versionContent);
-    res.json({ success: true, content });
+    res.json({ success: true, content, etag: documentEtag(versionContent) });
   } catch (err) {
-    console.error('POST restore version', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'POST restore version', err);
   }
 });
 
@@ -656,6 +2577,13 @@ app.post('/api/documents', async (req, res) => {
     if (!title || typeof title !== 'string') {
       return res.status(400).json({ error: 'Title is required' });
     }
+    // A note is converted into one document, so a retried conversion gets the same one back
+    const sourceNote = clientId(req.body.source_note);
+    if (sourceNote) {
+      const index = await readJson(DOCUMENTS_INDEX_PATH);
+      const existing = index?.documents?.find((d) => d.source_note === sourceNote);
+      if (existing) return res.json(existing);
+    }
     // Generate a safe filename
     const slug = title.toLowerCase()
       .replace(/[^a-z0-9\s-]/g, '')
@@ -680,13 +2608,8 @@ app.post('/api/documents', async (req, res) => {
 
     const now = new Date().toISOString();
     const docContent = content || `# ${title}\n\n`;
-    
-    // Write the markdown file
-    await fs.mkdir(docsDir, { recursive: true });
-    await fs.writeFile(path.join(docsDir, filename), docContent, 'utf-8');
 
-    // Add to index
-    const index = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
+    // Add to index first so the file watcher sees a known document, not a new drop-in
     const newEntry = {
       filename,
       title,
@@ -694,14 +2617,20 @@ app.post('/api/documents', async (req, res) => {
       category: category || 'Guide',
       created_at: now,
       updated_at: now,
+      ...(sourceNote && { source_note: sourceNote }),
     };
-    index.documents.unshift(newEntry);
-    await writeJson(DOCUMENTS_INDEX_PATH, index);
+    await updateDocumentsIndex((index) => {
+      index.documents.unshift(newEntry);
+      return true;
+    });
+
+    // Write the markdown file
+    await fs.mkdir(docsDir, { recursive: true });
+    await writeDocumentFile(filename, docContent);
 
     res.status(201).json(newEntry);
   } catch (err) {
-    console.error('POST /api/documents', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'POST /api/documents', err);
   }
 });
 
@@ -724,16 +2653,17 @@ app.delete('/api/documents/:filename', async (req, res) => {
     } catch (err) {
       if (err.code !== 'ENOENT') throw err;
     }
+    removeDocument(filename);
 
     // Remove from index
-    const index = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
-    index.documents = index.documents.filter((d) => d.filename !== filename);
-    await writeJson(DOCUMENTS_INDEX_PATH, index);
+    await updateDocumentsIndex((index) => {
+      index.documents = index.documents.filter((d) => d.filename !== filename);
+      return true;
+    });
 
     res.status(200).json({ success: true });
   } catch (err) {
-    console.error('DELETE /api/documents/:filename', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'DELETE /api/documents/:filename', err);
   }
 });
 
@@ -744,21 +2674,36 @@ app.patch('/api/documents/:filename/meta', async (req, res) => {
     if (!filename || !filename.endsWith('.md')) {
       return res.status(400).json({ error: 'Invalid filename' });
     }
-    const index = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
-    const entry = index.documents.find((d) => d.filename === filename);
+    const { title, emoji, category } = req.body;
+    let entry = null;
+    await updateDocumentsIndex((index) => {
+      entry = index.documents.find((d) => d.filename === filename);
+      if (!entry) return false;
+      if (title !== undefined) entry.title = title;
+      if (emoji !== undefined) entry.emoji = emoji;
+      if (category !== undefined) entry.category = category;
+      entry.updated_at = new Date().toISOString();
+      return true;
+    });
     if (!entry) {
       return res.status(404).json({ error: 'Document not found in index' });
     }
-    const { title, emoji, category } = req.body;
-    if (title !== undefined) entry.title = title;
-    if (emoji !== undefined) entry.emoji = emoji;
-    if (category !== undefined) entry.category = category;
-    entry.updated_at = new Date().toISOString();
-    await writeJson(DOCUMENTS_INDEX_PATH, index);
+
+    // Keep frontmatter fields in step, so the watcher doesn't restore a stale value on the next external edit
+    try {
+      const raw = await fs.readFile(path.join(DOCUMENTS_DIR, filename), 'utf-8');
+      const { meta, content } = parseFrontmatter(raw);
+      const patch = { title, emoji, category };
+      const staleKeys = Object.keys(patch).filter((k) => patch[k] !== undefined && meta[k] !== undefined && meta[k] !== patch[k]);
+      if (staleKeys.length > 0) {
+        for (const k of staleKeys) meta[k] = patch[k];
+        await writeDocumentFile(filename, buildFrontmatter(meta) + content);
+      }
+    } catch { /* frontmatter sync is non-critical */ }
+
     res.json(entry);
   } catch (err) {
-    console.error('PATCH /api/documents/:filename/meta', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'PATCH /api/documents/:filename/meta', err);
   }
 });
 
@@ -779,8 +2724,8 @@ app.post('/api/documents/:filename/duplicate', async (req, res) => {
     const content = await fs.readFile(filePath, 'utf-8');
 
     // Read index to get original metadata
-    const index = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
-    const original = index.documents.find((d) => d.filename === filename);
+    const currentIndex = await readJson(DOCUMENTS_INDEX_PATH) || { documents: [] };
+    const original = currentIndex.documents.find((d) => d.filename === filename);
     const origTitle = original?.title || 'Untitled';
 
     // Generate unique filename
@@ -799,8 +2744,6 @@ app.post('/api/documents/:filename/duplicate', async (req, res) => {
     }
 
     const now = new Date().toISOString();
-    await fs.writeFile(path.join(docsDir, newFilename), content, 'utf-8');
-
     const newEntry = {
       filename: newFilename,
       title: `Copy of ${origTitle}`,
@@ -809,14 +2752,16 @@ app.post('/api/documents/:filename/duplicate', async (req, res) => {
       created_at: now,
       updated_at: now,
     };
-    index.documents.unshift(newEntry);
-    await writeJson(DOCUMENTS_INDEX_PATH, index);
+    await updateDocumentsIndex((index) => {
+      index.documents.unshift(newEntry);
+      return true;
+    });
+    await writeDocumentFile(newFilename, content);
 
     res.status(201).json(newEntry);
   } catch (err) {
     if (err.code === 'ENOENT') return res.status(404).json({ error: 'Document not found' });
-    console.error('POST /api/documents/:filename/duplicate', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'POST /api/documents/:filename/duplicate', err);
   }
 });
 
@@ -831,8 +2776,7 @@ app.get('/api/overview', async (req, res) => {
     if (!data) return res.status(404).json({ error: 'Overview data not found' });
     res.json(data);
   } catch (err) {
-    console.error('GET /api/overview', err);
-    res.status(500).json({ error: err.message });
+    sendServerError(res, 'GET /api/overview', err);
   }
 });
 
@@ -861,6 +2805,7 @@ app.post('/api/agent-status', (req, res) => {
   }
   if (state === null) {
     agentStatusOverride = null;
+    publish('agent-status', DEFAULT_AGENT_STATUS);
     return res.json({ message: 'Reset to default', status: DEFAULT_AGENT_STATUS });
   }
 
@@ -879,6 +2824,7 @@ app.post('/api/agent-status', (req, res) => {
     isOnline: state !== 'sleeping' && state !== 'error',
     hasHelpers: state === 'working' || state === 'executing_cron',
   };
+  publish('agent-status', agentStatusOverride);
   res.json(agentStatusOverride);
 });
 
@@ -890,14 +2836,53 @@ let heartbeatState = {
   nextRun: new Date(Date.now() + 5 * 60 * 1000).toISOString(), // 5 min from now
   notesSeen: 0,
   tasksUpdated: 0,
+  unblockedTasks: [], // [{ id, title, status }] whose last prerequisite finished since the previous heartbeat
+  trigger: 'manual', // what started the last heartbeat: manual or urgent_note
   result: null, // last result message
 };
 
+/**
+ * Open tasks with prerequisites that are no longer blocked and haven't been reported yet.
+ * unblocked_notified_at makes each show up in one heartbeat; a task that gets blocked again
+ * (a prerequisite moved back, or new prerequisites) is re-armed.
+ */
+async function takeUnblockedTasks() {
+  let unblocked = [];
+  await updateJson(TASKS_PATH, (data) => {
+    unblocked = [];
+    let changed = false;
+    const blocked = blockedTasks(data);
+    const stamp = new Date().toISOString();
+    for (const [colKey, col] of Object.entries(data.columns || {})) {
+      if (columnKind(colKey, col) !== 'open') continue;
+      for (const t of col.tasks || []) {
+        if (!t.depends_on?.length) continue;
+        if (blocked.has(t.id)) {
+          if (t.unblocked_notified_at) {
+            delete t.unblocked_notified_at;
+            changed = true;
+          }
+        } else if (!t.unblocked_notified_at) {
+          t.unblocked_notified_at = stamp;
+          unblocked.push({ id: t.id, title: t.title, status: colKey });
+          changed = true;
+        }
+      }
+    }
+    return changed;
+  }, { fallback: emptyBoard });
+  return unblocked;
+}
+
 app.get('/api/heartbeat-status', (req, res) => {
   res.json(heartbeatState);
 });
 
-app.post('/api/heartbeat-trigger', async (req, res) => {
+/**
+ * Run a heartbeat check now and publish the result. `trigger` says why: 'manual' (the
+ * dashboard's button) or 'urgent_note' (an urgent note asked to wake the agent).
+ */
+async function runHeartbeat(trigger = 'manual') {
   // Simulate a 1-2 second heartbeat check
   const delay = 1000 + Math.floor(Math.random() * 1000);
   await new Promise((resolve) => setTimeout(resolve, delay));
@@ -907,17 +2892,34 @@ app.post('/api/heartbeat-trigger', async (req, res) => {
   const tasksUpdated = Math.floor(Math.random() * 3);
   const now = new Date();
 
+  let unblockedTasks = [];
+  try {
+    unblockedTasks = await takeUnblockedTasks();
+  } catch (err) {
+    console.error('[heartbeat] Unblocked check failed:', err.message);
+  }
+
+  const parts = [];
+  if (notesSeen > 0) parts.push(`${notesSeen} note${notesSeen !== 1 ? 's' : ''} read`);
+  if (tasksUpdated > 0) parts.push(`${tasksUpdated} task${tasksUpdated !== 1 ? 's' : ''} updated`);
+  if (unblockedTasks.length > 0) parts.push(`${unblockedTasks.length} task${unblockedTasks.length !== 1 ? 's' : ''} unblocked`);
+
   heartbeatState = {
     lastRun: now.toISOString(),
     nextRun: new Date(now.getTime() + 5 * 60 * 1000).toISOString(),
     notesSeen,
     tasksUpdated,
-    result: notesSeen === 0 && tasksUpdated === 0
-      ? 'Heartbeat OK — nothing new'
-      : `Heartbeat OK — ${notesSeen} note${notesSeen !== 1 ? 's' : ''} read, ${tasksUpdated} task${tasksUpdated !== 1 ? 's' : ''} updated`,
+    unblockedTasks,
+    trigger,
+    result: parts.length === 0 ? 'Heartbeat OK — nothing new' : `Heartbeat OK — ${parts.join(', ')}`,
   };
 
-  res.json(heartbeatState);
+  publish('heartbeat', heartbeatState);
+  return heartbeatState;
+}
+
+app.post('/api/heartbeat-trigger', async (req, res) => {
+  res.json(await runHeartbeat());
 });
 
 // --- SYSTEM INFO API ---
@@ -936,7 +2938,7 @@ function formatUptime(seconds) {
   return parts.join(' ');
 }
 
-app.get('/api/system-info', (req, res) => {
+function readSystemInfo() {
   const totalMem = os.totalmem();
   const freeMem = os.freemem();
   const usedMem = totalMem - freeMem;
@@ -948,7 +2950,7 @@ app.get('/api/system-info', (req, res) => {
   // Mock ping — slight random jitter around 22-28ms for realism
   const ping = Math.round(20 + Math.random() * 12);
 
-  res.json({
+  return {
     memory: {
       used: (usedMem / 1024 / 1024 / 1024).toFixed(1),
       total: (totalMem / 1024 / 1024 / 1024).toFixed(0),
@@ -957,9 +2959,44 @@ app.get('/api/system-info', (req, res) => {
     uptime: formatUptime(uptimeSeconds),
     uptimeSeconds,
     ping,
-  });
+  };
+}
+
+app.get('/api/system-info', (req, res) => {
+  res.json(readSystemInfo());
 });
 
+// --- EVENT STREAM (SSE) ---
+// One long-lived connection per dashboard tab. Clients refetch on "*.changed"
+// events and apply data-carrying events (agent-status, heartbeat, system-info) directly.
+
+app.get('/api/events', handleEventStream);
+
+// Push system metrics every 30s while anyone is listening
+const SYSTEM_INFO_PUSH_INTERVAL = 30_000;
+setInterval(() => {
+  if (clientCount() > 0) publish('system-info', readSystemInfo());
+}, SYSTEM_INFO_PUSH_INTERVAL);
+
+// Watch data/dashboard-data for writes made outside this server (e.g. by the Zyga agent)
+const DATA_FILE_EVENTS = {
+  'tasks.json': 'tasks.changed',
+  'task-history.json': 'task-history.changed',
+  'notes.json': 'notes.changed',
+  'activity-log.json': 'activity-log.changed',
+  'deliverables.json': 'deliverables.changed',
+  'overview-mock.json': 'overview.changed',
+};
+
+try {
+  watch(DATA_DIR, (eventType, filename) => {
+    const type = filename && DATA_FILE_EVENTS[filename];
+    if (type) publish(type);
+  });
+} catch (err) {
+  console.error('[events] Could not watch data directory:', err.message);
+}
+
 // Start server — use explicit http.createServer to ensure the process stays alive (Express 5 compat)
 const server = http.createServer(app);
 server.listen(PORT, () => {
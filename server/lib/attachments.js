@@ -0,0 +1,71 @@
+/**
+ * Attachments — Files attached to notes (screenshots, logs, small files)
+ *
+ * Stored as data/dashboard-data/attachments/<noteId>/<attachmentId>-<name>. The note lists
+ * them in `attachments`: [{ id, name, type, size, file, uploaded_at, uploaded_by }], where
+ * `file` is the stored file's path relative to the attachments directory, so the agent can
+ * open it straight from disk as well as through the API.
+ *
+ * Files stay while their note is in the trash; sweepAttachments removes the folders of notes
+ * that are gone for good.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+const SAFE_ID_RE = /^[\w-]{1,64}$/;
+
+/** Keep a file name readable but safe to put on disk: no directories, no odd characters */
+export function safeFileName(name) {
+  const base = path.basename(String(name || '')).replace(/[^\w.\- ]+/g, '_').replace(/^\.+/, '').trim();
+  return base.slice(-100) || 'file';
+}
+
+/** Write an uploaded file for a note. Returns its metadata entry for note.attachments. */
+export async function saveAttachment(dir, noteId, { id, name, type, data, by }) {
+  if (!SAFE_ID_RE.test(noteId)) throw new Error(`Invalid note id: ${noteId}`);
+  const attachmentId = id || randomUUID();
+  const fileName = `${attachmentId}-${safeFileName(name)}`;
+  await fs.mkdir(path.join(dir, noteId), { recursive: true });
+  await fs.writeFile(path.join(dir, noteId, fileName), data);
+  return {
+    id: attachmentId,
+    name: safeFileName(name),
+    type: type || 'application/octet-stream',
+    size: data.length,
+    file: `${noteId}/${fileName}`,
+    uploaded_at: new Date().toISOString(),
+    uploaded_by: by || 'user',
+  };
+}
+
+/** Absolute path of an attachment's file; null if its `file` points outside the directory */
+export function attachmentPath(dir, attachment) {
+  const root = path.resolve(dir);
+  const full = path.resolve(root, attachment.file || '');
+  return full.startsWith(root + path.sep) ? full : null;
+}
+
+/** Delete an attachment's file (a file that's already gone is fine) */
+export async function removeAttachmentFile(dir, attachment) {
+  const full = attachmentPath(dir, attachment);
+  if (full) await fs.rm(full, { force: true });
+}
+
+/** Remove the folders of notes not in `keepNoteIds`. Returns how many were removed. */
+export async function sweepAttachments(dir, keepNoteIds) {
+  let folders;
+  try {
+    folders = await fs.readdir(dir, { withFileTypes: true });
+  } catch (err) {
+    if (err.code === 'ENOENT') return 0;
+    throw err;
+  }
+  let removed = 0;
+  for (const folder of folders) {
+    if (!folder.isDirectory() || keepNoteIds.has(folder.name)) continue;
+    await fs.rm(path.join(dir, folder.name), { recursive: true, force: true });
+    removed++;
+  }
+  return removed;
+}
@@ -0,0 +1,156 @@
+/**
+ * Cron — Parse 5-field cron expressions and find when they fire next
+ *
+ *   ┌ minute (0-59)
+ *   │ ┌ hour (0-23)
+ *   │ │ ┌ day of month (1-31)
+ *   │ │ │ ┌ month (1-12 or jan-dec)
+ *   │ │ │ │ ┌ day of week (0-6 or sun-sat; 7 is also Sunday)
+ *   0 9 1 * *
+ *
+ * Each field takes `*`, numbers, ranges (1-5), lists (1,15) and steps (*\/15, 1-31/2).
+ * As in standard cron, when both day fields are restricted a day matching either one fires.
+ * Only `*` (or `*\/1`) leaves a day field unrestricted: `0 9 *\/2 * 1` fires on odd days and Mondays.
+ * Times are server-local.
+ */
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+/** A field value: a number, or a month / weekday name */
+function parseValue(text, field) {
+  const index = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (index >= 0) return index + field.min;
+  if (!/^\d+$/.test(text)) throw new Error(`Invalid ${field.name} "${text}"`);
+  const value = Number(text);
+  if (value < field.min || value > field.max) {
+    throw new Error(`${field.name} ${value} is out of range (${field.min}-${field.max})`);
+  }
+  return value;
+}
+
+/** All values one field allows, as a Set */
+function parseField(text, field) {
+  const values = new Set();
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in ${field.name} "${part}"`);
+    let from = field.min;
+    let to = field.max;
+    if (range !== '*') {
+      const [a, b] = range.split('-');
+      from = parseValue(a, field);
+      to = b === undefined ? (stepText === undefined ? from : field.max) : parseValue(b, field);
+      if (from > to) throw new Error(`Invalid range in ${field.name} "${part}"`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** `*` or `*\/1`: the field allows every value */
+function isEvery(part) {
+  return part === '*' || part === '*/1';
+}
+
+/**
+ * Parse a cron expression. Throws an Error saying what's wrong if it isn't valid.
+ * Returns { minutes, hours, days, months, weekdays } (Sets) plus which day fields are restricted.
+ */
+export function parseCron(expression) {
+  const parts = String(expression ?? '').trim().split(/\s+/);
+  if (parts.length !== 5 || parts[0] === '') {
+    throw new Error('A cron expression needs 5 fields: minute hour day-of-month month day-of-week');
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((p, i) => parseField(p, FIELDS[i]));
+  if (weekdays.has(7)) {
+    weekdays.delete(7);
+    weekdays.add(0);
+  }
+  return {
+    minutes, hours, days, months, weekdays,
+    daysRestricted: !isEvery(parts[2]),
+    weekdaysRestricted: !isEvery(parts[4]),
+  };
+}
+
+/** The cron error message for an expression, or null if it's valid */
+export function cronError(expression) {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (err) {
+    return err.message;
+  }
+}
+
+function dayMatches(cron, date) {
+  const dom = cron.days.has(date.getDate());
+  const dow = cron.weekdays.has(date.getDay());
+  if (cron.daysRestricted && cron.weekdaysRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * The first time strictly after `after` (a Date or ms) that the expression fires, or null if
+ * it never does within ~5 years (e.g. "0 0 31 2 *").
+ */
+export function nextCronTime(expression, after = new Date()) {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const t = new Date(after);
+  t.setSeconds(0, 0);
+  t.setMinutes(t.getMinutes() + 1);
+  const limit = t.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (t.getTime() <= limit) {
+    if (!cron.months.has(t.getMonth() + 1)) {
+      t.setMonth(t.getMonth() + 1, 1);
+      t.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(cron, t)) {
+      t.setDate(t.getDate() + 1);
+      t.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(t.getHours())) {
+      t.setHours(t.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(t.getMinutes())) {
+      t.setMinutes(t.getMinutes() + 1, 0, 0);
+    } else {
+      return t;
+    }
+  }
+  return null;
+}
+
+/** The next `count` times the expression fires after `after` */
+export function upcomingCronTimes(expression, count, after = new Date()) {
+  const cron = parseCron(expression);
+  const times = [];
+  let from = after;
+  while (times.length < count) {
+    const next = nextCronTime(cron, from);
+    if (!next) break;
+    times.push(next);
+    from = next;
+  }
+  return times;
+}
+
+/** A short label for how often an expression fires (Hourly, Daily, Weekdays, Weekly, Monthly), or Custom */
+export function cronFrequency(expression) {
+  const parts = String(expression ?? '').trim().split(/\s+/);
+  const [minute, hour, day, month, weekday] = parts;
+  const single = (part) => /^\d+$/.test(part);
+  if (parts.length !== 5 || month !== '*' || !single(minute)) return 'Custom';
+  if (hour === '*') return day === '*' && weekday === '*' ? 'Hourly' : 'Custom';
+  if (!single(hour)) return 'Custom';
+  if (day === '*' && weekday === '*') return 'Daily';
+  if (day === '*' && weekday === '1-5') return 'Weekdays';
+  if (day === '*' && single(weekday)) return 'Weekly';
+  if (single(day) && weekday === '*') return 'Monthly';
+  return 'Custom';
+}
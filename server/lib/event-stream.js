@@ -0,0 +1,85 @@
+/**
+ * Event Stream — Server-sent events hub for /api/events
+ *
+ * Every connected dashboard tab holds one SSE connection. Route handlers (and the
+ * data-dir watcher) call publish() after a change, and every client receives a
+ * typed JSON message: { type, data?, at }.
+ *
+ * Change-only events (no data payload, e.g. "tasks.changed") are coalesced per type
+ * so a route write followed by the watcher noticing the same write only goes out once.
+ */
+
+const KEEPALIVE_MS = 25_000;
+const COALESCE_MS = 150;
+
+/** @type {Set<import('http').ServerResponse>} */
+const clients = new Set();
+
+/** Pending coalesced change events: type → timeout */
+const pending = new Map();
+
+let keepaliveTimer = null;
+
+function send(res, event) {
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+function broadcast(event) {
+  for (const res of clients) {
+    try {
+      send(res, event);
+    } catch { /* client went away mid-write — cleaned up on 'close' */ }
+  }
+}
+
+/**
+ * Express handler for GET /api/events.
+ * Keeps the response open and registers it as a client until the request closes.
+ */
+export function handleEventStream(req, res) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // disable proxy buffering (nginx)
+  });
+  res.write('retry: 3000\n\n');
+  send(res, { type: 'connected', at: new Date().toISOString() });
+
+  clients.add(res);
+  if (!keepaliveTimer) {
+    keepaliveTimer = setInterval(() => {
+      broadcast({ type: 'ping', at: new Date().toISOString() });
+    }, KEEPALIVE_MS);
+  }
+
+  req.on('close', () => {
+    clients.delete(res);
+    if (clients.size === 0 && keepaliveTimer) {
+      clearInterval(keepaliveTimer);
+      keepaliveTimer = null;
+    }
+  });
+}
+
+/**
+ * Push an event to every connected client.
+ * With a data payload the event is sent immediately; without one it is treated as
+ * a "something changed, refetch" signal and coalesced for COALESCE_MS.
+ */
+export function publish(type, data) {
+  if (data !== undefined) {
+    broadcast({ type, data, at: new Date().toISOString() });
+    return;
+  }
+  if (pending.has(type)) return;
+  pending.set(type, setTimeout(() => {
+    pending.delete(type);
+    broadcast({ type, at: new Date().toISOString() });
+  }, COALESCE_MS));
+}
+
+/** Number of currently connected SSE clients */
+export function clientCount() {
+  return clients.size;
+}
@@ -0,0 +1,127 @@
+/**
+ * JSON Store — Concurrency-safe read-modify-write for the dashboard JSON files
+ *
+ * tasks.json and notes.json are written both by the API server and directly by
+ * the Zyga agent. updateJson() guards a route's read → mutate → write:
+ *
+ *   - Writes to the same file are serialized through a per-file promise queue.
+ *   - The new content goes to a temp file that is fsync'd and renamed over the
+ *     original, so a crash mid-write never leaves a truncated file.
+ *   - Just before the rename the file is read again; if an external writer changed
+ *     it since the first read, the mutation is re-run on the fresh content instead of
+ *     clobbering it. If it keeps changing, updateJson gives up with a WriteConflictError.
+ *     This narrows the race but doesn't close it: a write landing between that last
+ *     read and the rename is still overwritten.
+ *   - The previous content is kept as a rolling backup in .backups/<file>/.
+ *   - A top-level `revision` counter is bumped on every write.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+const MAX_BACKUPS = 10;
+const MAX_ATTEMPTS = 3;
+
+/** The file kept changing on disk while updateJson tried to write it; nothing was written */
+export class WriteConflictError extends Error {
+  constructor(filePath) {
+    super(`${path.basename(filePath)} kept changing on disk; try again`);
+    this.name = 'WriteConflictError';
+  }
+}
+
+/** filePath → tail of its write queue */
+const queues = new Map();
+
+let tmpCounter = 0;
+
+async function readRaw(filePath) {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+/** Copy the current content into .backups/<file>/<timestamp>.json and drop the oldest beyond MAX_BACKUPS */
+async function backup(filePath, raw) {
+  const dir = path.join(path.dirname(filePath), '.backups', path.basename(filePath));
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, `${Date.now()}.json`), raw, 'utf-8');
+  const files = (await fs.readdir(dir)).filter((f) => f.endsWith('.json')).sort();
+  for (const old of files.slice(0, Math.max(0, files.length - MAX_BACKUPS))) {
+    await fs.unlink(path.join(dir, old)).catch(() => {});
+  }
+}
+
+/** Write via temp file + fsync + rename so readers only ever see a complete file */
+async function writeAtomic(filePath, content) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp-${process.pid}-${++tmpCounter}`;
+  const handle = await fs.open(tmpPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    await fs.rename(tmpPath, filePath);
+  } catch (err) {
+    await fs.unlink(tmpPath).catch(() => {});
+    throw err;
+  }
+}
+
+/** Run fn after every earlier queued operation on the same file */
+function enqueue(filePath, fn) {
+  const prev = queues.get(filePath) || Promise.resolve();
+  const next = prev.then(fn, fn);
+  const tail = next.catch(() => {});
+  queues.set(filePath, tail);
+  tail.then(() => {
+    if (queues.get(filePath) === tail) queues.delete(filePath);
+  });
+  return next;
+}
+
+/** Read and parse a JSON file; null if it does not exist */
+export async function readJsonFile(filePath) {
+  const raw = await readRaw(filePath);
+  return raw === null ? null : JSON.parse(raw);
+}
+
+/**
+ * Serialized, atomic read-modify-write of a JSON file.
+ *
+ * `mutate(data)` edits `data` in place (it receives `fallback()` when the file is
+ * missing) and returns true to write or false to leave the file untouched.
+ * It may run more than once if another process writes the file concurrently,
+ * so it should only record results in variables it overwrites on each run.
+ *
+ * Resolves to the data as last seen (written or not). Rejects with WriteConflictError
+ * if the file changed under every one of MAX_ATTEMPTS tries.
+ */
+export function updateJson(filePath, mutate, { fallback = () => ({}) } = {}) {
+  return enqueue(filePath, async () => {
+    for (let attempt = 1; ; attempt++) {
+      const raw = await readRaw(filePath);
+      const data = raw === null ? fallback() : JSON.parse(raw);
+      if (!(await mutate(data))) return data;
+
+      data.revision = (Number(data.revision) || 0) + 1;
+      const content = JSON.stringify(data, null, 2);
+
+      // Someone else wrote the file while we were mutating — start over on their version
+      if ((await readRaw(filePath)) !== raw) {
+        if (attempt >= MAX_ATTEMPTS) throw new WriteConflictError(filePath);
+        continue;
+      }
+
+      if (raw !== null) await backup(filePath, raw);
+      await writeAtomic(filePath, content);
+      return data;
+    }
+  });
+}
@@ -0,0 +1,238 @@
+/**
+ * Search Index — In-memory inverted index over the markdown in data/documents
+ *
+ * The API server feeds it on startup, on every save and whenever the documents
+ * watcher sees a file change, so searches never touch the disk.
+ *
+ * Ranking is BM25 over the document body plus a boost for title matches and for
+ * bodies containing the whole query as a phrase. All query terms must match
+ * (the last one as a prefix, so results update while typing); "quoted phrases"
+ * must appear verbatim.
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_WEIGHT = 2;
+const PHRASE_BONUS = 1.5;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+/** filename → { text, lower, length, tf: Map<term, count> } */
+const docs = new Map();
+
+/** term → Set<filename> */
+const postings = new Map();
+
+const TOKEN_RE = /[\p{L}\p{N}]+/gu;
+
+function tokenize(text) {
+  return (text.toLowerCase().match(TOKEN_RE) || []).filter((t) => t.length > 1 || /\d/.test(t));
+}
+
+function escapeRegExp(s) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Reduce markdown to readable plain text for snippets:
+ * drops frontmatter, code fences, heading/list/quote markers, emphasis, link targets and table pipes.
+ */
+function markdownToPlainText(raw) {
+  return raw
+    .replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '')
+    .replace(/```[^\n]*\n?/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/^\s*\|?[\s:-]+\|[\s|:-]*$/gm, '')
+    .replace(/\|/g, ' ')
+    .replace(/(\*\*|__|\*|_|~~|`)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Add or replace a document in the index. `raw` is the full file content (frontmatter included). */
+export function indexDocument(filename, raw) {
+  removeDocument(filename);
+  const text = markdownToPlainText(raw);
+  const tokens = tokenize(text);
+  const tf = new Map();
+  for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1);
+  docs.set(filename, { text, lower: text.toLowerCase(), length: tokens.length, tf });
+  for (const term of tf.keys()) {
+    if (!postings.has(term)) postings.set(term, new Set());
+    postings.get(term).add(filename);
+  }
+}
+
+/** Drop a document from the index */
+export function removeDocument(filename) {
+  const doc = docs.get(filename);
+  if (!doc) return;
+  for (const term of doc.tf.keys()) {
+    const set = postings.get(term);
+    if (!set) continue;
+    set.delete(filename);
+    if (set.size === 0) postings.delete(term);
+  }
+  docs.delete(filename);
+}
+
+/** Replace the whole index, e.g. on startup. `files` is an array of { filename, raw }. */
+export function rebuildIndex(files) {
+  docs.clear();
+  postings.clear();
+  for (const { filename, raw } of files) indexDocument(filename, raw);
+}
+
+/** Split a query into "quoted phrases" and loose terms */
+function parseQuery(q) {
+  const phrases = [];
+  const rest = q.replace(/"([^"]+)"/g, (_, p) => {
+    const phrase = p.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (phrase) phrases.push(phrase);
+    return ' ';
+  });
+  const terms = [...new Set(tokenize(q))];
+  // Prefix-match the last loose term only if the user is still typing it (no trailing space / closing quote)
+  const looseTerms = tokenize(rest);
+  const prefixTerm = /[\p{L}\p{N}]$/u.test(q) && looseTerms.length > 0 ? looseTerms[looseTerms.length - 1] : null;
+  return { phrases, terms, prefixTerm };
+}
+
+/** All indexed terms a query term matches: itself, or every term it prefixes */
+function expandTerm(term, isPrefix) {
+  if (!isPrefix) return postings.has(term) ? [term] : [];
+  const out = [];
+  for (const t of postings.keys()) {
+    if (t.startsWith(term)) out.push(t);
+  }
+  return out;
+}
+
+/** Build a snippet around the best match, split into plain and highlighted parts */
+function buildSnippet(doc, phrases, matchedTerms) {
+  const { text, lower } = doc;
+
+  // Anchor on the first phrase occurrence, else the first occurrence of the rarest matched term
+  let anchor = -1;
+  for (const p of phrases) {
+    anchor = lower.indexOf(p);
+    if (anchor >= 0) break;
+  }
+  if (anchor < 0) {
+    const byRarity = [...matchedTerms].sort((a, b) => (postings.get(a)?.size || 0) - (postings.get(b)?.size || 0));
+    for (const term of byRarity) {
+      const m = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}`, 'u').exec(lower);
+      if (m) { anchor = m.index; break; }
+    }
+  }
+  if (anchor < 0) anchor = 0;
+
+  let start = Math.max(0, anchor - SNIPPET_BEFORE);
+  let end = Math.min(text.length, anchor + SNIPPET_AFTER);
+  // Snap to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space >= 0 && space < anchor) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > anchor) end = space;
+  }
+  const window = text.slice(start, end);
+
+  const patterns = [
+    ...phrases.map((p) => escapeRegExp(p).replace(/ /g, '\\s+')),
+    ...[...matchedTerms].sort((a, b) => b.length - a.length).map((t) => `(?<![\\p{L}\\p{N}])${escapeRegExp(t)}`),
+  ];
+  const parts = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+  if (patterns.length === 0) {
+    parts.push({ text: window, match: false });
+  } else {
+    const re = new RegExp(patterns.join('|'), 'giu');
+    let last = 0;
+    for (const m of window.matchAll(re)) {
+      if (m[0].length === 0) continue;
+      if (m.index > last) parts.push({ text: window.slice(last, m.index), match: false });
+      parts.push({ text: m[0], match: true });
+      last = m.index + m[0].length;
+    }
+    if (last < window.length) parts.push({ text: window.slice(last), match: false });
+  }
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+}
+
+/**
+ * Search the index.
+ * `titles` maps filename → title (from documents-index.json) so title matches count too.
+ * Returns hits sorted by score: { filename, score, matches, snippet: [{ text, match }] }.
+ */
+export function search(query, { titles = new Map(), limit = 20 } = {}) {
+  const q = String(query || '').trim();
+  if (!q) return [];
+  const { phrases, terms, prefixTerm } = parseQuery(q);
+  if (terms.length === 0) return [];
+
+  const n = docs.size || 1;
+  const avgLength = [...docs.values()].reduce((sum, d) => sum + d.length, 0) / n || 1;
+  // The index terms each query term stands for (a prefix term can match many) — the same for every document
+  const queryTerms = terms.map((term) => {
+    const isPrefix = term === prefixTerm;
+    return { term, isPrefix, expanded: expandTerm(term, isPrefix) };
+  });
+  const wholeQuery = q.toLowerCase().replace(/"/g, '').replace(/\s+/g, ' ').trim();
+
+  const hits = [];
+  for (const [filename, doc] of docs) {
+    const titleTokens = new Set(tokenize(titles.get(filename) || ''));
+    let score = 0;
+    let matches = 0;
+    const matchedTerms = new Set();
+    let allMatched = true;
+
+    for (const { term, isPrefix, expanded } of queryTerms) {
+      let termScore = 0;
+      let inTitle = false;
+
+      for (const t of expanded) {
+        const tf = doc.tf.get(t);
+        if (!tf) continue;
+        const df = postings.get(t).size;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        termScore += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / avgLength));
+        matches += tf;
+        matchedTerms.add(t);
+      }
+      for (const t of titleTokens) {
+        if (isPrefix ? t.startsWith(term) : t === term) { inTitle = true; break; }
+      }
+      if (inTitle) {
+        const df = postings.get(term)?.size || 1;
+        termScore += TITLE_WEIGHT * Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      }
+      if (termScore === 0) { allMatched = false; break; }
+      score += termScore;
+    }
+    if (!allMatched) continue;
+
+    // Quoted phrases are required; an unquoted multi-word query gets a bonus when it appears verbatim
+    if (phrases.some((p) => !doc.lower.includes(p))) continue;
+    if (phrases.length > 0 || (terms.length > 1 && doc.lower.includes(wholeQuery))) {
+      score *= PHRASE_BONUS;
+    }
+
+    const snippetPhrases = phrases.length > 0 ? phrases : (terms.length > 1 ? [wholeQuery] : []);
+    hits.push({
+      filename,
+      score: Math.round(score * 1000) / 1000,
+      matches,
+      snippet: buildSnippet(doc, snippetPhrases, matchedTerms),
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return hits.slice(0, limit);
+}
@@ -0,0 +1,47 @@
+/**
+ * Task Dependencies — Which tasks wait on which other tasks
+ *
+ * A task's `depends_on` lists the ids of its prerequisites. The task is blocked while any
+ * prerequisite is unfinished, i.e. still in an open column; tasks in done and archive columns
+ * count as finished. Ids of tasks that no longer exist are ignored.
+ *
+ * The dependency graph must stay acyclic: a task can't (even indirectly) wait on itself.
+ */
+
+/**
+ * The chain of ids that giving `taskId` the prerequisites `dependsOn` would close into a loop
+ * ([taskId, ..., taskId]), or null if it stays acyclic. `graph` maps each task id to its
+ * current depends_on list.
+ */
+export function findDependencyCycle(graph, taskId, dependsOn) {
+  const visited = new Set();
+  const walk = (id, path) => {
+    if (id === taskId) return [...path, id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const next of graph.get(id) || []) {
+      const cycle = walk(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+  for (const id of dependsOn) {
+    const cycle = walk(id, [taskId]);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Unfinished prerequisites per task, from [{ id, depends_on, finished }].
+ * Returns a Map of task id → blocking ids; tasks that aren't blocked are left out.
+ */
+export function blockingTasks(tasks) {
+  const finished = new Map(tasks.map((t) => [t.id, t.finished]));
+  const blocked = new Map();
+  for (const t of tasks) {
+    const blockers = (t.depends_on || []).filter((id) => finished.get(id) === false);
+    if (blockers.length > 0) blocked.set(t.id, blockers);
+  }
+  return blocked;
+}
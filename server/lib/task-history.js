@@ -0,0 +1,83 @@
+/**
+ * Task History — Append-only timeline of what happened to each task
+ *
+ * Stored in data/dashboard-data/task-history.json as { tasks: { [taskId]: [entry, ...] } },
+ * oldest entry first. Every entry has { id, type, by, at } plus details by type:
+ *
+ *   created   { status }                  status     { from, to }
+ *   priority  { from, to }                edited     { fields: [{ field, from, to }] }
+ *   checklist { action, text }            comment    { text }
+ *   deleted   {}                        restored   { status }
+ *
+ * In `edited`, from / to are null when the field was unset (labels, custom_fields and depends_on
+ * hold their list / object). `created` entries for the next occurrence of a recurring task
+ * also have `recurred_from`, the previous occurrence's id; tasks converted from a note have
+ * `from_note`, the note's id.
+ *
+ * `by` is 'user' or 'zyga'. Entries are never changed or removed; the history of a
+ * deleted task is kept.
+ */
+
+import { randomUUID } from 'crypto';
+import { readJsonFile, updateJson } from './json-store.js';
+
+export const TASK_ACTORS = ['user', 'zyga'];
+
+/** Task fields whose edits are recorded as `edited` entries (status and priority get their own types) */
+const EDIT_FIELDS = ['title', 'description', 'due_at', 'reminder_at', 'labels', 'assignee', 'custom_fields', 'depends_on', 'recurrence'];
+
+/** Missing, empty string, empty list and empty object all mean "not set" */
+function fieldValue(value) {
+  if (value === undefined || value === '' || value === null) return null;
+  if (typeof value === 'object' && Object.keys(value).length === 0) return null;
+  return value;
+}
+
+/** The author of a change from a request body's `by`; anything unknown counts as the user */
+export function actorOf(value) {
+  return TASK_ACTORS.includes(value) ? value : 'user';
+}
+
+/**
+ * History entries for an update from `before` to `after` (backend task objects).
+ * `fromStatus` / `toStatus` are the task's column keys before and after.
+ */
+export function describeTaskChanges(before, after, fromStatus, toStatus) {
+  const entries = [];
+  if (fromStatus !== toStatus) entries.push({ type: 'status', from: fromStatus, to: toStatus });
+  if ((before.priority || null) !== (after.priority || null)) {
+    entries.push({ type: 'priority', from: before.priority || null, to: after.priority || null });
+  }
+  const fields = EDIT_FIELDS
+    .map((field) => ({ field, from: fieldValue(before[field]), to: fieldValue(after[field]) }))
+    .filter(({ from, to }) => JSON.stringify(from) !== JSON.stringify(to));
+  if (fields.length > 0) entries.push({ type: 'edited', fields });
+  return entries;
+}
+
+/**
+ * Append entries ({ task_id, type, by, ...details }) to the history file.
+ * Resolves to the stored entries (with id and timestamp).
+ */
+export async function appendTaskHistory(historyPath, entries) {
+  if (entries.length === 0) return [];
+  const at = new Date().toISOString();
+  const stored = entries.map(({ task_id, by, ...details }) => ({
+    task_id,
+    entry: { id: randomUUID(), by: actorOf(by), at, ...details },
+  }));
+  await updateJson(historyPath, (data) => {
+    data.tasks = data.tasks || {};
+    for (const { task_id, entry } of stored) {
+      (data.tasks[task_id] || (data.tasks[task_id] = [])).push(entry);
+    }
+    return true;
+  }, { fallback: () => ({ tasks: {} }) });
+  return stored.map((s) => s.entry);
+}
+
+/** One task's history, oldest first */
+export async function readTaskHistory(historyPath, taskId) {
+  const data = await readJsonFile(historyPath);
+  return data?.tasks?.[taskId] || [];
+}
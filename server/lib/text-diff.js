@@ -0,0 +1,147 @@
+/**
+ * Text Diff — Line and word diff between two versions of a document
+ *
+ * diffDocuments() returns every line of the comparison tagged equal / added /
+ * removed with its old and new line numbers. Where a changed block replaces
+ * lines one-for-one, each removed/added pair also gets a word-level diff so the
+ * UI can highlight exactly what changed inside the line.
+ *
+ * diffSequences() and splitLines() are also what the dashboard's conflict dialog uses
+ * (lib/lineDiff.ts imports them from here), so both diffs always agree. Keep this file
+ * free of Node-only imports for that reason.
+ */
+
+const MAX_LCS_CELLS = 4_000_000;
+
+/** @typedef {'equal' | 'removed' | 'added'} DiffOp */
+
+/** Lines of a text, ignoring \r and one trailing newline */
+export function splitLines(/** @type {string} */ text) {
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Edit script turning token array `a` into `b`.
+ * Common prefix/suffix are trimmed first so typical edits stay cheap; if the rest is too big for
+ * the table, the changed middle is reported as one removed block followed by one added block.
+ *
+ * @param {string[]} a
+ * @param {string[]} b
+ * @returns {{ op: DiffOp, text: string }[]}
+ */
+export function diffSequences(a, b) {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  /** @type {{ op: DiffOp, text: string }[]} */
+  const ops = a.slice(0, start).map((text) => ({ op: 'equal', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    for (const text of midA) ops.push({ op: 'removed', text });
+    for (const text of midB) ops.push({ op: 'added', text });
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        ops.push({ op: 'equal', text: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        ops.push({ op: 'removed', text: midA[i++] });
+      } else {
+        ops.push({ op: 'added', text: midB[j++] });
+      }
+    }
+    while (i < n) ops.push({ op: 'removed', text: midA[i++] });
+    while (j < m) ops.push({ op: 'added', text: midB[j++] });
+  }
+
+  for (const text of a.slice(endA)) ops.push({ op: 'equal', text });
+  return ops;
+}
+
+const TOKEN_RE = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+/** Merge adjacent segments with the same op */
+function compact(segments) {
+  const out = [];
+  for (const s of segments) {
+    const last = out[out.length - 1];
+    if (last && last.op === s.op) last.text += s.text;
+    else out.push({ ...s });
+  }
+  return out;
+}
+
+/** Word diff of one changed line: segments for the old line (equal/removed) and the new one (equal/added) */
+function diffWords(oldLine, newLine) {
+  const ops = diffSequences(oldLine.match(TOKEN_RE) || [], newLine.match(TOKEN_RE) || []);
+  return {
+    old: compact(ops.filter((o) => o.op !== 'added')),
+    new: compact(ops.filter((o) => o.op !== 'removed')),
+  };
+}
+
+/**
+ * Diff two texts.
+ * Returns { lines: [{ op, text, oldNumber?, newNumber?, words? }], stats: { added, removed, unchanged } }.
+ */
+export function diffDocuments(oldText, newText) {
+  const ops = diffSequences(splitLines(oldText), splitLines(newText));
+  const lines = [];
+  const stats = { added: 0, removed: 0, unchanged: 0 };
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].op === 'equal') {
+      lines.push({ op: 'equal', text: ops[k].text, oldNumber: ++oldNumber, newNumber: ++newNumber });
+      stats.unchanged++;
+      k++;
+      continue;
+    }
+
+    // A changed block: removed lines then added lines (in diff order)
+    const removed = [];
+    const added = [];
+    while (k < ops.length && ops[k].op !== 'equal') {
+      (ops[k].op === 'removed' ? removed : added).push(ops[k].text);
+      k++;
+    }
+    const removedEntries = removed.map((text) => ({ op: 'removed', text, oldNumber: ++oldNumber }));
+    const addedEntries = added.map((text) => ({ op: 'added', text, newNumber: ++newNumber }));
+
+    // Pair lines up for word-level highlights
+    const pairs = Math.min(removedEntries.length, addedEntries.length);
+    for (let p = 0; p < pairs; p++) {
+      const words = diffWords(removedEntries[p].text, addedEntries[p].text);
+      removedEntries[p].words = words.old;
+      addedEntries[p].words = words.new;
+    }
+
+    lines.push(...removedEntries, ...addedEntries);
+    stats.removed += removedEntries.length;
+    stats.added += addedEntries.length;
+  }
+
+  return { lines, stats };
+}
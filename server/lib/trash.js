@@ -0,0 +1,71 @@
+/**
+ * Trash — Deleted tasks and notes, kept for a while so they can be restored
+ *
+ * Stored in data/dashboard-data/trash.json as { items: [entry, ...] }, newest first. Every entry
+ * has { id, kind, item, deleted_at, deleted_by }, where `kind` is 'task' or 'note' and `item` is
+ * the task / note exactly as it was stored. Details by kind:
+ *
+ *   task  { column, position, dependents }   where it was, and the ids of tasks whose depends_on
+ *                                            listed it (relinked when it's restored)
+ *   note  { position }
+ *
+ * Entries are purged once they are older than the retention period.
+ */
+import { randomUUID } from 'crypto';
+import { readJsonFile, updateJson } from './json-store.js';
+
+export const TRASH_KINDS = ['task', 'note'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Move deleted items ({ kind, item, by, ...details }) into the trash.
+ * Returns the stored entries (with id and timestamp).
+ */
+export async function addToTrash(trashPath, entries) {
+  if (entries.length === 0) return [];
+  const deletedAt = new Date().toISOString();
+  const stored = entries.map(({ kind, item, by, ...details }) => ({
+    id: randomUUID(), kind, item, deleted_at: deletedAt, deleted_by: by || 'user', ...details,
+  }));
+  await updateJson(trashPath, (data) => {
+    data.items = [...stored, ...(data.items || [])];
+    return true;
+  }, { fallback: () => ({ items: [] }) });
+  return stored;
+}
+
+/** All trash entries, newest first */
+export async function readTrash(trashPath) {
+  const data = await readJsonFile(trashPath);
+  return data?.items || [];
+}
+
+/** Remove one entry (after it was restored, or for good); false if there was no such entry */
+export async function removeFromTrash(trashPath, id) {
+  let removed = false;
+  await updateJson(trashPath, (data) => {
+    const prev = (data.items || []).length;
+    data.items = (data.items || []).filter((e) => e.id !== id);
+    removed = data.items.length < prev;
+    return removed;
+  }, { fallback: () => ({ items: [] }) });
+  return removed;
+}
+
+/** When an entry will be purged, as an ISO string */
+export function trashExpiry(entry, retentionDays) {
+  return new Date(Date.parse(entry.deleted_at) + retentionDays * DAY_MS).toISOString();
+}
+
+/** Drop entries deleted more than `retentionDays` ago. Returns how many were removed. */
+export async function purgeTrash(trashPath, retentionDays, now = Date.now()) {
+  let removed = 0;
+  await updateJson(trashPath, (data) => {
+    const prev = (data.items || []).length;
+    data.items = (data.items || []).filter((e) => Date.parse(e.deleted_at) + retentionDays * DAY_MS > now);
+    removed = prev - data.items.length;
+    return removed > 0;
+  }, { fallback: () => ({ items: [] }) });
+  return removed;
+}
@@ -0,0 +1,254 @@
+/**
+ * Version History — Snapshots of documents in data/documents/.versions/ and their retention
+ *
+ * Every save snapshots the previous content as .versions/<filename>/<timestamp>.md.
+ * Autosave fires while typing, so snapshots are coalesced: while the same author keeps
+ * editing, at most one snapshot is taken per coalesce window. Older snapshots are
+ * thinned out grandfather-father-son style (newest per hour / day / week), and the
+ * whole history is capped in size by dropping the oldest snapshots first.
+ *
+ * Snapshots can be pinned with a label and note (kept in .versions/pins.json);
+ * pinned snapshots are never pruned.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { readJsonFile, updateJson } from './json-store.js';
+
+export const RETENTION_POLICY = {
+  coalesceMinutes: 10,   // same-author saves within this window share one snapshot
+  keepLatest: 20,        // always keep this many of the newest snapshots per document
+  hourly: 24,            // ...plus the newest snapshot in each of the last N hours that have one
+  daily: 14,             // ...each of the last N days
+  weekly: 8,             // ...each of the last N weeks
+  maxTotalBytes: 100 * 1024 * 1024, // cap for all documents together (each keeps its newest and pinned snapshots)
+};
+
+const VERSION_FILE_RE = /^(\d{4}-\d{2}-\d{2}T\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.md$/;
+
+/** Restore the ISO timestamp from a snapshot filename: 2026-02-16T14-30-00-000Z.md → 2026-02-16T14:30:00.000Z */
+export function versionTimestamp(file) {
+  const m = file.match(VERSION_FILE_RE);
+  return m ? `${m[1]}:${m[2]}:${m[3]}.${m[4]}Z` : null;
+}
+
+function versionFileName(date) {
+  return `${date.toISOString().replace(/[:.]/g, '-')}.md`;
+}
+
+/** Names of the per-document directories under the versions root */
+async function documentDirs(versionsRoot) {
+  try {
+    return (await fs.readdir(versionsRoot, { withFileTypes: true }))
+      .filter((d) => d.isDirectory() && !d.name.startsWith('.'))
+      .map((d) => d.name);
+  } catch {
+    return []; // no history at all
+  }
+}
+
+/** Snapshots of one document, newest first: [{ file, time, size }] */
+async function listSnapshots(versionsDir) {
+  let files = [];
+  try {
+    files = await fs.readdir(versionsDir);
+  } catch { /* no versions yet */ }
+  const snapshots = [];
+  for (const file of files) {
+    const ts = versionTimestamp(file);
+    if (!ts) continue;
+    const stat = await fs.stat(path.join(versionsDir, file)).catch(() => null);
+    if (stat) snapshots.push({ file, time: Date.parse(ts), size: stat.size });
+  }
+  return snapshots.sort((a, b) => b.time - a.time);
+}
+
+/**
+ * Snapshot `raw` (the content about to be overwritten) for `filename`.
+ *
+ * `author` wrote `raw`; `editedBy` is making the new save. When they are the same
+ * and the newest snapshot is younger than the coalesce window, this save continues
+ * the same editing session and no snapshot is taken. Pass `force` to always snapshot
+ * (e.g. before a restore). Resolves to the snapshot filename, or null if skipped.
+ */
+export async function snapshotVersion(versionsRoot, filename, raw, { author, editedBy, force = false } = {}) {
+  const versionsDir = path.join(versionsRoot, filename);
+  const now = new Date();
+
+  if (!force && author === editedBy) {
+    const [newest] = await listSnapshots(versionsDir);
+    if (newest && now.getTime() - newest.time < RETENTION_POLICY.coalesceMinutes * 60_000) return null;
+  }
+
+  await fs.mkdir(versionsDir, { recursive: true });
+  const file = versionFileName(now);
+  await fs.writeFile(path.join(versionsDir, file), raw, 'utf-8');
+  schedulePrune(versionsRoot);
+  return file;
+}
+
+function hourKey(time) {
+  return new Date(time).toISOString().slice(0, 13);
+}
+
+function dayKey(time) {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/** Monday of the (UTC) week */
+function weekKey(time) {
+  const d = new Date(time);
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return d.toISOString().slice(0, 10);
+}
+
+/** Which snapshots (newest first) the retention rules keep, on top of the pinned ones */
+function retained(snapshots, pinned) {
+  const keep = new Set([...pinned, ...snapshots.slice(0, RETENTION_POLICY.keepLatest).map((s) => s.file)]);
+  for (const [limit, keyOf] of [
+    [RETENTION_POLICY.hourly, hourKey],
+    [RETENTION_POLICY.daily, dayKey],
+    [RETENTION_POLICY.weekly, weekKey],
+  ]) {
+    const buckets = new Set();
+    for (const s of snapshots) {
+      const key = keyOf(s.time);
+      if (buckets.has(key)) continue;
+      if (buckets.size >= limit) break;
+      buckets.add(key);
+      keep.add(s.file);
+    }
+  }
+  return keep;
+}
+
+/**
+ * Apply the retention policy to every document's history.
+ * Resolves to { removed, freedBytes }.
+ */
+export async function pruneAllVersions(versionsRoot) {
+  const dirs = await documentDirs(versionsRoot);
+  const pins = await readPins(versionsRoot);
+
+  let removed = 0;
+  let freedBytes = 0;
+  const remove = async (filename, s) => {
+    await fs.unlink(path.join(versionsRoot, filename, s.file)).catch(() => {});
+    removed++;
+    freedBytes += s.size;
+  };
+
+  // Thin out each document's history
+  const survivors = [];
+  for (const filename of dirs) {
+    const snapshots = await listSnapshots(path.join(versionsRoot, filename));
+    const pinned = Object.keys(pins[filename] || {});
+    const keep = retained(snapshots, pinned);
+    for (const s of snapshots) {
+      if (keep.has(s.file)) survivors.push({ filename, ...s, exempt: s === snapshots[0] || pinned.includes(s.file) });
+      else await remove(filename, s);
+    }
+  }
+
+  // Then enforce the total size cap, oldest first (pinned and newest snapshots are exempt)
+  let total = survivors.reduce((sum, s) => sum + s.size, 0);
+  for (const s of survivors.filter((x) => !x.exempt).sort((a, b) => a.time - b.time)) {
+    if (total <= RETENTION_POLICY.maxTotalBytes) break;
+    await remove(s.filename, s);
+    total -= s.size;
+  }
+
+  return { removed, freedBytes };
+}
+
+let pruneChain = Promise.resolve();
+
+/** Run a prune after any queued ones, so prunes never overlap; resolves to { removed, freedBytes } */
+export function pruneVersionsNow(versionsRoot) {
+  const run = pruneChain.then(() => pruneAllVersions(versionsRoot));
+  pruneChain = run.catch(() => {});
+  return run;
+}
+
+function schedulePrune(versionsRoot) {
+  pruneVersionsNow(versionsRoot).catch((err) => console.error('[versions] prune failed:', err.message));
+}
+
+/** Storage used by version history: { totalBytes, totalVersions, documents: [{ filename, versions, bytes, oldest }] } */
+export async function versionStorageStats(versionsRoot) {
+  const dirs = await documentDirs(versionsRoot);
+
+  const documents = [];
+  for (const filename of dirs) {
+    const snapshots = await listSnapshots(path.join(versionsRoot, filename));
+    if (snapshots.length === 0) continue;
+    documents.push({
+      filename,
+      versions: snapshots.length,
+      bytes: snapshots.reduce((sum, s) => sum + s.size, 0),
+      oldest: new Date(snapshots[snapshots.length - 1].time).toISOString(),
+    });
+  }
+  documents.sort((a, b) => b.bytes - a.bytes);
+  return {
+    totalBytes: documents.reduce((sum, d) => sum + d.bytes, 0),
+    totalVersions: documents.reduce((sum, d) => sum + d.versions, 0),
+    documents,
+  };
+}
+
+// --- Pins ---
+
+function pinsPath(versionsRoot) {
+  return path.join(versionsRoot, 'pins.json');
+}
+
+/** { [filename]: { [versionFile]: { label, note, pinnedAt, pinnedBy } } } */
+export async function readPins(versionsRoot) {
+  const data = await readJsonFile(pinsPath(versionsRoot));
+  return data?.documents || {};
+}
+
+/**
+ * Pin a snapshot, or update the label / note of an existing pin.
+ * Resolves to the pin, or null if the snapshot does not exist.
+ */
+export async function pinVersion(versionsRoot, filename, versionFile, { label = '', note = '', pinnedBy = 'User' } = {}) {
+  if (!versionTimestamp(versionFile)) return null;
+  try {
+    await fs.access(path.join(versionsRoot, filename, versionFile));
+  } catch {
+    return null;
+  }
+
+  let pin = null;
+  await updateJson(pinsPath(versionsRoot), (data) => {
+    data.documents = data.documents || {};
+    const forDoc = data.documents[filename] || (data.documents[filename] = {});
+    const existing = forDoc[versionFile];
+    pin = {
+      label: String(label).trim(),
+      note: String(note).trim(),
+      pinnedAt: existing?.pinnedAt || new Date().toISOString(),
+      pinnedBy: existing?.pinnedBy || pinnedBy,
+    };
+    forDoc[versionFile] = pin;
+    return true;
+  }, { fallback: () => ({ documents: {} }) });
+  return pin;
+}
+
+/** Remove a pin; resolves to true if there was one */
+export async function unpinVersion(versionsRoot, filename, versionFile) {
+  let removed = false;
+  await updateJson(pinsPath(versionsRoot), (data) => {
+    removed = false;
+    const forDoc = data.documents?.[filename];
+    if (!forDoc || !forDoc[versionFile]) return false;
+    delete forDoc[versionFile];
+    if (Object.keys(forDoc).length === 0) delete data.documents[filename];
+    removed = true;
+    return true;
+  }, { fallback: () => ({ documents: {} }) });
+  return removed;
+}
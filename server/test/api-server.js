@@ -0,0 +1,46 @@
+/**
+ * Start the real API server for a test file, on a copy of server/ and data/ in a temp
+ * directory so the repo's data files stay as they are.
+ * Returns the API base URL, the copy's data/dashboard-data and a stop() to call after.
+ */
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+
+export async function startServer() {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zyga-api-'));
+  await fs.cp(path.join(ROOT, 'server'), path.join(dir, 'server'), { recursive: true });
+  await fs.cp(path.join(ROOT, 'data'), path.join(dir, 'data'), { recursive: true });
+  await fs.symlink(path.join(ROOT, 'node_modules'), path.join(dir, 'node_modules'), 'dir');
+
+  const port = 40000 + Math.floor(Math.random() * 10000);
+  const server = spawn(process.execPath, [path.join(dir, 'server', 'index.js')], {
+    env: { ...process.env, API_PORT: String(port) },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+  const stop = async () => {
+    server.kill();
+    await fs.rm(dir, { recursive: true, force: true });
+  };
+  try {
+    await new Promise((resolve, reject) => {
+      server.stdout.on('data', (chunk) => {
+        if (String(chunk).includes('API running at')) resolve();
+      });
+      server.on('exit', (code) => reject(new Error(`Server exited with code ${code}`)));
+    });
+  } catch (err) {
+    await stop();
+    throw err;
+  }
+  return { base: `http://localhost:${port}/api`, dataDir: path.join(dir, 'data', 'dashboard-data'), stop };
+}
+
+/** fetch() a JSON body to the API */
+export function sendJson(url, method, body) {
+  return fetch(url, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+}
@@ -0,0 +1,53 @@
+/** Column keys that name inherited object properties, against the real server (see api-server.js) */
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, sendJson } from './api-server.js';
+
+let BASE;
+let stop;
+
+before(async () => {
+  ({ base: BASE, stop } = await startServer());
+});
+
+after(() => stop?.());
+
+const INHERITED = ['__proto__', 'constructor', 'toString', 'hasOwnProperty'];
+
+async function columnKeys() {
+  const data = await (await fetch(`${BASE}/board/columns`)).json();
+  return data.columns.map((c) => c.key);
+}
+
+test('deleting an inherited property name is not found', async () => {
+  const before = await columnKeys();
+  for (const key of INHERITED) {
+    const res = await fetch(`${BASE}/board/columns/${encodeURIComponent(key)}`, { method: 'DELETE' });
+    assert.equal(res.status, 404, key);
+  }
+  assert.deepEqual(await columnKeys(), before);
+});
+
+test('updating an inherited property name is not found', async () => {
+  for (const key of INHERITED) {
+    const res = await sendJson(`${BASE}/board/columns/${encodeURIComponent(key)}`, 'PUT', { name: 'Hacked' });
+    assert.equal(res.status, 404, key);
+  }
+});
+
+test('reordering reports inherited property names as missing', async () => {
+  const before = await columnKeys();
+  const res = await sendJson(`${BASE}/board/columns/reorder`, 'POST', { order: ['constructor', 'toString'] });
+  assert.equal(res.status, 200);
+  const data = await res.json();
+  assert.deepEqual(data.missing, ['constructor', 'toString']);
+  assert.deepEqual(data.columns.map((c) => c.key), before);
+});
+
+test('a task cannot be moved to an inherited property name', async () => {
+  const task = await (await sendJson(`${BASE}/tasks`, 'POST', { title: 'Prototype test' })).json();
+  for (const status of INHERITED) {
+    const res = await sendJson(`${BASE}/tasks/${task.id}`, 'PUT', { status });
+    assert.equal(res.status, 400, status);
+  }
+});
@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { upcomingCronTimes } from '../lib/cron.js';
+
+// Thursday 1 January 2026, server-local like the schedules themselves
+const NEW_YEAR = new Date(2026, 0, 1);
+
+/** Days of January 2026 the expression fires on, up to the 20th */
+function januaryDays(expression) {
+  return upcomingCronTimes(expression, 20, NEW_YEAR)
+    .filter((t) => t.getFullYear() === 2026 && t.getMonth() === 0 && t.getDate() <= 20)
+    .map((t) => t.getDate());
+}
+
+test('a step in day-of-month with a set weekday fires on either', () => {
+  // Odd days, plus Mondays 5, 12 and 19
+  assert.deepEqual(januaryDays('0 9 */2 * 1'), [1, 3, 5, 7, 9, 11, 12, 13, 15, 17, 19]);
+});
+
+test('a step in day-of-week with a set day of the month fires on either', () => {
+  // Sundays, Tuesdays, Thursdays and Saturdays, plus the 15th (a Thursday anyway) and the 2nd
+  assert.deepEqual(januaryDays('0 9 2,15 * */2'), [1, 2, 3, 4, 6, 8, 10, 11, 13, 15, 17, 18, 20]);
+});
+
+test('*/1 in a day field is the same as *', () => {
+  assert.deepEqual(januaryDays('0 9 */1 * 1'), [5, 12, 19]);
+  assert.deepEqual(januaryDays('0 9 15 * */1'), [15]);
+});
+
+test('a step in one day field with * in the other only uses the step', () => {
+  assert.deepEqual(januaryDays('0 9 */5 * *'), [1, 6, 11, 16]);
+});
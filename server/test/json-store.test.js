@@ -0,0 +1,46 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { readJsonFile, updateJson, WriteConflictError } from '../lib/json-store.js';
+
+let dir;
+let file;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'zyga-store-'));
+  file = path.join(dir, 'notes.json');
+  await fs.writeFile(file, JSON.stringify({ notes: [] }), 'utf-8');
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+test('a write made while mutating is kept and the mutation re-run on top of it', async () => {
+  let runs = 0;
+  const data = await updateJson(file, async (d) => {
+    if (++runs === 1) await fs.writeFile(file, JSON.stringify({ notes: ['from the agent'] }), 'utf-8');
+    d.notes.push('from the server');
+    return true;
+  });
+  assert.equal(runs, 2);
+  assert.deepEqual(data.notes, ['from the agent', 'from the server']);
+  assert.deepEqual((await readJsonFile(file)).notes, ['from the agent', 'from the server']);
+});
+
+test('a file that changes on every attempt is not overwritten', async () => {
+  let runs = 0;
+  await assert.rejects(
+    updateJson(file, async (d) => {
+      runs++;
+      await fs.writeFile(file, JSON.stringify({ notes: [`agent write ${runs}`] }), 'utf-8');
+      d.notes.push('from the server');
+      return true;
+    }),
+    WriteConflictError,
+  );
+  assert.equal(runs, 3);
+  assert.deepEqual((await readJsonFile(file)).notes, ['agent write 3']);
+});
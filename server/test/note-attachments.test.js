@@ -0,0 +1,85 @@
+/** Note attachment uploads, against the real server (see api-server.js) */
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { startServer, sendJson } from './api-server.js';
+
+let BASE;
+let dataDir;
+let stop;
+
+before(async () => {
+  ({ base: BASE, dataDir, stop } = await startServer());
+});
+
+after(() => stop?.());
+
+async function createNote() {
+  const res = await sendJson(`${BASE}/notes`, 'POST', { text: 'Attachment test' });
+  assert.equal(res.status, 201);
+  return (await res.json()).id;
+}
+
+function upload(noteId, name, type, body) {
+  return fetch(`${BASE}/notes/${noteId}/attachments?name=${encodeURIComponent(name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': type },
+    body,
+  });
+}
+
+test('a .json file is stored as it was sent', async () => {
+  const noteId = await createNote();
+  const content = JSON.stringify({ level: 'error', message: 'Disk full' }, null, 2);
+
+  const res = await upload(noteId, 'log.json', 'application/json', content);
+  assert.equal(res.status, 201);
+  const attachment = await res.json();
+  assert.equal(attachment.name, 'log.json');
+  assert.equal(attachment.type, 'application/json');
+  assert.equal(attachment.size, Buffer.byteLength(content));
+
+  const file = await fetch(`${BASE}/notes/${noteId}/attachments/${attachment.id}`);
+  assert.equal(file.status, 200);
+  assert.equal(await file.text(), content);
+});
+
+test('a .json file that is not valid JSON is still accepted', async () => {
+  const noteId = await createNote();
+  const content = '{ "unterminated": ';
+  const res = await upload(noteId, 'broken.json', 'application/json', content);
+  assert.equal(res.status, 201);
+  assert.equal((await res.json()).size, content.length);
+});
+
+test('a .json file over 100kb is accepted', async () => {
+  const noteId = await createNote();
+  const content = JSON.stringify({ lines: 'x'.repeat(200 * 1024) });
+  const res = await upload(noteId, 'big.json', 'application/json', content);
+  assert.equal(res.status, 201);
+  assert.equal((await res.json()).size, content.length);
+});
+
+test('other routes still parse JSON bodies', async () => {
+  const noteId = await createNote();
+  const res = await sendJson(`${BASE}/notes/${noteId}`, 'PUT', { pinned: true });
+  assert.equal(res.status, 200);
+  assert.equal((await res.json()).pinned, true);
+});
+
+test('a file the agent listed without a type or name is served as a download', async () => {
+  const noteId = await createNote();
+  await fs.mkdir(path.join(dataDir, 'attachments', noteId), { recursive: true });
+  await fs.writeFile(path.join(dataDir, 'attachments', noteId, 'report.log'), 'all good\n');
+  const notesPath = path.join(dataDir, 'notes.json');
+  const data = JSON.parse(await fs.readFile(notesPath, 'utf-8'));
+  data.notes.find((n) => n.id === noteId).attachments = [{ id: 'agent-file', file: `${noteId}/report.log` }];
+  await fs.writeFile(notesPath, JSON.stringify(data, null, 2));
+
+  const res = await fetch(`${BASE}/notes/${noteId}/attachments/agent-file`);
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get('content-type'), 'application/octet-stream');
+  assert.match(res.headers.get('content-disposition'), /^attachment; filename\*=UTF-8''report\.log$/);
+  assert.equal(await res.text(), 'all good\n');
+});
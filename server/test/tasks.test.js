@@ -0,0 +1,55 @@
+/** Task updates: revision checks and target columns, against the real server (see api-server.js) */
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startServer, sendJson } from './api-server.js';
+
+let BASE;
+let stop;
+
+before(async () => {
+  ({ base: BASE, stop } = await startServer());
+});
+
+after(() => stop?.());
+
+async function createTask() {
+  const res = await sendJson(`${BASE}/tasks`, 'POST', { title: 'Revision test' });
+  assert.equal(res.status, 201);
+  return res.json();
+}
+
+test('an update with the current revision is saved', async () => {
+  const task = await createTask();
+  const res = await sendJson(`${BASE}/tasks/${task.id}`, 'PUT', { title: 'Renamed', revision: task.revision });
+  assert.equal(res.status, 200);
+});
+
+test('an update with an old revision is a conflict', async () => {
+  const task = await createTask();
+  const res = await sendJson(`${BASE}/tasks/${task.id}`, 'PUT', { title: 'Renamed', revision: task.revision - 1 });
+  assert.equal(res.status, 409);
+});
+
+test('a revision that is not a number is rejected', async () => {
+  const task = await createTask();
+  for (const revision of ['x', 1.5, -1, true]) {
+    const res = await sendJson(`${BASE}/tasks/${task.id}`, 'PUT', { title: 'Renamed', revision });
+    assert.equal(res.status, 400, `revision ${JSON.stringify(revision)}`);
+  }
+});
+
+test('moving a task to an unknown column is rejected and leaves it where it was', async () => {
+  const task = await createTask();
+  const res = await sendJson(`${BASE}/tasks/${task.id}`, 'PUT', { status: 'no_such_column' });
+  assert.equal(res.status, 400);
+  assert.match((await res.json()).error, /Unknown column/);
+
+  const board = await (await fetch(`${BASE}/tasks`)).json();
+  assert.ok(board.columns[task.status].tasks.some((t) => t.id === task.id));
+});
+
+test('creating a task in an unknown column is rejected', async () => {
+  const res = await sendJson(`${BASE}/tasks`, 'POST', { title: 'Stale column', status: 'no_such_column' });
+  assert.equal(res.status, 400);
+  assert.match((await res.json()).error, /Unknown column/);
+});
@@ -0,0 +1,83 @@
+/** Deleting tasks and notes when the trash can't be written, against the real server (see api-server.js) */
+import { test, before, after, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import { startServer, sendJson } from './api-server.js';
+
+let BASE;
+let trashPath;
+let stop;
+
+before(async () => {
+  let dataDir;
+  ({ base: BASE, dataDir, stop } = await startServer());
+  trashPath = path.join(dataDir, 'trash.json');
+});
+
+after(() => stop?.());
+
+// A directory where trash.json should be makes every trash write fail
+beforeEach(async () => {
+  await fs.rm(trashPath, { recursive: true, force: true });
+  await fs.mkdir(trashPath);
+});
+
+afterEach(async () => {
+  await fs.rm(trashPath, { recursive: true, force: true });
+});
+
+async function createTask(fields) {
+  const res = await sendJson(`${BASE}/tasks`, 'POST', { title: 'Trash test', ...fields });
+  assert.equal(res.status, 201);
+  return res.json();
+}
+
+async function boardTask(id) {
+  const board = await (await fetch(`${BASE}/tasks`)).json();
+  for (const col of Object.values(board.columns)) {
+    const task = col.tasks.find((t) => t.id === id);
+    if (task) return task;
+  }
+  return null;
+}
+
+test('a task stays on the board when it cannot be trashed', async () => {
+  const prerequisite = await createTask();
+  const task = await createTask({ dependsOn: [prerequisite.id] });
+
+  const res = await fetch(`${BASE}/tasks/${prerequisite.id}`, { method: 'DELETE' });
+  assert.equal(res.status, 500);
+  assert.ok(await boardTask(prerequisite.id));
+  assert.deepEqual((await boardTask(task.id)).depends_on, [prerequisite.id]);
+});
+
+test('batch-deleted tasks stay on the board when they cannot be trashed', async () => {
+  const first = await createTask();
+  const second = await createTask({ dependsOn: [first.id] });
+
+  const res = await sendJson(`${BASE}/tasks/batch`, 'POST', { ids: [first.id, second.id], action: 'delete' });
+  assert.equal(res.status, 500);
+  assert.ok(await boardTask(first.id));
+  assert.deepEqual((await boardTask(second.id)).depends_on, [first.id]);
+});
+
+test('a note stays in the list when it cannot be trashed', async () => {
+  const created = await (await sendJson(`${BASE}/notes`, 'POST', { text: 'Trash test' })).json();
+
+  const res = await fetch(`${BASE}/notes/${created.id}`, { method: 'DELETE' });
+  assert.equal(res.status, 500);
+  const notes = await (await fetch(`${BASE}/notes`)).json();
+  assert.ok(notes.notes.some((n) => n.id === created.id));
+});
+
+test('a delete goes through once the trash can be written', async () => {
+  const task = await createTask();
+  await fs.rm(trashPath, { recursive: true, force: true });
+
+  const res = await fetch(`${BASE}/tasks/${task.id}`, { method: 'DELETE' });
+  assert.equal(res.status, 200);
+  assert.equal(await boardTask(task.id), null);
+  const trash = await (await fetch(`${BASE}/trash`)).json();
+  assert.ok(trash.items.some((e) => e.item.id === task.id));
+});
@@ -1,10 +1,39 @@
 
 export type TabId = 'dashboard' | 'docs' | 'log' | 'overview';
 
-export type TaskStatus = 'todo' | 'in-progress' | 'done' | 'archive';
+/** A jump request from the command palette, handled by the tab that owns the item */
+export type NavigationTarget =
+  | { kind: 'task'; id: string }
+  | { kind: 'new-task' }
+  | { kind: 'note'; id: string }
+  | { kind: 'doc'; id: string }
+  | { kind: 'log'; id: string };
+
+/** A task's status is the key of the board column it's in; columns are user-defined (BoardColumn) */
+export type TaskStatus = string;
+
+/** open = work to do, done = completed (never overdue), archive = put away (at most one, collapsed) */
+export type ColumnKind = 'open' | 'done' | 'archive';
+
+export interface BoardColumn {
+  key: TaskStatus;
+  name: string;
+  kind: ColumnKind;
+  wipLimit: number | null; // work-in-progress limit; null = none
+}
 
 export type TaskPriority = 'High' | 'Medium' | 'Low';
 
+export type Assignee = 'user' | 'zyga';
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  assignee?: Assignee | null;
+  doneAt?: number | null;
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -13,21 +42,85 @@ export interface Task {
   priority: TaskPriority;
   createdAt: number;
   createdBy?: 'user' | 'zyga';
+  revision?: number; // bumped by the server on every update; sent back for conflict detection
+  dueAt?: number | null;      // deadline (ms); null = none
+  reminderAt?: number | null; // when to remind about it (ms); null = none
+  checklist?: ChecklistItem[];
+  labels?: string[];
+  assignee?: string | null;                // anyone, not just user / zyga
+  customFields?: Record<string, string>;   // user-defined name → value
+  dependsOn?: string[]; // ids of prerequisite tasks
+  blockedBy?: string[]; // the prerequisites still in an open column (computed by the server)
+  recurrence?: Recurrence | null; // only the latest occurrence of a recurring task has one
+  recurredFrom?: string | null;   // the previous occurrence
+  sourceNote?: string | null;     // the note it was converted from
+}
+
+/**
+ * How a task repeats: `cron` is a 5-field cron expression (server-local time).
+ * after_done = the next occurrence comes once this one is finished; schedule = whenever the cron fires.
+ */
+export interface Recurrence {
+  cron: string;
+  mode: 'after_done' | 'schedule';
+  nextAt?: number | null; // ms; when the schedule next fires
+}
+
+/** A button on a toast, e.g. Undo */
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+/** open → resolved (dealt with) or converted (turned into a task or document); either can be reopened */
+export type NoteStatus = 'open' | 'resolved' | 'converted';
+
+/** Urgent notes are picked up before normal and low ones (after pinned notes) */
+export type NoteUrgency = 'urgent' | 'normal' | 'low';
+
+export interface NoteReply {
+  id: string;
+  text: string;
+  by: Assignee;
+  at: number;
+}
+
+/** A file attached to a note; `url` serves it */
+export interface NoteAttachment {
+  id: string;
+  name: string;
+  type: string; // MIME type
+  size: number; // bytes
+  url: string;
+  uploadedAt: number;
 }
 
 export interface Note {
   id: string;
-  content: string;
+  content: string;                // markdown
   createdAt: number;
   seen: boolean;
+  seenAt?: number | null;
+  status: NoteStatus;
+  urgency: NoteUrgency;
+  pinned: boolean;
+  replies: NoteReply[];           // oldest first
+  resolvedAt?: number | null;     // when it was resolved / converted
+  convertedTo?: { kind: 'task' | 'doc'; id: string } | null;
+  attachments: NoteAttachment[];  // in upload order
 }
 
 export interface Deliverable {
   id: string;
   title: string;
-  frequency: 'Daily' | 'Weekly' | 'Monthly';
+  frequency: string; // Hourly, Daily, Weekdays, Weekly, Monthly or Custom (from the cron expression)
   tag: string;
   icon: string; // Emoji char
+  description?: string;
+  cron: string;
+  enabled: boolean;
+  lastRun: number | null;
+  nextRun: number | null; // null while disabled
 }
 
 export type AgentState = 'working' | 'idle' | 'thinking' | 'sleeping' | 'error' | 'executing_cron';
@@ -63,6 +156,18 @@ export interface Doc {
   blocks?: import('@blocknote/core').PartialBlock[];
 }
 
+/** A save rejected because the document changed on disk since it was loaded */
+export interface DocConflict {
+  docId: string;
+  localMarkdown: string;
+  localBlocks: import('@blocknote/core').PartialBlock[];
+  serverMarkdown: string;
+  serverEtag: string;
+  editedBy?: string;
+}
+
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
 export type LogType = 'success' | 'info' | 'warning' | 'error' | 'heartbeat';
 
 export interface LogEntry {